@@ -1,9 +1,22 @@
 // 🏋️ Main Application Class - StrengthLog V2.0
 
 import { DataManager } from '@core/DataManager.js';
-import { AnalyticsEngine } from '@core/AnalyticsEngine.js';
+import { AnalyticsEngine, DEFAULT_VOLUME_LANDMARKS } from '@core/AnalyticsEngine.js';
 import { BetaManager } from '@core/BetaManager.js';
+import { LocalFolderBackend } from '@core/LocalFolderBackend.js';
+import { OneRepMaxEstimator, ONE_REP_MAX_FORMULAS, getFormulaLabel } from '@core/OneRepMax.js';
+import { resolveCompetitionLifts, smoothBodyweight } from '@core/StrengthScores.js';
+import { INTENSITY_ZONES } from '@core/IntensityZones.js';
+import { buildTemplateExercises, repeatLastSession, templateFromWorkout } from '@core/WorkoutTemplates.js';
+import { ProgramEngine } from '@core/ProgramEngine.js';
+import { PROGRESSION_MODELS, suggestNextSession } from '@core/ProgressionSuggestions.js';
+import { RestTimer } from '@core/RestTimer.js';
+import { BUILT_IN_PROGRAMS, getProgram } from '@core/BuiltInPrograms.js';
+import type { SyncRevision, BackupData as SyncBackupData } from '@core/SyncBackend.js';
+import type { DatasetDiff } from '@core/SyncMerger.js';
 import { ProgressionChart } from '@components/ProgressionChart.js';
+import { StrengthScoreChart } from '@components/StrengthScoreChart.js';
+import { IntensityChart } from '@components/IntensityChart.js';
 import { WorkoutForm } from '@components/WorkoutForm.js';
 import { FeedbackModal } from '@components/FeedbackModal.js';
 import { ExerciseGraph, type ExerciseProgressionData } from '@components/ExerciseGraph.js';
@@ -11,7 +24,21 @@ import type {
   Exercise,
   WorkoutSession,
   UserSettings,
-  AppState
+  AppState,
+  SyncConflict,
+  WorkoutExercise,
+  TrashItem,
+  OneRepMaxFormula,
+  BodyweightEntry,
+  Sex,
+  WorkoutTemplate,
+  TemplateExercise,
+  ProgramState,
+  ProgramSession,
+  TrainingMaxChange,
+  ProgressionModel,
+  ProgressionSettings,
+  ProgressionSuggestion
 } from '../types/index.js';
 import {
   ExerciseCategory,
@@ -25,12 +52,20 @@ export class StrengthLogApp {
   private analyticsEngine: AnalyticsEngine | null = null;
   private exercises: Exercise[] = [];
   private workouts: WorkoutSession[] = [];
+  private trash: TrashItem[] = [];
+  private bodyweightLog: BodyweightEntry[] = [];
+  private templates: WorkoutTemplate[] = [];
+  private programState: ProgramState | null = null;
   private settings: UserSettings;
   private appState: AppState;
+  private currentView = 'dashboard';
 
   // UI Components
   private workoutForm: WorkoutForm | null = null;
+  private restTimer = new RestTimer(); // Survives switching away from the workout view
   private progressionChart: ProgressionChart | null = null;
+  private strengthScoreChart: StrengthScoreChart | null = null;
+  private intensityChart: IntensityChart | null = null;
   private feedbackModal: FeedbackModal | null = null;
   private exerciseGraphs: Map<string, ExerciseGraph> = new Map();
 
@@ -52,16 +87,34 @@ export class StrengthLogApp {
       // Skip migration - clean start with V2
       console.log('🎯 Starting fresh with V2.0 - no migration needed');
 
-      // Load data and auto-sync from GitHub
+      // Load data and auto-sync from the cloud
       await this.loadData();
-      await this.autoSyncFromGitHub();
+      await this.autoSyncFromCloud();
 
       // Initialize analytics engine
-      this.analyticsEngine = new AnalyticsEngine(this.exercises, this.workouts);
+      this.analyticsEngine = new AnalyticsEngine(this.exercises, this.workouts, this.settings.oneRepMaxFormula);
 
       // Set up UI
       this.setupUI();
       this.setupEventListeners();
+      this.updateSyncIndicator();
+
+      if (this.dataManager.getCloudSyncStatus().encryption === 'locked') {
+        this.showToast('🔐 Your cloud backup is encrypted - enter your passphrase to sync', 'info', {
+          label: 'Unlock',
+          onClick: () => this.showSyncSetup()
+        });
+      }
+
+      const { conflictCount } = this.dataManager.getSyncStatus();
+      if (conflictCount > 0) {
+        this.showToast(`⚠️ ${conflictCount} sync conflicts need your attention`, 'info', {
+          label: 'Review',
+          onClick: () => this.showSyncConflicts()
+        });
+      }
+
+      await this.offerDraftResume();
 
       // Initialize beta features
       await this.initializeBetaFeatures();
@@ -82,24 +135,25 @@ export class StrengthLogApp {
     }
   }
 
-  // 📥 Auto-sync from GitHub on app load
-  private async autoSyncFromGitHub(): Promise<void> {
+  // 📥 Auto-sync from the cloud on app load
+  private async autoSyncFromCloud(): Promise<void> {
     try {
-      console.log('📥 Checking for GitHub sync...');
+      console.log('📥 Checking for cloud sync...');
 
-      const restored = await this.dataManager.autoRestoreFromGitHub();
+      const restored = await this.dataManager.autoRestoreFromCloud();
       if (restored) {
         // Reload data after restore
         await this.loadData();
 
         // Reinitialize analytics with new data
-        this.analyticsEngine = new AnalyticsEngine(this.exercises, this.workouts);
+        this.analyticsEngine = new AnalyticsEngine(this.exercises, this.workouts, this.settings.oneRepMaxFormula);
+
+        this.showToast('✅ Data synced from the cloud!', 'success');
+        console.log('📊 Cloud sync completed successfully');
 
-        this.showToast('✅ Data synced from GitHub!', 'success');
-        console.log('📊 GitHub sync completed successfully');
       }
     } catch (error) {
-      console.error('❌ GitHub sync failed:', error);
+      console.error('❌ Cloud sync failed:', error);
       // Don't show error toast - sync failure shouldn't disrupt normal usage
     }
   }
@@ -107,11 +161,24 @@ export class StrengthLogApp {
   // 📊 Load all data from storage
   private async loadData(): Promise<void> {
     try {
-      [this.exercises, this.workouts, this.settings] = await Promise.all([
+      const [exercises, workouts, trash, settings, bodyweightLog, templates, programState] = await Promise.all([
         this.dataManager.getAllExercises(),
         this.dataManager.getAllWorkouts(),
-        this.dataManager.getSettings()
+        this.dataManager.getTrash(),
+        this.dataManager.getSettings(),
+        this.dataManager.getBodyweightLog(),
+        this.dataManager.getTemplates(),
+        this.dataManager.getProgramState()
       ]);
+      this.exercises = exercises;
+      this.workouts = workouts;
+      this.trash = trash;
+      this.bodyweightLog = bodyweightLog;
+      this.templates = templates;
+      this.programState = programState;
+
+      // Fill in settings added after the user's settings were first saved
+      this.settings = { ...this.getDefaultSettings(), ...settings };
 
       // Ensure default exercises exist
       await this.ensureDefaultExercises();
@@ -182,7 +249,7 @@ export class StrengthLogApp {
               <span class="version">v2.0</span>
             </h1>
             <div class="header-actions">
-              <button class="header-btn" id="sync-setup-btn" title="Setup GitHub Sync">
+              <button class="header-btn" id="sync-setup-btn" title="Setup Sync">
                 <span class="sync-icon">☁️</span>
                 <span class="sync-text">Setup Sync</span>
               </button>
@@ -221,6 +288,10 @@ export class StrengthLogApp {
             <span class="nav-icon">📋</span>
             History
           </button>
+          <button class="nav-btn" data-view="trash">
+            <span class="nav-icon">🗑️</span>
+            Trash
+          </button>
         </nav>
 
         <!-- Main Content -->
@@ -256,7 +327,13 @@ export class StrengthLogApp {
     this.workoutForm = new WorkoutForm(
       workoutContainer,
       this.exercises,
-      this.handleWorkoutSave.bind(this)
+      this.handleWorkoutSave.bind(this),
+      undefined,
+      this.settings.oneRepMaxFormula,
+      this.getRestTimerSettings(),
+      this.handleDraftChange.bind(this),
+      this.suggestNextSession.bind(this),
+      this.restTimer
     );
 
     // Initialize progression chart
@@ -324,6 +401,33 @@ export class StrengthLogApp {
           </div>
         </div>
 
+        <!-- Routines -->
+        <div class="dashboard-section">
+          <div class="section-header">
+            <h3>Routines</h3>
+            <button class="secondary-btn" id="new-template">➕ New Routine</button>
+          </div>
+          ${this.renderTemplates()}
+        </div>
+
+        <!-- Program -->
+        <div class="dashboard-section">
+          <h3>Program</h3>
+          ${this.renderProgram()}
+        </div>
+
+        <!-- Training Load -->
+        <div class="dashboard-section">
+          <h3>Training Load</h3>
+          ${this.renderTrainingLoad()}
+        </div>
+
+        <!-- Weekly Muscle Volume -->
+        <div class="dashboard-section">
+          <h3>This Week's Volume</h3>
+          ${this.renderMuscleVolume()}
+        </div>
+
         <!-- Recent Activity -->
         <div class="dashboard-section">
           <h3>Recent Workouts</h3>
@@ -347,7 +451,7 @@ export class StrengthLogApp {
   }
 
   // 🏋️ Render workout card
-  private renderWorkoutCard(workout: WorkoutSession): string {
+  private renderWorkoutCard(workout: WorkoutSession, showActions = false): string {
     const exerciseNames = workout.exercises
       .map(ex => {
         const exercise = this.exercises.find(e => e.id === ex.exerciseId);
@@ -363,10 +467,124 @@ export class StrengthLogApp {
           <span class="workout-duration">${workout.duration}min</span>
           <span class="workout-volume">${Math.round(workout.totalVolume)}kg</span>
         </div>
+        ${showActions ? `
+          <div class="workout-actions">
+            <button class="action-btn edit" data-action="edit" data-id="${workout.id}">✏️ Edit</button>
+            <button class="action-btn" data-action="save-template" data-id="${workout.id}">📋 Save as Routine</button>
+            <button class="action-btn delete" data-action="delete" data-id="${workout.id}">🗑️ Delete</button>
+          </div>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  // 📋 Routines with their targets, ready to start
+  private renderTemplates(): string {
+    if (this.templates.length === 0) {
+      return '<div class="empty-state">No routines yet. Create one, or save a workout from the history as a routine.</div>';
+    }
+
+    return `
+      <div class="template-list">
+        ${this.templates.map(template => `
+          <div class="template-card">
+            <div class="template-name">${template.name}</div>
+            <div class="template-exercises">
+              ${template.exercises.map((target: TemplateExercise) => this.describeTemplateExercise(target)).join(' · ')}
+            </div>
+            <div class="workout-actions">
+              <button class="action-btn" data-action="start-template" data-id="${template.id}">▶️ Start</button>
+              ${this.workouts.some(workout => workout.templateId === template.id) ? `
+                <button class="action-btn" data-action="repeat-template" data-id="${template.id}">🔁 Repeat Last</button>
+              ` : ''}
+              <button class="action-btn edit" data-action="edit-template" data-id="${template.id}">✏️ Edit</button>
+              <button class="action-btn delete" data-action="delete-template" data-id="${template.id}">🗑️ Delete</button>
+            </div>
+          </div>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  // 🗓️ Active program - training maxes, the next session and the calendar ahead
+  private renderProgram(): string {
+    const engine = this.getProgramEngine();
+
+    if (!this.programState || !engine) {
+      return `
+        <div class="program-setup">
+          <select id="program-select">
+            ${BUILT_IN_PROGRAMS.map(program => `<option value="${program.id}">${program.name}</option>`).join('')}
+          </select>
+          <button class="secondary-btn" id="program-setup">🗓️ Start Program</button>
+        </div>
+        <div class="empty-state">Follow a periodised program and each day's sets are prescribed for you.</div>
+      `;
+    }
+
+    const state = this.programState;
+    const upcoming = engine.schedule(state, new Date().toISOString().split('T')[0]!, 8);
+    const next = engine.prescribe(state);
+
+    return `
+      <div class="program-overview">
+        <div class="program-title">
+          <strong>${engine.program.name}</strong>
+          <span class="program-position">Cycle ${next.cycle} · ${next.week}</span>
+        </div>
+
+        <div class="program-maxes">
+          ${engine.program.lifts.filter(lift => state.exerciseIds[lift.id]).map(lift => `
+            <div class="program-max">
+              <span class="program-max-lift">${lift.name}</span>
+              <span class="program-max-value">${state.trainingMaxes[lift.id] ?? 0}kg</span>
+            </div>
+          `).join('')}
+        </div>
+
+        <div class="program-next">
+          <div class="program-session-name">Next: ${next.day}</div>
+          <div class="template-exercises">${this.describeProgramSession(next)}</div>
+          <div class="workout-actions">
+            <button class="primary-btn" id="program-start">▶️ Start Session</button>
+            <button class="secondary-btn" id="program-end">⏹️ End Program</button>
+          </div>
+        </div>
+
+        <div class="program-calendar">
+          ${upcoming.map(({ date, session }) => `
+            <div class="program-calendar-day">
+              <div class="program-calendar-date">${this.formatDate(date)}</div>
+              <div class="program-calendar-session">${session.week} · ${session.day}</div>
+              <div class="program-calendar-lifts">${this.describeProgramSession(session)}</div>
+            </div>
+          `).join('')}
+        </div>
       </div>
     `;
   }
 
+  // Runs of identical sets read as e.g. "Squat 2×5 @ 85kg, 1×5+ @ 95kg"
+  private describeProgramSession(session: ProgramSession): string {
+    type PrescribedExercise = ProgramSession['exercises'][number];
+    return session.exercises.filter((exercise: PrescribedExercise) => exercise.exerciseId).map((exercise: PrescribedExercise) => {
+      const name = this.exercises.find(e => e.id === exercise.exerciseId)?.name ?? 'Unknown';
+      const runs: Array<{ count: number; weight: number; reps: number; amrap: boolean }> = [];
+      for (const set of exercise.sets) {
+        const last = runs[runs.length - 1];
+        if (last && last.weight === set.weight && last.reps === set.reps && last.amrap === set.amrap) last.count++;
+        else runs.push({ count: 1, ...set });
+      }
+      return `${name} ${runs.map(run => `${run.count}×${run.reps}${run.amrap ? '+' : ''} @ ${run.weight}kg`).join(', ')}`;
+    }).join(' · ');
+  }
+
+  private describeTemplateExercise(target: TemplateExercise): string {
+    const name = this.exercises.find(e => e.id === target.exerciseId)?.name ?? 'Unknown';
+    const load = target.load === null ? '' : target.loadType === 'percent' ? ` @ ${target.load}%` : ` @ ${target.load}kg`;
+    return `${name} ${target.sets}×${target.reps}${load}`;
+  }
+
   // 📈 Render progress highlights
   private renderProgressHighlights(): string {
     if (!this.analyticsEngine || this.workouts.length === 0) {
@@ -405,6 +623,110 @@ export class StrengthLogApp {
     }).join('');
   }
 
+  // 🔋 Acute:chronic workload, monotony and the fitness-fatigue balance
+  private renderTrainingLoad(): string {
+    if (!this.analyticsEngine || this.workouts.length === 0) {
+      return '<div class="empty-state">Log workouts with RPE to track your training load.</div>';
+    }
+
+    const load = this.analyticsEngine.getTrainingLoad();
+    const today = this.analyticsEngine.getFitnessFatigue(1)[0];
+
+    const warnings: string[] = [];
+    if (load.status === 'danger') {
+      warnings.push(`🚨 This week's load is ${load.acwr}× your 4-week average - injury risk rises sharply above 1.5. Consider a lighter session.`);
+    } else if (load.status === 'high') {
+      warnings.push(`⚠️ This week's load is ${load.acwr}× your 4-week average - above the 0.8-1.3 safe band.`);
+    } else if (load.status === 'low') {
+      warnings.push(`📉 This week's load is only ${load.acwr}× your 4-week average - below the 0.8-1.3 band you lose fitness.`);
+    }
+    if (load.monotony !== null && load.monotony > 2) {
+      warnings.push(`🔁 Monotony is ${load.monotony} - vary hard and easy days to recover between them.`);
+    }
+
+    return `
+      <div class="training-load">
+        <div class="training-load-stats">
+          <div class="progress-stat">
+            <span class="stat-label">Acute (7d)</span>
+            <span class="stat-value">${load.acuteLoad}</span>
+          </div>
+          <div class="progress-stat">
+            <span class="stat-label">Chronic (28d/wk)</span>
+            <span class="stat-value">${load.chronicLoad}</span>
+          </div>
+          <div class="progress-stat acwr-${load.status}">
+            <span class="stat-label">ACWR</span>
+            <span class="stat-value">${load.acwr ?? '–'}</span>
+          </div>
+          <div class="progress-stat">
+            <span class="stat-label">Monotony</span>
+            <span class="stat-value">${load.monotony ?? '–'}</span>
+          </div>
+          <div class="progress-stat">
+            <span class="stat-label">Strain</span>
+            <span class="stat-value">${load.strain ?? '–'}</span>
+          </div>
+          ${today ? `
+            <div class="progress-stat">
+              <span class="stat-label">Fitness / Fatigue</span>
+              <span class="stat-value">${today.fitness} / ${today.fatigue}</span>
+            </div>
+            <div class="progress-stat">
+              <span class="stat-label">Form</span>
+              <span class="stat-value">${today.performance}</span>
+            </div>
+          ` : ''}
+        </div>
+        ${load.status === 'insufficient_data' ? `
+          <p class="training-load-note">ACWR needs four weeks of training history.</p>
+        ` : ''}
+        ${warnings.map(warning => `<div class="training-load-warning">${warning}</div>`).join('')}
+      </div>
+    `;
+  }
+
+  // 💪 Hard sets per muscle group this week against the MEV/MRV landmarks
+  private renderMuscleVolume(): string {
+    if (!this.analyticsEngine) return '';
+
+    const statuses = this.analyticsEngine.getMuscleVolumeStatus(this.settings.volumeLandmarks);
+    const statusLabels = { below_mev: 'Below MEV', productive: 'Productive', above_mrv: 'Above MRV' };
+    const name = (muscleGroup: string) => muscleGroup.charAt(0).toUpperCase() + muscleGroup.slice(1);
+
+    return `
+      <div class="muscle-volume">
+        ${statuses.map(entry => {
+          const scale = Math.max(entry.mrv, entry.hardSets, 1);
+          return `
+            <div class="muscle-volume-row ${entry.status}">
+              <span class="muscle-volume-name">${name(entry.muscleGroup)}</span>
+              <div class="muscle-volume-bar" title="MEV ${entry.mev} · MRV ${entry.mrv} sets">
+                <div class="muscle-volume-fill" style="width: ${entry.hardSets / scale * 100}%"></div>
+                <div class="muscle-volume-mev" style="left: ${entry.mev / scale * 100}%"></div>
+              </div>
+              <span class="muscle-volume-sets">${entry.hardSets} sets · ${entry.tonnage}kg</span>
+              <span class="muscle-volume-status">${statusLabels[entry.status]}</span>
+            </div>
+          `;
+        }).join('')}
+      </div>
+      <details class="volume-landmarks">
+        <summary>Edit MEV/MRV landmarks (hard sets per week)</summary>
+        <div class="volume-landmarks-grid">
+          <span></span><span>MEV</span><span>MRV</span>
+          ${statuses.map(entry => `
+            <span>${name(entry.muscleGroup)}</span>
+            <input type="number" min="0" step="1" value="${entry.mev}"
+                   data-landmark="${entry.muscleGroup}" data-bound="mev" aria-label="${name(entry.muscleGroup)} MEV">
+            <input type="number" min="0" step="1" value="${entry.mrv}"
+                   data-landmark="${entry.muscleGroup}" data-bound="mrv" aria-label="${name(entry.muscleGroup)} MRV">
+          `).join('')}
+        </div>
+      </details>
+    `;
+  }
+
   // 🎧 Set up event listeners
   private setupEventListeners(): void {
     // Navigation
@@ -419,7 +741,28 @@ export class StrengthLogApp {
 
       // Handle quick actions
       if (target.id === 'quick-workout') {
-        this.switchView('workout');
+        if (this.templates.length > 0) {
+          this.showTemplatePicker();
+        } else {
+          this.switchView('workout');
+        }
+      }
+
+      if (target.id === 'new-template') {
+        this.showTemplateEditor();
+      }
+
+      if (target.id === 'program-setup') {
+        const programId = (document.getElementById('program-select') as HTMLSelectElement | null)?.value;
+        if (programId) this.showProgramSetup(programId);
+      }
+
+      if (target.id === 'program-start') {
+        this.startProgramSession();
+      }
+
+      if (target.id === 'program-end') {
+        this.endProgram();
       }
 
       if (target.id === 'settings-btn') {
@@ -431,7 +774,19 @@ export class StrengthLogApp {
       }
 
       if (target.id === 'sync-setup-btn') {
-        this.showGitHubSyncSetup();
+        this.showSyncSetup();
+      }
+
+      if (target.closest('#sync-status')) {
+        this.showSyncConflicts();
+      }
+
+      if (target.id === 'log-bodyweight') {
+        this.logBodyweight();
+      }
+
+      if (target.dataset['recommendation']) {
+        this.hideRecommendation(target.dataset['recommendation'], target.dataset['hide'] === 'snooze');
       }
 
       // Handle workout action buttons
@@ -446,6 +801,63 @@ export class StrengthLogApp {
       }
     });
 
+    document.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+
+      if (target.id === 'trash-retention') {
+        this.updateTrashRetention(parseInt(target.value));
+      }
+
+      if (target.dataset['landmark']) {
+        this.updateVolumeLandmark(target.dataset['landmark'] as MuscleGroup, target.dataset['bound'] as 'mev' | 'mrv', parseInt(target.value));
+      }
+
+      if (target.id === 'exercise-select') {
+        this.renderAnalyticsChart();
+      }
+
+      if (target.id === 'intensity-grouping') {
+        this.renderIntensityChart();
+      }
+
+      if (target.id === 'forecast-target') {
+        this.updateForecast();
+      }
+
+      if (target.id === 'strength-sex') {
+        this.updateStrengthSettings({ sex: target.value as Sex });
+      }
+
+      if (target.id === 'strength-basis') {
+        this.updateStrengthSettings({ strengthScoreBasis: target.value as 'e1rm' | 'actual' });
+      }
+
+      if (target.dataset['competitionLift']) {
+        this.updateStrengthSettings({
+          competitionLifts: { ...this.settings.competitionLifts, [target.dataset['competitionLift']]: target.value }
+        });
+      }
+
+      if (target.id === 'one-rep-max-formula') {
+        this.updateOneRepMaxFormula(target.value as OneRepMaxFormula);
+      }
+
+      if (target.id === 'progression-model') {
+        this.updateProgressionSettings({ model: target.value as ProgressionModel });
+      }
+
+      if (target.id === 'progression-rep-min' || target.id === 'progression-rep-max') {
+        const min = parseInt((document.getElementById('progression-rep-min') as HTMLInputElement).value) || 1;
+        const max = parseInt((document.getElementById('progression-rep-max') as HTMLInputElement).value) || min;
+        this.updateProgressionSettings({ repRange: { min: Math.min(min, max), max: Math.max(min, max) } });
+      }
+
+      if (target.id === 'progression-target-rpe') {
+        const rpe = parseFloat(target.value);
+        if (rpe >= 6 && rpe <= 10) this.updateProgressionSettings({ targetRpe: Math.round(rpe * 2) / 2 });
+      }
+    });
+
     // Handle keyboard shortcuts
     document.addEventListener('keydown', (e) => {
       if (e.ctrlKey || e.metaKey) {
@@ -468,7 +880,7 @@ export class StrengthLogApp {
   }
 
   // 🔄 Switch between views
-  private switchView(viewName: string): void {
+  private switchView(viewName: string, workoutToEdit?: WorkoutSession): void {
     // Update navigation
     document.querySelectorAll('.nav-btn').forEach(btn => {
       btn.classList.toggle('active', btn.dataset.view === viewName);
@@ -478,6 +890,8 @@ export class StrengthLogApp {
     const container = document.getElementById('view-container');
     if (!container) return;
 
+    this.currentView = viewName;
+
     switch (viewName) {
       case 'dashboard':
         container.innerHTML = this.renderDashboard();
@@ -486,7 +900,17 @@ export class StrengthLogApp {
         container.innerHTML = '<div id="workout-form-container"></div>';
         const workoutContainer = container.querySelector('#workout-form-container') as HTMLElement;
         if (this.workoutForm && workoutContainer) {
-          this.workoutForm = new WorkoutForm(workoutContainer, this.exercises, this.handleWorkoutSave.bind(this));
+          this.workoutForm.destroy();
+          this.workoutForm = new WorkoutForm(
+            workoutContainer, this.exercises, this.handleWorkoutSave.bind(this), workoutToEdit, this.settings.oneRepMaxFormula,
+            this.getRestTimerSettings(), this.handleDraftChange.bind(this), this.suggestNextSession.bind(this), this.restTimer
+          );
+
+          // Come back to the session in progress rather than a blank form
+          const draft = this.appState.currentWorkout;
+          if (!workoutToEdit && draft) {
+            this.workoutForm.resumeDraft(draft, this.workouts.some(w => w.id === draft.id));
+          }
           this.workoutForm.render();
         }
         break;
@@ -495,28 +919,110 @@ export class StrengthLogApp {
         break;
       case 'analytics':
         container.innerHTML = this.renderAnalyticsView();
+        this.renderAnalyticsChart();
+        this.renderStrengthScoreChart();
         break;
       case 'history':
         container.innerHTML = this.renderHistoryView();
         break;
+      case 'trash':
+        container.innerHTML = this.renderTrashView();
+        break;
     }
 
     this.appState.selectedExerciseId = null; // Reset selection
   }
 
+  // 📝 Mirror the session in progress to the draft store - null once it is saved or abandoned
+  private async handleDraftChange(workout: WorkoutSession | null): Promise<void> {
+    this.appState.currentWorkout = workout;
+
+    try {
+      if (workout) {
+        await this.dataManager.saveDraft(workout);
+      } else {
+        await this.dataManager.clearDraft();
+      }
+    } catch (error) {
+      console.error('Failed to save workout draft:', error);
+    }
+  }
+
+  // 📝 Offer to pick up a session a reload or closed tab interrupted
+  private async offerDraftResume(): Promise<void> {
+    const draft = await this.dataManager.getDraft();
+    if (!draft) return;
+
+    const { workout } = draft;
+    const setCount = workout.exercises.reduce((sum, exercise) => sum + exercise.sets.length, 0);
+    const isEdit = this.workouts.some(w => w.id === workout.id);
+
+    const modal = document.createElement('div');
+    modal.className = 'sync-setup-overlay';
+    modal.innerHTML = `
+      <div class="sync-setup-modal draft-resume-modal">
+        <div class="sync-header">
+          <h2>📝 Unfinished Workout</h2>
+          <p>${isEdit ? 'Changes to' : 'Your session from'} ${workout.date} were not saved</p>
+        </div>
+
+        <div class="sync-content">
+          <p class="draft-summary">
+            ${workout.exercises.length} exercises · ${setCount} sets · last edited
+            ${new Date(draft.updatedAt).toLocaleString()}
+          </p>
+          <div class="conflict-actions">
+            <button class="secondary-btn" id="draft-discard">Discard</button>
+            <button class="primary-btn" id="draft-resume">Resume</button>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    modal.querySelector('#draft-discard')?.addEventListener('click', async () => {
+      document.body.removeChild(modal);
+      await this.handleDraftChange(null);
+      this.showToast('Unfinished workout discarded', 'info');
+    });
+
+    modal.querySelector('#draft-resume')?.addEventListener('click', () => {
+      document.body.removeChild(modal);
+      this.appState.currentWorkout = workout;
+      this.switchView('workout');
+    });
+  }
+
+  private getRestTimerSettings(): { defaultSeconds: number; alerts: boolean } {
+    return { defaultSeconds: this.settings.restTimerDefault, alerts: this.settings.notifications.restTimer };
+  }
+
+  // 🎯 Next session of an exercise from the sessions logged before the one being filled in
+  private suggestNextSession(exerciseId: string, workout: WorkoutSession): ProgressionSuggestion | null {
+    const exercise = this.exercises.find(e => e.id === exerciseId);
+    if (!exercise) return null;
+
+    const history = this.workouts.filter(w => w.id !== workout.id && w.date <= workout.date);
+    return suggestNextSession(exercise, history, this.settings.progression, new OneRepMaxEstimator(this.settings.oneRepMaxFormula));
+  }
+
   // 💾 Handle workout save
   private async handleWorkoutSave(workout: WorkoutSession): Promise<void> {
     try {
       this.showLoading(true);
+      const isEdit = this.workouts.some(w => w.id === workout.id);
 
       await this.dataManager.saveWorkout(workout);
-      this.workouts.push(workout);
-
-      // Update analytics engine
-      this.analyticsEngine = new AnalyticsEngine(this.exercises, this.workouts);
+      await this.handleDraftChange(null);
+      await this.reloadWorkoutData([workout.id]);
+      if (!isEdit) await this.advanceProgram(workout);
 
-      this.showToast('Workout saved successfully! 💪', 'success');
-      this.switchView('dashboard');
+      this.showToast(isEdit ? 'Workout updated successfully! ✏️' : 'Workout saved successfully! 💪', 'success');
+      if (this.settings.notifications.progressMilestones) {
+        this.notifyMilestones(workout);
+      }
+      this.switchView(isEdit ? 'history' : 'dashboard');
 
     } catch (error) {
       console.error('Failed to save workout:', error);
@@ -526,6 +1032,54 @@ export class StrengthLogApp {
     }
   }
 
+  // 🏆 Announce the PRs and streaks a saved workout reached
+  private notifyMilestones(workout: WorkoutSession): void {
+    if (!this.analyticsEngine) return;
+
+    const milestones = [
+      ...workout.exercises.flatMap((exercise: WorkoutExercise) => {
+        const name = this.exercises.find(e => e.id === exercise.exerciseId)?.name ?? 'Exercise';
+        return this.analyticsEngine!.generateProgressionChart(exercise.exerciseId, 'all').milestones
+          .filter(milestone => milestone.date === workout.date)
+          .map(milestone => `${name}: ${milestone.description}`);
+      }),
+      ...this.analyticsEngine.getConsistencyMilestones()
+        .filter(milestone => milestone.date === workout.date)
+        .map(milestone => milestone.description)
+    ];
+
+    milestones.slice(0, 3).forEach(message => this.showToast(`🏆 ${message}`, 'success'));
+
+    if (milestones.length > 0 && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification('StrengthLog milestone 🏆', { body: milestones.join('\n') });
+    }
+  }
+
+  // 🔄 Reload after a workout change - progression and personal bests may change on other records too.
+  // Pass the ids that changed to update the analytics index in place; without them it is rebuilt.
+  private async reloadWorkoutData(changedIds?: string[]): Promise<void> {
+    [this.exercises, this.workouts, this.trash] = await Promise.all([
+      this.dataManager.getAllExercises(),
+      this.dataManager.getAllWorkouts(),
+      this.dataManager.getTrash()
+    ]);
+
+    // Update analytics engine
+    if (changedIds && this.analyticsEngine) {
+      this.analyticsEngine.setExercises(this.exercises);
+      changedIds.forEach(id => {
+        const workout = this.workouts.find(w => w.id === id);
+        if (workout) this.analyticsEngine!.upsertWorkout(workout);
+        else this.analyticsEngine!.removeWorkout(id);
+      });
+    } else {
+      this.analyticsEngine = new AnalyticsEngine(this.exercises, this.workouts, this.settings.oneRepMaxFormula);
+    }
+
+    // Saves sync with the cloud and may have pulled in new conflicts
+    this.updateSyncIndicator();
+  }
+
   // 💪 Render exercises view (placeholder)
   private renderExercisesView(): string {
     return `
@@ -542,6 +1096,10 @@ export class StrengthLogApp {
               <div class="exercise-stats">
                 <span>${exercise.totalWorkouts} workouts</span>
               </div>
+              ${this.renderRepMaxTable(exercise.id)}
+              <div class="workout-actions">
+                <button class="action-btn delete" data-action="delete-exercise" data-exercise-id="${exercise.id}">🗑️ Delete</button>
+              </div>
             </div>
           `).join('')}
         </div>
@@ -549,6 +1107,36 @@ export class StrengthLogApp {
     `;
   }
 
+  // 🏅 Heaviest weight for each rep count, linking to the workout it was lifted in
+  private renderRepMaxTable(exerciseId: string): string {
+    const repMaxes = this.analyticsEngine?.getRepMaxTable(exerciseId) ?? [];
+    if (repMaxes.length === 0) return '';
+
+    return `
+      <details class="rep-max-table">
+        <summary>Rep maxes (${repMaxes.map(entry => `${entry.reps}RM`).slice(0, 3).join(', ')}${repMaxes.length > 3 ? '…' : ''})</summary>
+        <table>
+          <thead>
+            <tr><th>Reps</th><th>Weight</th><th>Date</th></tr>
+          </thead>
+          <tbody>
+            ${repMaxes.map(entry => `
+              <tr>
+                <td>${entry.reps}RM</td>
+                <td>${entry.weight}kg</td>
+                <td>
+                  <button class="action-btn link-btn" data-action="edit" data-id="${entry.workoutId}" title="Open workout">
+                    ${this.formatDate(entry.date)}
+                  </button>
+                </td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </details>
+    `;
+  }
+
   // 📈 Render analytics view (placeholder)
   private renderAnalyticsView(): string {
     return `
@@ -567,70 +1155,387 @@ export class StrengthLogApp {
                 <option value="${ex.id}">${ex.name}</option>
               `).join('')}
             </select>
+            <h3>1RM Formula</h3>
+            <select id="one-rep-max-formula">
+              ${Object.entries(ONE_REP_MAX_FORMULAS).map(([formula, { label }]) => `
+                <option value="${formula}" ${this.settings.oneRepMaxFormula === formula ? 'selected' : ''}>${label}</option>
+              `).join('')}
+            </select>
+            <p class="formula-hint">Sets logged with RPE 6–10 and up to 12 reps use the RPE chart instead.</p>
+            <h3>Next-Session Suggestions</h3>
+            <select id="progression-model" aria-label="Progression model">
+              ${Object.entries(PROGRESSION_MODELS).map(([model, label]) => `
+                <option value="${model}" ${this.settings.progression.model === model ? 'selected' : ''}>${label}</option>
+              `).join('')}
+            </select>
+            <div class="progression-settings">
+              <label>Reps
+                <input type="number" id="progression-rep-min" value="${this.settings.progression.repRange.min}" min="1" max="30" step="1">
+                –
+                <input type="number" id="progression-rep-max" value="${this.settings.progression.repRange.max}" min="1" max="30" step="1">
+              </label>
+              <label>Target RPE
+                <input type="number" id="progression-target-rpe" value="${this.settings.progression.targetRpe}" min="6" max="10" step="0.5">
+              </label>
+            </div>
+            <p class="formula-hint">Double progression works up the rep range before adding load. Load steps follow each exercise's equipment.</p>
+            <h3>1RM Forecast</h3>
+            <label for="forecast-target">Target 1RM (kg)</label>
+            <input type="number" id="forecast-target" min="0" step="2.5" placeholder="e.g. 180">
+            <p id="forecast-result" class="forecast-result"></p>
+          </div>
+        </div>
+        <div class="analytics-content intensity-analysis">
+          <div class="chart-container">
+            <canvas id="intensity-chart" width="800" height="400"></canvas>
+          </div>
+          <div class="analytics-sidebar">
+            <h3>Intensity</h3>
+            <select id="intensity-grouping" aria-label="Group intensity by">
+              <option value="session">Per session</option>
+              <option value="week">Per week</option>
+            </select>
+            <p class="formula-hint">Working sets as % of your best e1RM over the previous 12 weeks.
+              Session INOL between 0.4 and 1 is productive, above 2 is very hard.</p>
+            <p id="intensity-summary" class="forecast-result"></p>
           </div>
         </div>
+        ${this.renderRelativeStrength()}
+        <div class="recommendations">
+          <h3>Recommendations</h3>
+          ${this.renderRecommendations()}
+        </div>
       </div>
     `;
   }
 
-  // 📋 Render history view (placeholder)
-  private renderHistoryView(): string {
-    const sortedWorkouts = this.workouts
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  // 🏋️ Wilks, DOTS and IPF GL next to the bodyweight log and the lifts they are based on
+  private renderRelativeStrength(): string {
+    const trend = smoothBodyweight(this.bodyweightLog);
+    const latestBodyweight = trend[trend.length - 1];
+    const lifts = resolveCompetitionLifts(this.exercises, this.settings.competitionLifts);
+    const scores = this.getStrengthScores();
+    const latest = scores[scores.length - 1];
+    const liftNames = [
+      { lift: 'squat', label: 'Squat' },
+      { lift: 'bench', label: 'Bench' },
+      { lift: 'deadlift', label: 'Deadlift' }
+    ] as const;
+
+    let summary = '';
+    if (!this.settings.sex) {
+      summary = '<p class="formula-hint">Choose the sex the score coefficients should use.</p>';
+    } else if (!latest) {
+      summary = '<p class="formula-hint">Log your bodyweight and a session of each competition lift to see scores.</p>';
+    } else {
+      summary = `
+        <div class="strength-scores">
+          <div><span class="stat-label">Total</span> <span class="stat-value">${latest.total}kg</span></div>
+          <div><span class="stat-label">Wilks</span> <span class="stat-value">${latest.wilks}</span></div>
+          <div><span class="stat-label">DOTS</span> <span class="stat-value">${latest.dots}</span></div>
+          <div><span class="stat-label">IPF GL</span> <span class="stat-value">${latest.ipfGL}</span></div>
+          ${liftNames.map(({ lift, label }) => `
+            <div>
+              <span class="stat-label">${label}</span>
+              <span class="stat-value">${(latest.lifts[lift] / latest.bodyweight).toFixed(2)}× BW</span>
+            </div>
+          `).join('')}
+        </div>
+      `;
+    }
 
     return `
-      <div class="history-view">
-        <div class="view-header">
-          <h2>Workout History</h2>
+      <div class="analytics-content relative-strength">
+        <div class="chart-container">
+          <canvas id="strength-score-chart" width="800" height="400"></canvas>
         </div>
-        <div class="history-list">
-          ${sortedWorkouts.map(workout => this.renderWorkoutCard(workout)).join('')}
+        <div class="analytics-sidebar">
+          <h3>Bodyweight</h3>
+          <div class="bodyweight-form">
+            <input type="date" id="bodyweight-date" value="${new Date().toISOString().split('T')[0]}">
+            <input type="number" id="bodyweight-value" min="0" step="0.1" placeholder="kg" aria-label="Bodyweight (kg)">
+            <button class="primary-btn" id="log-bodyweight">Log</button>
+          </div>
+          ${latestBodyweight ? `
+            <p class="formula-hint">Trend ${latestBodyweight.trend}kg (last weigh-in ${latestBodyweight.weight}kg on ${this.formatDate(latestBodyweight.date)})</p>
+          ` : ''}
+          <h3>Relative Strength</h3>
+          <select id="strength-sex" aria-label="Sex for score coefficients">
+            <option value="" ${this.settings.sex ? '' : 'selected'} disabled>Sex…</option>
+            <option value="male" ${this.settings.sex === 'male' ? 'selected' : ''}>Male</option>
+            <option value="female" ${this.settings.sex === 'female' ? 'selected' : ''}>Female</option>
+          </select>
+          <select id="strength-basis" aria-label="Lift values">
+            <option value="e1rm" ${this.settings.strengthScoreBasis === 'e1rm' ? 'selected' : ''}>Best estimated 1RMs</option>
+            <option value="actual" ${this.settings.strengthScoreBasis === 'actual' ? 'selected' : ''}>Heaviest weights lifted</option>
+          </select>
+          ${liftNames.map(({ lift, label }) => `
+            <label for="competition-lift-${lift}">${label}</label>
+            <select id="competition-lift-${lift}" data-competition-lift="${lift}">
+              ${this.exercises.map(ex => `
+                <option value="${ex.id}" ${lifts[lift] === ex.id ? 'selected' : ''}>${ex.name}</option>
+              `).join('')}
+            </select>
+          `).join('')}
+          ${summary}
         </div>
       </div>
     `;
   }
 
-  // Helper methods
-  private calculateWeeklyAverage(): number {
-    if (this.workouts.length === 0) return 0;
-
-    const oldestWorkout = new Date(Math.min(...this.workouts.map(w => new Date(w.date).getTime())));
-    const weeksSinceStart = Math.max(1, Math.ceil((Date.now() - oldestWorkout.getTime()) / (7 * 24 * 60 * 60 * 1000)));
+  private getStrengthScores() {
+    if (!this.analyticsEngine || !this.settings.sex) return [];
 
-    return this.workouts.length / weeksSinceStart;
+    return this.analyticsEngine.getStrengthScores(
+      resolveCompetitionLifts(this.exercises, this.settings.competitionLifts),
+      smoothBodyweight(this.bodyweightLog),
+      this.settings.sex,
+      this.settings.strengthScoreBasis
+    );
   }
 
-  private formatDate(dateString: string): string {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric'
-    });
+  private renderStrengthScoreChart(): void {
+    const canvas = document.getElementById('strength-score-chart') as HTMLCanvasElement | null;
+    if (!canvas) return;
+
+    this.strengthScoreChart?.destroy();
+    this.strengthScoreChart = new StrengthScoreChart(canvas);
+    this.strengthScoreChart.render(this.getStrengthScores());
   }
 
-  private showLoading(show: boolean): void {
-    const overlay = document.getElementById('loading-overlay');
-    if (overlay) {
-      overlay.classList.toggle('hidden', !show);
+  // 🧭 Plateau, fatigue and mood signals with what to do about them
+  private renderRecommendations(): string {
+    if (!this.analyticsEngine) return '';
+
+    const recommendations = this.analyticsEngine.getRecommendations(this.settings.hiddenRecommendations);
+    if (recommendations.length === 0) {
+      return '<div class="empty-state">No plateaus or fatigue signs - keep training! 💪</div>';
     }
+
+    const metricLabels = { e1rm: 'e1RM', rpe: 'RPE', mood: 'Mood' };
+
+    return recommendations.map(recommendation => `
+      <div class="recommendation-card severity-${recommendation.severity}">
+        <div class="recommendation-title">${recommendation.title}</div>
+        <div class="recommendation-action">👉 ${recommendation.action}</div>
+        <details class="recommendation-evidence">
+          <summary>Evidence (${recommendation.evidence.length} sessions)</summary>
+          <ul>
+            ${recommendation.evidence.map(point => `
+              <li>${this.formatDate(point.date)}: ${metricLabels[point.metric]} ${point.value}${point.metric === 'e1rm' ? 'kg' : ''}</li>
+            `).join('')}
+          </ul>
+        </details>
+        <div class="recommendation-actions">
+          <button class="recommendation-btn" data-recommendation="${recommendation.id}" data-hide="snooze">⏰ Snooze 1 week</button>
+          <button class="recommendation-btn" data-recommendation="${recommendation.id}" data-hide="dismiss">✖️ Dismiss</button>
+        </div>
+      </div>
+    `).join('');
   }
 
-  private showToast(message: string, type: 'success' | 'error' | 'info' = 'info'): void {
-    const container = document.getElementById('toast-container');
-    if (!container) return;
+  // 📈 Estimated 1RM chart with the trend projected a few weeks ahead
+  private renderAnalyticsChart(): void {
+    const canvas = document.getElementById('progression-chart') as HTMLCanvasElement | null;
+    const select = document.getElementById('exercise-select') as HTMLSelectElement | null;
+    if (!canvas || !select?.value || !this.analyticsEngine) return;
+
+    this.progressionChart?.destroy();
+    this.progressionChart = new ProgressionChart(canvas);
+    this.progressionChart.render(
+      this.analyticsEngine.generateProgressionChart(select.value, 'all'),
+      'oneRepMax',
+      this.analyticsEngine.projectTrend(select.value)
+    );
 
-    const toast = document.createElement('div');
-    toast.className = `toast toast-${type}`;
-    toast.textContent = message;
+    this.updateForecast();
+    this.renderIntensityChart();
+  }
+
+  // 🎚️ Reps per intensity zone of the selected exercise, and how its last session fits Prilepin's chart
+  private renderIntensityChart(): void {
+    const canvas = document.getElementById('intensity-chart') as HTMLCanvasElement | null;
+    const select = document.getElementById('exercise-select') as HTMLSelectElement | null;
+    const grouping = document.getElementById('intensity-grouping') as HTMLSelectElement | null;
+    const summary = document.getElementById('intensity-summary');
+    if (!canvas || !select?.value || !this.analyticsEngine) return;
+
+    const sessions = this.analyticsEngine.getIntensitySessions(select.value);
+    this.intensityChart?.destroy();
+    this.intensityChart = new IntensityChart(canvas);
+    this.intensityChart.render(
+      grouping?.value === 'week' ? this.analyticsEngine.getWeeklyIntensity(select.value) : sessions
+    );
+
+    if (!summary) return;
+    const last = sessions[sessions.length - 1];
+    if (!last) {
+      summary.textContent = 'Log weighted sets of this exercise to see its intensity.';
+      return;
+    }
+
+    const statusLabels = { under: 'below', within: 'within', over: 'above' };
+    const checks = last.prilepin.map(check => {
+      const zone = INTENSITY_ZONES.find(entry => entry.zone === check.zone)?.label ?? check.zone;
+      return `${zone}: ${check.reps} reps, ${statusLabels[check.status]} Prilepin's ${check.repRange[0]}-${check.repRange[1]}`;
+    });
+    summary.textContent = [`Last session INOL ${last.inol}`, ...checks].join(' · ');
+  }
+
+  // 🎯 When the selected exercise reaches the target 1RM at the current rate
+  private updateForecast(): void {
+    const select = document.getElementById('exercise-select') as HTMLSelectElement | null;
+    const input = document.getElementById('forecast-target') as HTMLInputElement | null;
+    const result = document.getElementById('forecast-result');
+    if (!select || !input || !result || !this.analyticsEngine) return;
+
+    const target = parseFloat(input.value);
+    if (!target || target <= 0) {
+      result.textContent = '';
+      return;
+    }
+
+    const forecast = this.analyticsEngine.forecast(select.value, target);
+    if (!forecast) {
+      result.textContent = 'Log this exercise on at least two different days to get a forecast.';
+    } else if (forecast.weeksAway === 0) {
+      result.textContent = `Your trend is already at ${forecast.currentValue}kg.`;
+    } else if (!forecast.expectedDate) {
+      result.textContent = `At the current rate your estimated 1RM (${forecast.currentValue}kg) is not heading towards ${target}kg.`;
+    } else {
+      const range = forecast.latestDate
+        ? `between ${this.formatDate(forecast.earliestDate ?? forecast.expectedDate)} and ${this.formatDate(forecast.latestDate)}`
+        : `no earlier than ${this.formatDate(forecast.earliestDate ?? forecast.expectedDate)}`;
+      result.textContent = `${target}kg expected around ${this.formatDate(forecast.expectedDate)} ` +
+        `(${forecast.weeksAway} weeks), ${range} with 95% confidence.`;
+    }
+  }
+
+  // 📋 Render history view (placeholder)
+  private renderHistoryView(): string {
+    const sortedWorkouts = this.workouts
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+    return `
+      <div class="history-view">
+        <div class="view-header">
+          <h2>Workout History</h2>
+        </div>
+        <div class="history-list">
+          ${sortedWorkouts.map(workout => this.renderWorkoutCard(workout, true)).join('')}
+        </div>
+      </div>
+    `;
+  }
+
+  // 🗑️ Render trash view
+  private renderTrashView(): string {
+    return `
+      <div class="trash-view">
+        <div class="view-header">
+          <h2>Trash</h2>
+          ${this.trash.length > 0 ? `
+            <button class="action-btn delete" data-action="empty-trash">Empty Trash</button>
+          ` : ''}
+        </div>
+        <div class="trash-retention">
+          <label for="trash-retention">Permanently delete items after</label>
+          <select id="trash-retention">
+            ${[7, 14, 30, 90].map(days => `
+              <option value="${days}" ${this.settings.trashRetentionDays === days ? 'selected' : ''}>${days} days</option>
+            `).join('')}
+          </select>
+        </div>
+        <div class="history-list">
+          ${this.trash.length > 0 ?
+            this.trash.map(item => this.renderTrashItem(item)).join('') :
+            '<div class="empty-state">Trash is empty</div>'
+          }
+        </div>
+      </div>
+    `;
+  }
+
+  // 🗑️ Render trashed item card
+  private renderTrashItem(item: TrashItem): string {
+    const title = item.entityType === 'workout'
+      ? `🏋️ Workout - ${this.formatDate(item.entity.date)}`
+      : `💪 Exercise - ${item.entity.name}`;
+    const daysInTrash = Math.floor((Date.now() - new Date(item.deletedAt).getTime()) / (24 * 60 * 60 * 1000));
+    const daysLeft = Math.max(0, this.settings.trashRetentionDays - daysInTrash);
+
+    return `
+      <div class="workout-card">
+        <div>
+          <div class="workout-date">${title}</div>
+          <div class="workout-exercises">Deleted ${this.formatDate(item.deletedAt)} - purged in ${daysLeft} days</div>
+        </div>
+        <div class="workout-actions">
+          <button class="action-btn edit" data-action="restore" data-id="${item.id}">♻️ Restore</button>
+          <button class="action-btn delete" data-action="purge" data-id="${item.id}">Delete Forever</button>
+        </div>
+      </div>
+    `;
+  }
+
+  // Helper methods
+  private calculateWeeklyAverage(): number {
+    if (this.workouts.length === 0) return 0;
+
+    const oldestWorkout = new Date(Math.min(...this.workouts.map(w => new Date(w.date).getTime())));
+    const weeksSinceStart = Math.max(1, Math.ceil((Date.now() - oldestWorkout.getTime()) / (7 * 24 * 60 * 60 * 1000)));
+
+    return this.workouts.length / weeksSinceStart;
+  }
+
+  private formatDate(dateString: string): string {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    });
+  }
+
+  private showLoading(show: boolean): void {
+    const overlay = document.getElementById('loading-overlay');
+    if (overlay) {
+      overlay.classList.toggle('hidden', !show);
+    }
+  }
+
+  private showToast(
+    message: string,
+    type: 'success' | 'error' | 'info' = 'info',
+    action?: { label: string; onClick: () => void }
+  ): void {
+    const container = document.getElementById('toast-container');
+    if (!container) return;
+
+    const toast = document.createElement('div');
+    toast.className = `toast toast-${type}`;
+    toast.textContent = message;
+
+    if (action) {
+      const button = document.createElement('button');
+      button.className = 'toast-action';
+      button.textContent = action.label;
+      button.addEventListener('click', () => {
+        if (container.contains(toast)) {
+          container.removeChild(toast);
+        }
+        action.onClick();
+      });
+      toast.appendChild(button);
+    }
 
     container.appendChild(toast);
 
-    // Auto remove after 3 seconds
+    // Auto remove after 3 seconds (longer when the toast offers an action)
     setTimeout(() => {
       if (container.contains(toast)) {
         container.removeChild(toast);
       }
-    }, 3000);
+    }, action ? 6000 : 3000);
   }
 
   private showError(message: string): void {
@@ -662,6 +1567,18 @@ export class StrengthLogApp {
       restTimerDefault: 90,
       autoSave: true,
       analyticsEnabled: true,
+      trashRetentionDays: 30,
+      oneRepMaxFormula: 'epley',
+      volumeLandmarks: { ...DEFAULT_VOLUME_LANDMARKS },
+      hiddenRecommendations: {},
+      sex: null,
+      competitionLifts: { squat: null, bench: null, deadlift: null },
+      strengthScoreBasis: 'e1rm',
+      progression: {
+        model: 'double',
+        repRange: { min: 8, max: 12 },
+        targetRpe: 8
+      },
       chartDefaults: {
         timeframe: 'month',
         showTrendline: true,
@@ -853,17 +1770,17 @@ export class StrengthLogApp {
     document.head.appendChild(link);
   }
 
-  // ☁️ Show GitHub sync setup modal
-  private showGitHubSyncSetup(): void {
-    const status = this.dataManager.getGitHubSyncStatus();
-    const instructions = this.dataManager.getGitHubSetupInstructions();
+  // ☁️ Show cloud sync setup modal
+  private showSyncSetup(): void {
+    const status = this.dataManager.getCloudSyncStatus();
+    const folderSupported = LocalFolderBackend.isSupported();
 
     const modal = document.createElement('div');
     modal.className = 'sync-setup-overlay';
     modal.innerHTML = `
       <div class="sync-setup-modal">
         <div class="sync-header">
-          <h2>☁️ GitHub Auto-Sync Setup</h2>
+          <h2>☁️ Auto-Sync Setup</h2>
           <p>Automatically sync your workouts across all devices</p>
           <button class="close-btn" id="sync-close">&times;</button>
         </div>
@@ -877,39 +1794,104 @@ export class StrengthLogApp {
             <div class="status-item">
               <span>☁️ Configured:</span>
               <span class="status-${status.configured ? 'good' : 'pending'}">
-                ${status.configured ? '✅ Yes' : '⚠️ Not configured'}
+                ${status.configured ? `✅ ${status.backendLabel}` : '⚠️ Not configured'}
               </span>
             </div>
             <div class="status-item">
               <span>🔄 Last Sync:</span>
               <span>${status.lastSync ? new Date(status.lastSync).toLocaleString() : 'Never'}</span>
             </div>
+            ${status.pendingUpload ? `
+              <div class="status-item">
+                <span>⏳ Pending:</span>
+                <span class="status-pending">
+                  ${status.retryAt ? `Retrying at ${new Date(status.retryAt).toLocaleTimeString()}` : 'Changes waiting to upload'}
+                </span>
+              </div>
+            ` : ''}
           </div>
 
           ${!status.configured ? `
             <div class="setup-form">
-              <h3>Setup Instructions</h3>
-              <div class="instructions">
-                <p><strong>Step 1:</strong> Go to <a href="https://github.com/settings/tokens" target="_blank">GitHub → Settings → Personal Access Tokens</a></p>
-                <p><strong>Step 2:</strong> Generate new token (classic) with <code>repo</code> permissions</p>
-                <p><strong>Step 3:</strong> Enter your details below:</p>
-              </div>
-
               <form id="sync-setup-form">
                 <div class="form-group">
-                  <label for="github-owner">GitHub Username</label>
-                  <input type="text" id="github-owner" placeholder="yourusername" required>
+                  <label for="sync-backend">Store backups in</label>
+                  <select id="sync-backend" name="backend">
+                    <option value="github">🐙 GitHub repository</option>
+                    <option value="webdav">🗄️ WebDAV server (Nextcloud, ownCloud...)</option>
+                    <option value="local-folder" ${folderSupported ? '' : 'disabled'}>
+                      📁 Local folder${folderSupported ? '' : ' (not supported in this browser)'}
+                    </option>
+                  </select>
                 </div>
 
-                <div class="form-group">
-                  <label for="github-repo">Repository Name</label>
-                  <input type="text" id="github-repo" placeholder="strengthlog" required>
+                <div class="backend-fields" data-backend="github">
+                  <div class="instructions">
+                    <p><strong>Step 1:</strong> Go to <a href="https://github.com/settings/tokens" target="_blank">GitHub → Settings → Personal Access Tokens</a></p>
+                    <p><strong>Step 2:</strong> Generate new token (classic) with <code>repo</code> permissions</p>
+                    <p><strong>Step 3:</strong> Enter your details below:</p>
+                  </div>
+
+                  <div class="form-group">
+                    <label for="github-owner">GitHub Username</label>
+                    <input type="text" id="github-owner" name="github-owner" placeholder="yourusername" required>
+                  </div>
+
+                  <div class="form-group">
+                    <label for="github-repo">Repository Name</label>
+                    <input type="text" id="github-repo" name="github-repo" placeholder="strengthlog" required>
+                  </div>
+
+                  <div class="form-group">
+                    <label for="github-token">Personal Access Token</label>
+                    <input type="password" id="github-token" name="github-token" placeholder="ghp_xxxxxxxxxxxx" required>
+                    <small>Keep this secure! It will be stored locally only.</small>
+                  </div>
+
+                  <div class="form-group">
+                    <label for="github-branch">Branch</label>
+                    <input type="text" id="github-branch" name="github-branch" placeholder="main">
+                    <small>Use a dedicated branch such as <code>data</code> to keep sync commits out of your code history. It is created if it doesn't exist.</small>
+                  </div>
+
+                  <div class="form-group">
+                    <label for="github-path">Folder</label>
+                    <input type="text" id="github-path" name="github-path" placeholder="strengthlog-data">
+                    <small>Optional - leave empty to store sync files in the repository root.</small>
+                  </div>
+
+                  <div class="form-group">
+                    <label for="github-layout">Layout</label>
+                    <select id="github-layout" name="github-layout">
+                      <option value="single">Single file</option>
+                      <option value="sharded">One file per year, plus exercises and sync metadata</option>
+                    </select>
+                    <small>Per-year files keep commits small and diffs readable.</small>
+                  </div>
                 </div>
 
-                <div class="form-group">
-                  <label for="github-token">Personal Access Token</label>
-                  <input type="password" id="github-token" placeholder="ghp_xxxxxxxxxxxx" required>
-                  <small>Keep this secure! It will be stored locally only.</small>
+                <div class="backend-fields" data-backend="webdav" hidden>
+                  <div class="form-group">
+                    <label for="webdav-url">Folder URL</label>
+                    <input type="url" id="webdav-url" name="webdav-url" placeholder="https://cloud.example.com/remote.php/dav/files/you/StrengthLog" required>
+                    <small>The folder must already exist. For Nextcloud, copy the WebDAV address from Files → Settings.</small>
+                  </div>
+
+                  <div class="form-group">
+                    <label for="webdav-username">Username</label>
+                    <input type="text" id="webdav-username" name="webdav-username" required>
+                  </div>
+
+                  <div class="form-group">
+                    <label for="webdav-password">App Password</label>
+                    <input type="password" id="webdav-password" name="webdav-password" required>
+                    <small>Use an app password rather than your login password. It will be stored locally only.</small>
+                  </div>
+                </div>
+
+                <div class="backend-fields" data-backend="local-folder" hidden>
+                  <p>Choose a folder on this device, for example one synced by Syncthing or the Nextcloud desktop client.
+                  The browser will ask for permission to read and write it.</p>
                 </div>
 
                 <button type="submit" class="setup-btn">🚀 Setup Auto-Sync</button>
@@ -917,10 +1899,12 @@ export class StrengthLogApp {
             </div>
           ` : `
             <div class="sync-actions">
-              <button class="action-btn" id="force-backup">📤 Force Backup Now</button>
-              <button class="action-btn" id="force-restore">📥 Force Restore Now</button>
+              <button class="action-btn" id="force-sync">🔄 Sync Now</button>
+              <button class="action-btn" id="revision-history">📜 Revision History</button>
               <button class="action-btn danger" id="clear-sync">🗑️ Clear Sync Config</button>
             </div>
+
+            ${this.renderEncryptionSettings(status.encryption)}
           `}
         </div>
       </div>
@@ -934,40 +1918,530 @@ export class StrengthLogApp {
     });
 
     if (!status.configured) {
-      modal.querySelector('#sync-setup-form')?.addEventListener('submit', async (e) => {
-        e.preventDefault();
-        const formData = new FormData(e.target as HTMLFormElement);
+      const form = modal.querySelector<HTMLFormElement>('#sync-setup-form');
+      const backendSelect = modal.querySelector<HTMLSelectElement>('#sync-backend');
+
+      // Only the selected backend's fields are shown and required
+      const showBackendFields = () => {
+        modal.querySelectorAll<HTMLElement>('.backend-fields').forEach(fields => {
+          const active = fields.dataset['backend'] === backendSelect?.value;
+          fields.hidden = !active;
+          fields.querySelectorAll<HTMLInputElement | HTMLSelectElement>('input, select').forEach(input => { input.disabled = !active; });
+        });
+      };
+      backendSelect?.addEventListener('change', showBackendFields);
+      showBackendFields();
 
-        const owner = formData.get('github-owner') as string;
-        const repo = formData.get('github-repo') as string;
-        const token = formData.get('github-token') as string;
+      form?.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const formData = new FormData(form);
+        const field = (name: string) => ((formData.get(name) as string | null) ?? '').trim();
 
         try {
-          this.dataManager.setupGitHubSync(owner, repo, token);
+          switch (backendSelect?.value) {
+            case 'webdav':
+              this.dataManager.setupSync({
+                type: 'webdav',
+                url: field('webdav-url'),
+                username: field('webdav-username'),
+                password: formData.get('webdav-password') as string,
+                filename: 'strength-log-sync.json'
+              });
+              break;
+
+            case 'local-folder':
+              this.dataManager.setupSync({ type: 'local-folder', ...await LocalFolderBackend.pickFolder() });
+              break;
+
+            default:
+              this.dataManager.setupSync({
+                type: 'github',
+                owner: field('github-owner'),
+                repo: field('github-repo'),
+                token: field('github-token'),
+                filename: 'strength-log-sync.json',
+                branch: field('github-branch') || 'main',
+                path: field('github-path'),
+                layout: field('github-layout') === 'sharded' ? 'sharded' : 'single'
+              });
+          }
+
           document.body.removeChild(modal);
-          this.showToast('✅ GitHub sync configured! Auto-backup will start with your next workout.', 'success');
+          this.showToast('✅ Sync configured! Auto-backup will start with your next workout.', 'success');
         } catch (error) {
-          this.showToast('❌ Sync setup failed. Please check your credentials.', 'error');
+          console.error('Sync setup failed:', error);
+          this.showToast('❌ Sync setup failed. Please check your details.', 'error');
         }
       });
     } else {
-      modal.querySelector('#force-backup')?.addEventListener('click', async () => {
+      modal.querySelector('#force-sync')?.addEventListener('click', async () => {
         try {
-          await this.dataManager.setupGitHubSync('', '', ''); // Force backup with existing config
-          this.showToast('✅ Backup completed!', 'success');
+          const changedIds = await this.dataManager.syncNow();
+          if (changedIds) {
+            await this.reloadWorkoutData(changedIds);
+            this.refreshCurrentView();
+          }
+          this.showToast('✅ Sync completed!', 'success');
         } catch (error) {
-          this.showToast('❌ Backup failed.', 'error');
+          console.error('Sync failed:', error);
+          this.showToast('❌ Sync failed.', 'error');
         }
       });
 
+      modal.querySelector('#revision-history')?.addEventListener('click', () => {
+        document.body.removeChild(modal);
+        this.showRevisionHistory();
+      });
+
       modal.querySelector('#clear-sync')?.addEventListener('click', () => {
-        localStorage.removeItem('github-sync-config');
+        this.dataManager.clearSyncConfig();
         document.body.removeChild(modal);
         this.showToast('🗑️ Sync configuration cleared', 'info');
       });
+
+      this.setupEncryptionHandlers(modal);
     }
   }
 
+  // 🔐 Encryption section of the sync modal
+  private renderEncryptionSettings(encryption: 'off' | 'on' | 'locked'): string {
+    if (encryption === 'on') {
+      return `
+        <div class="sync-encryption">
+          <h3>🔐 Encryption</h3>
+          <p class="status-good">✅ Backups are encrypted before they leave this device.</p>
+
+          <form id="rotate-passphrase-form">
+            <div class="form-group">
+              <label for="current-passphrase">Current Passphrase</label>
+              <input type="password" id="current-passphrase" name="current" required>
+            </div>
+            <div class="form-group">
+              <label for="new-passphrase">New Passphrase</label>
+              <input type="password" id="new-passphrase" name="passphrase" minlength="8" required>
+            </div>
+            <div class="form-group">
+              <label for="confirm-passphrase">Confirm New Passphrase</label>
+              <input type="password" id="confirm-passphrase" name="confirm" minlength="8" required>
+              <small>Other devices will ask for the new passphrase on their next sync.</small>
+            </div>
+            <button type="submit" class="secondary-btn">🔑 Change Passphrase</button>
+          </form>
+
+          <button class="action-btn danger" id="disable-encryption">🔓 Turn Off Encryption</button>
+        </div>
+      `;
+    }
+
+    const locked = encryption === 'locked';
+    return `
+      <div class="sync-encryption">
+        <h3>🔐 Encryption</h3>
+        <p class="status-${locked ? 'pending' : 'good'}">
+          ${locked
+            ? '⚠️ Your cloud backup is encrypted. Enter the passphrase you set on your other device to keep syncing.'
+            : 'Encrypt backups with a passphrase so only your devices can read them. The passphrase is never uploaded - if you forget it, the cloud copy cannot be recovered.'}
+        </p>
+
+        <form id="set-passphrase-form">
+          <div class="form-group">
+            <label for="sync-passphrase">Passphrase</label>
+            <input type="password" id="sync-passphrase" name="passphrase" minlength="8" required>
+          </div>
+          ${locked ? '' : `
+            <div class="form-group">
+              <label for="confirm-passphrase">Confirm Passphrase</label>
+              <input type="password" id="confirm-passphrase" name="confirm" minlength="8" required>
+            </div>
+          `}
+          <button type="submit" class="secondary-btn">${locked ? '🔓 Unlock' : '🔐 Enable Encryption'}</button>
+        </form>
+      </div>
+    `;
+  }
+
+  private setupEncryptionHandlers(modal: HTMLElement): void {
+    const close = () => {
+      if (modal.parentElement) document.body.removeChild(modal);
+    };
+
+    const setForm = modal.querySelector<HTMLFormElement>('#set-passphrase-form');
+    setForm?.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const formData = new FormData(setForm);
+      const passphrase = formData.get('passphrase') as string;
+      const confirmation = formData.get('confirm') as string | null;
+
+      if (confirmation !== null && confirmation !== passphrase) {
+        this.showToast('Passphrases do not match', 'error');
+        return;
+      }
+
+      try {
+        await this.dataManager.setSyncPassphrase(passphrase);
+        await this.reloadWorkoutData();
+        this.refreshCurrentView();
+        close();
+        this.showToast('🔐 Sync encryption is on', 'success');
+      } catch (error) {
+        console.error('Failed to set sync passphrase:', error);
+        this.showToast(error instanceof Error ? error.message : 'Failed to set passphrase.', 'error');
+      }
+    });
+
+    const rotateForm = modal.querySelector<HTMLFormElement>('#rotate-passphrase-form');
+    rotateForm?.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const formData = new FormData(rotateForm);
+      const passphrase = formData.get('passphrase') as string;
+
+      if (formData.get('confirm') !== passphrase) {
+        this.showToast('Passphrases do not match', 'error');
+        return;
+      }
+
+      try {
+        await this.dataManager.rotateSyncPassphrase(formData.get('current') as string, passphrase);
+        close();
+        this.showToast('🔑 Passphrase changed', 'success');
+      } catch (error) {
+        console.error('Failed to change sync passphrase:', error);
+        this.showToast(error instanceof Error ? error.message : 'Failed to change passphrase.', 'error');
+      }
+    });
+
+    modal.querySelector('#disable-encryption')?.addEventListener('click', async () => {
+      if (!confirm('Upload future backups without encryption?')) return;
+
+      try {
+        await this.dataManager.disableSyncEncryption();
+        close();
+        this.showToast('🔓 Sync encryption turned off', 'info');
+      } catch (error) {
+        console.error('Failed to disable sync encryption:', error);
+        this.showToast('Failed to turn off encryption.', 'error');
+      }
+    });
+  }
+
+  // 🔄 Show the number of unresolved sync conflicts in the header
+  private updateSyncIndicator(): void {
+    const button = document.getElementById('sync-status');
+    if (!button) return;
+
+    const { conflictCount } = this.dataManager.getSyncStatus();
+    button.classList.toggle('has-conflicts', conflictCount > 0);
+    button.innerHTML = conflictCount > 0
+      ? `<span class="sync-icon">⚠️</span><span class="sync-text">${conflictCount} conflicts</span>`
+      : `<span class="sync-icon">🔄</span><span class="sync-text">Auto-Sync</span>`;
+  }
+
+  // ⚠️ Show sync conflicts and let the user pick a side for each
+  private async showSyncConflicts(): Promise<void> {
+    const conflicts = await this.dataManager.getSyncConflicts();
+
+    const modal = document.createElement('div');
+    modal.className = 'sync-setup-overlay';
+    modal.innerHTML = `
+      <div class="sync-setup-modal sync-conflicts-modal">
+        <div class="sync-header">
+          <h2>⚠️ Sync Conflicts</h2>
+          <p>These changes were made on this device and another device at the same time</p>
+          <button class="close-btn" id="conflicts-close">&times;</button>
+        </div>
+
+        <div class="sync-content">
+          ${conflicts.length === 0 ? `
+            <div class="empty-state">
+              <p>✅ No conflicts - everything is in sync.</p>
+            </div>
+          ` : conflicts.map(conflict => `
+            <div class="conflict-item" data-conflict-id="${conflict.id}">
+              <div class="conflict-title">${this.describeConflictEntity(conflict)}</div>
+              <div class="conflict-field">${this.describeConflictField(conflict)}</div>
+              <div class="conflict-values">
+                <div class="conflict-value">
+                  <span class="conflict-label">📱 This device</span>
+                  <span>${this.describeConflictValue(conflict.local)}</span>
+                </div>
+                <div class="conflict-value">
+                  <span class="conflict-label">☁️ Other device</span>
+                  <span>${this.describeConflictValue(conflict.remote)}</span>
+                </div>
+              </div>
+              <div class="conflict-actions">
+                <button class="secondary-btn" data-resolve="local">Keep mine</button>
+                <button class="primary-btn" data-resolve="remote">Use theirs</button>
+              </div>
+            </div>
+          `).join('')}
+        </div>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    modal.querySelector('#conflicts-close')?.addEventListener('click', () => {
+      document.body.removeChild(modal);
+    });
+
+    modal.querySelectorAll<HTMLButtonElement>('[data-resolve]').forEach(button => {
+      button.addEventListener('click', async () => {
+        const item = button.closest<HTMLElement>('.conflict-item');
+        const conflictId = item?.dataset['conflictId'];
+        if (!item || !conflictId) return;
+
+        try {
+          await this.dataManager.resolveSyncConflict(conflictId, button.dataset['resolve'] as 'local' | 'remote');
+          item.remove();
+          await this.reloadWorkoutData();
+          this.refreshCurrentView();
+
+          if (!modal.querySelector('.conflict-item')) {
+            document.body.removeChild(modal);
+            this.showToast('✅ All sync conflicts resolved', 'success');
+          }
+        } catch (error) {
+          console.error('Failed to resolve conflict:', error);
+          this.showToast(error instanceof Error ? error.message : 'Failed to resolve conflict.', 'error');
+        }
+      });
+    });
+  }
+
+  // 📜 Browse earlier cloud revisions, preview them against local data and restore
+  private async showRevisionHistory(): Promise<void> {
+    const modal = document.createElement('div');
+    modal.className = 'sync-setup-overlay';
+    modal.innerHTML = `
+      <div class="sync-setup-modal revision-history-modal">
+        <div class="sync-header">
+          <h2>📜 Revision History</h2>
+          <p>Every sync keeps a copy - preview one and restore all of it or just some workouts</p>
+          <button class="close-btn" id="revisions-close">&times;</button>
+        </div>
+
+        <div class="sync-content" id="revision-list">
+          <div class="empty-state"><p>Loading revisions...</p></div>
+        </div>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    modal.querySelector('#revisions-close')?.addEventListener('click', () => {
+      document.body.removeChild(modal);
+    });
+
+    const list = modal.querySelector<HTMLElement>('#revision-list');
+    if (!list) return;
+
+    let revisions: SyncRevision[];
+    try {
+      revisions = await this.dataManager.listSyncRevisions(20);
+    } catch (error) {
+      console.error('Failed to load revisions:', error);
+      list.innerHTML = '<div class="empty-state"><p>❌ Could not load revisions.</p></div>';
+      return;
+    }
+
+    if (revisions.length === 0) {
+      list.innerHTML = '<div class="empty-state"><p>No revisions yet - they appear after the first sync.</p></div>';
+      return;
+    }
+
+    const { deviceId } = this.dataManager.getCloudSyncStatus();
+    list.innerHTML = revisions.map(revision => `
+      <div class="revision-item" data-revision-id="${revision.id}">
+        <div class="revision-summary">
+          <div>
+            <div class="conflict-title">${new Date(revision.timestamp).toLocaleString()}</div>
+            <div class="conflict-field">
+              ${revision.deviceId === deviceId ? '📱 This device' : `💻 ${revision.deviceId ?? 'Unknown device'}`}
+              · <span class="revision-counts">…</span>
+            </div>
+          </div>
+          <button class="secondary-btn" data-preview>Preview</button>
+        </div>
+        <div class="revision-preview" hidden></div>
+      </div>
+    `).join('');
+
+    // Decoded revisions, fetched one at a time for their counts and reused by the preview
+    const loaded = new Map<string, Promise<SyncBackupData | null>>();
+    const loadRevision = (id: string) => {
+      if (!loaded.has(id)) loaded.set(id, this.dataManager.getSyncRevision(id));
+      return loaded.get(id)!;
+    };
+
+    list.querySelectorAll<HTMLElement>('.revision-item').forEach(item => {
+      item.querySelector('[data-preview]')?.addEventListener('click', () => {
+        this.toggleRevisionPreview(item, loadRevision, () => document.body.removeChild(modal));
+      });
+    });
+
+    for (const item of list.querySelectorAll<HTMLElement>('.revision-item')) {
+      const counts = item.querySelector('.revision-counts');
+      try {
+        const revision = await loadRevision(item.dataset['revisionId']!);
+        if (counts) {
+          counts.textContent = revision
+            ? `${revision.workouts.length} workouts, ${revision.exercises.length} exercises`
+            : 'Not available';
+        }
+      } catch (error) {
+        console.error('Failed to load revision:', error);
+        if (counts) counts.textContent = 'Not available';
+      }
+    }
+  }
+
+  // 🔍 Show what restoring a revision would change, with restore actions
+  private async toggleRevisionPreview(
+    item: HTMLElement,
+    loadRevision: (id: string) => Promise<SyncBackupData | null>,
+    closeModal: () => void
+  ): Promise<void> {
+    const preview = item.querySelector<HTMLElement>('.revision-preview');
+    const revisionId = item.dataset['revisionId'];
+    if (!preview || !revisionId) return;
+
+    if (!preview.hidden) {
+      preview.hidden = true;
+      return;
+    }
+
+    preview.hidden = false;
+    preview.innerHTML = '<p>Comparing with this device...</p>';
+
+    let revision: SyncBackupData | null;
+    let diff: DatasetDiff;
+    try {
+      revision = await loadRevision(revisionId);
+      if (!revision) {
+        preview.innerHTML = '<p>❌ This revision is no longer available.</p>';
+        return;
+      }
+      diff = await this.dataManager.diffSyncRevision(revision);
+    } catch (error) {
+      console.error('Failed to preview revision:', error);
+      preview.innerHTML = `<p>❌ ${error instanceof Error ? error.message : 'Could not load this revision.'}</p>`;
+      return;
+    }
+
+    // Only workouts the revision would bring back or change can be restored on their own
+    const restorable = [...diff.workouts.added, ...diff.workouts.changed.map(change => change.other)]
+      .sort((a, b) => b.date.localeCompare(a.date));
+    const unchanged = Object.values(diff).every(
+      entities => entities.added.length + entities.removed.length + entities.changed.length === 0
+    );
+
+    preview.innerHTML = unchanged ? '<p>✅ Identical to the data on this device.</p>' : `
+      <ul class="revision-diff">
+        <li>🏋️ Workouts: +${diff.workouts.added.length} restored, −${diff.workouts.removed.length} removed, ✏️ ${diff.workouts.changed.length} changed</li>
+        <li>💪 Exercises: +${diff.exercises.added.length} restored, −${diff.exercises.removed.length} removed, ✏️ ${diff.exercises.changed.length} changed</li>
+      </ul>
+
+      ${restorable.length > 0 ? `
+        <div class="revision-workouts">
+          ${restorable.map(workout => `
+            <label>
+              <input type="checkbox" value="${workout.id}">
+              ${diff.workouts.added.includes(workout) ? '➕' : '✏️'} ${this.formatDate(workout.date)} -
+              ${workout.exercises.length} exercises, ${Math.round(workout.totalVolume)}${this.settings.weightUnit}
+            </label>
+          `).join('')}
+        </div>
+      ` : ''}
+
+      <div class="conflict-actions">
+        ${restorable.length > 0 ? '<button class="secondary-btn" data-restore="selected">Restore selected workouts</button>' : ''}
+        <button class="primary-btn" data-restore="all">Restore this revision</button>
+      </div>
+    `;
+
+    preview.querySelector('[data-restore="selected"]')?.addEventListener('click', async () => {
+      const workoutIds = Array.from(preview.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked'))
+        .map(input => input.value);
+      if (workoutIds.length === 0) {
+        this.showToast('Select the workouts to restore first', 'info');
+        return;
+      }
+
+      try {
+        this.showLoading(true);
+        const count = await this.dataManager.restoreWorkoutsFromRevision(revisionId, workoutIds);
+        await this.reloadWorkoutData();
+        this.refreshCurrentView();
+        closeModal();
+        this.showToast(`⏪ Restored ${count} workouts`, 'success');
+      } catch (error) {
+        console.error('Failed to restore workouts:', error);
+        this.showToast('Failed to restore workouts.', 'error');
+      } finally {
+        this.showLoading(false);
+      }
+    });
+
+    preview.querySelector('[data-restore="all"]')?.addEventListener('click', async () => {
+      if (!confirm('Replace all workouts and exercises with this revision? Removed items go to the trash.')) return;
+
+      try {
+        this.showLoading(true);
+        await this.dataManager.restoreSyncRevision(revisionId);
+        await this.reloadWorkoutData();
+        this.refreshCurrentView();
+        closeModal();
+        this.showToast('⏪ Revision restored', 'success');
+      } catch (error) {
+        console.error('Failed to restore revision:', error);
+        this.showToast('Failed to restore revision.', 'error');
+      } finally {
+        this.showLoading(false);
+      }
+    });
+  }
+
+  private describeConflictEntity(conflict: SyncConflict): string {
+    if (conflict.entityType === 'exercise') {
+      const exercise = (conflict.local ?? conflict.remote ?? conflict.base) as Exercise | undefined;
+      const name = this.exercises.find(e => e.id === conflict.entityId)?.name ?? exercise?.name;
+      return `💪 ${name ?? 'Exercise'}`;
+    }
+
+    const workout = this.workouts.find(w => w.id === conflict.entityId);
+    return workout ? `🏋️ Workout - ${this.formatDate(workout.date)}` : '🏋️ Workout';
+  }
+
+  private describeConflictField(conflict: SyncConflict): string {
+    const [field, elementId, subField] = conflict.path;
+    if (!field) return 'Deleted on one device, edited on the other';
+
+    if (field === 'exercises' && elementId) {
+      const workout = this.workouts.find(w => w.id === conflict.entityId);
+      const exerciseId = workout?.exercises.find((ex: WorkoutExercise) => ex.id === elementId)?.exerciseId;
+      const name = this.exercises.find(e => e.id === exerciseId)?.name ?? 'Exercise';
+      return subField ? `${name} - ${subField}` : `${name} - sets`;
+    }
+
+    return field;
+  }
+
+  private describeConflictValue(value: unknown): string {
+    if (value === undefined) return '🗑️ Deleted';
+    if (value === null || value === '') return '—';
+    if (typeof value !== 'object') return String(value);
+
+    // A workout exercise - summarise its sets
+    const sets = (value as { sets?: Array<{ weight: number; reps: number }> }).sets;
+    if (Array.isArray(sets)) {
+      return sets.map(set => `${set.weight}${this.settings.weightUnit} × ${set.reps}`).join(', ');
+    }
+
+    if ('id' in value) return '✏️ Edited';
+    return JSON.stringify(value);
+  }
+
   // 📊 Exercise Graph Methods
 
   // Create exercise progression data
@@ -992,6 +2466,7 @@ export class StrengthLogApp {
       averageRPE: [],
       totalSets: []
     };
+    const oneRepMax = new OneRepMaxEstimator(this.settings.oneRepMaxFormula);
 
     exerciseWorkouts.forEach(workout => {
       const exerciseData = workout.exercises.find(e => e.exerciseId === exerciseId);
@@ -1007,15 +2482,12 @@ export class StrengthLogApp {
       const avgRPE = sets.length > 0 ?
         sets.reduce((sum, s) => sum + (s.rpe || 0), 0) / sets.length : 0;
 
-      // Estimate 1RM using Epley formula: weight × (1 + reps/30)
-      const estimated1RM = Math.max(...sets.map(s =>
-        s.weight * (1 + s.reps / 30)
-      ));
+      const estimated1RM = oneRepMax.bestEstimate(sets);
 
       data.weights.push(maxWeight);
       data.reps.push(maxReps);
       data.volumes.push(totalVolume);
-      data.estimatedMaxes.push(Math.round(estimated1RM * 10) / 10);
+      data.estimatedMaxes.push(estimated1RM);
       data.averageRPE.push(Math.round(avgRPE * 10) / 10);
       data.totalSets.push(sets.length);
     });
@@ -1114,30 +2586,656 @@ export class StrengthLogApp {
           this.deleteWorkout(workoutId);
         }
         break;
+      case 'delete-exercise':
+        if (exerciseId) {
+          this.deleteExercise(exerciseId);
+        }
+        break;
+      case 'start-template':
+      case 'repeat-template':
+        if (workoutId) {
+          this.startFromTemplate(workoutId, action === 'repeat-template');
+        }
+        break;
+      case 'edit-template':
+        if (workoutId) {
+          this.showTemplateEditor(workoutId);
+        }
+        break;
+      case 'delete-template':
+        if (workoutId) {
+          this.deleteTemplate(workoutId);
+        }
+        break;
+      case 'save-template':
+        if (workoutId) {
+          this.saveWorkoutAsTemplate(workoutId);
+        }
+        break;
+      case 'restore':
+        if (workoutId) {
+          this.restoreFromTrash(workoutId);
+        }
+        break;
+      case 'purge':
+        if (workoutId) {
+          this.purgeFromTrash(workoutId);
+        }
+        break;
+      case 'empty-trash':
+        this.emptyTrash();
+        break;
       default:
         console.warn(`Unknown workout action: ${action}`);
     }
   }
 
-  // 🔧 Placeholder methods for edit/delete functionality
+  // ✏️ Reopen a saved workout in the workout form
   private editWorkout(workoutId: string): void {
-    console.log(`Edit workout: ${workoutId}`);
-    this.showToast('Edit functionality coming soon!', 'info');
+    const workout = this.workouts.find(w => w.id === workoutId);
+    if (!workout) {
+      this.showToast('Workout not found', 'error');
+      return;
+    }
+
+    // Unsaved changes to this workout carry on where they left off
+    const draft = this.appState.currentWorkout;
+    if (draft?.id === workoutId) {
+      this.switchView('workout');
+      return;
+    }
+    if (draft) {
+      if (!confirm('You have an unfinished workout. Discard it and edit this one?')) return;
+      this.handleDraftChange(null);
+    }
+
+    this.switchView('workout', workout);
   }
 
-  private deleteWorkout(workoutId: string): void {
-    if (confirm('Are you sure you want to delete this workout?')) {
-      const workoutIndex = this.workouts.findIndex(w => w.id === workoutId);
-      if (workoutIndex >= 0) {
-        this.workouts.splice(workoutIndex, 1);
-        this.dataManager.deleteWorkout(workoutId);
-        this.showToast('Workout deleted successfully', 'success');
-        
-        // Refresh view
-        if (this.appState.currentView === 'history') {
-          this.showView('history');
+  // 🗑️ Move a workout to the trash and rebuild the affected exercise statistics
+  private async deleteWorkout(workoutId: string): Promise<void> {
+    try {
+      this.showLoading(true);
+
+      await this.dataManager.deleteWorkout(workoutId);
+      await this.reloadWorkoutData([workoutId]);
+      this.refreshCurrentView();
+
+      this.showToast('Workout moved to trash', 'info', {
+        label: 'Undo',
+        onClick: () => this.restoreFromTrash(workoutId)
+      });
+    } catch (error) {
+      console.error('Failed to delete workout:', error);
+      this.showToast('Failed to delete workout. Please try again.', 'error');
+    } finally {
+      this.showLoading(false);
+    }
+  }
+
+  // 🗑️ Move an exercise to the trash
+  private async deleteExercise(exerciseId: string): Promise<void> {
+    try {
+      await this.dataManager.deleteExercise(exerciseId);
+      await this.reloadWorkoutData([]);
+      this.refreshCurrentView();
+
+      this.showToast('Exercise moved to trash', 'info', {
+        label: 'Undo',
+        onClick: () => this.restoreFromTrash(exerciseId)
+      });
+    } catch (error) {
+      console.error('Failed to delete exercise:', error);
+      this.showToast(error instanceof Error ? error.message : 'Failed to delete exercise.', 'error');
+    }
+  }
+
+  // ♻️ Restore a trashed workout or exercise
+  private async restoreFromTrash(id: string): Promise<void> {
+    try {
+      await this.dataManager.restoreFromTrash(id);
+      await this.reloadWorkoutData([id]);
+      this.refreshCurrentView();
+
+      this.showToast('Restored from trash ♻️', 'success');
+    } catch (error) {
+      console.error('Failed to restore from trash:', error);
+      this.showToast('Failed to restore item. Please try again.', 'error');
+    }
+  }
+
+  // 🔥 Permanently delete a trashed item
+  private async purgeFromTrash(id: string): Promise<void> {
+    if (!confirm('Permanently delete this item? This cannot be undone.')) return;
+
+    try {
+      await this.dataManager.purgeFromTrash(id);
+      await this.reloadWorkoutData([]);
+      this.refreshCurrentView();
+    } catch (error) {
+      console.error('Failed to purge from trash:', error);
+      this.showToast('Failed to delete item. Please try again.', 'error');
+    }
+  }
+
+  private async emptyTrash(): Promise<void> {
+    if (!confirm(`Permanently delete ${this.trash.length} items? This cannot be undone.`)) return;
+
+    try {
+      await this.dataManager.emptyTrash();
+      await this.reloadWorkoutData([]);
+      this.refreshCurrentView();
+      this.showToast('Trash emptied', 'success');
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      this.showToast('Failed to empty trash. Please try again.', 'error');
+    }
+  }
+
+  // ⏳ Change how long deleted items are kept
+  private async updateTrashRetention(days: number): Promise<void> {
+    this.settings.trashRetentionDays = days;
+    await this.dataManager.saveSettings(this.settings);
+
+    const purged = await this.dataManager.purgeExpiredTrash(days);
+    if (purged > 0) {
+      await this.reloadWorkoutData([]);
+      this.showToast(`Purged ${purged} expired items from trash`, 'info');
+    }
+    this.refreshCurrentView();
+  }
+
+  // 🎚️ Adjust a muscle group's MEV or MRV
+  private async updateVolumeLandmark(muscleGroup: MuscleGroup, bound: 'mev' | 'mrv', value: number): Promise<void> {
+    if (isNaN(value) || value < 0) return;
+
+    const landmarks = this.settings.volumeLandmarks;
+    this.settings.volumeLandmarks = { ...landmarks, [muscleGroup]: { ...landmarks[muscleGroup], [bound]: value } };
+    await this.dataManager.saveSettings(this.settings);
+    this.refreshCurrentView();
+  }
+
+  // 📋 Start a session from a routine's targets, or from the sets of its last session
+  private startFromTemplate(templateId: string, repeatLast = false): void {
+    const template = this.templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    if (this.appState.currentWorkout) {
+      if (!confirm('You have an unfinished workout. Discard it and start this routine?')) return;
+      this.handleDraftChange(null);
+    }
+
+    const oneRepMaxes = Object.fromEntries(
+      this.exercises.map(exercise => [exercise.id, exercise.personalBests.estimatedOneRepMax.value])
+    );
+    const exercises = (repeatLast && repeatLastSession(template, this.workouts)) || buildTemplateExercises(template, oneRepMaxes);
+
+    this.switchView('workout');
+    this.workoutForm?.startPrescribed(exercises, { templateId: template.id });
+  }
+
+  private getProgramEngine(): ProgramEngine | null {
+    const program = this.programState ? getProgram(this.programState.programId) : null;
+    return program ? new ProgramEngine(program) : null;
+  }
+
+  // 🗓️ Choose training days, the exercise for each lift and the starting training maxes
+  private showProgramSetup(programId: string): void {
+    const program = getProgram(programId);
+    if (!program) return;
+
+    const engine = new ProgramEngine(program);
+    const today = new Date().toISOString().split('T')[0]!;
+    const defaults = engine.createState({ startDate: today, exercises: this.exercises });
+    const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    const modal = document.createElement('div');
+    modal.className = 'sync-setup-overlay';
+    modal.innerHTML = `
+      <div class="sync-setup-modal program-setup-modal">
+        <div class="sync-header">
+          <h2>🗓️ ${program.name}</h2>
+          <button class="close-btn" id="program-setup-close">&times;</button>
+        </div>
+
+        <form class="sync-content" id="program-setup-form">
+          <p class="program-description">${program.description}</p>
+
+          <label>
+            Start date
+            <input type="date" name="startDate" value="${today}" required>
+          </label>
+
+          <div class="program-days">
+            ${days.map((day, index) => `
+              <label>
+                <input type="checkbox" name="trainingDays" value="${index}" ${defaults.trainingDays.includes(index) ? 'checked' : ''}>
+                ${day}
+              </label>
+            `).join('')}
+          </div>
+
+          <div class="program-lifts">
+            <div class="program-lift-row program-lift-header">
+              <span>Lift</span><span>Exercise</span><span>Training max (kg)</span>
+            </div>
+            ${program.lifts.map(lift => `
+              <div class="program-lift-row" data-lift="${lift.id}">
+                <span>${lift.name}</span>
+                <select data-field="exerciseId">
+                  <option value="">- Skip -</option>
+                  ${this.exercises.map(exercise => `
+                    <option value="${exercise.id}" ${exercise.id === defaults.exerciseIds[lift.id] ? 'selected' : ''}>${exercise.name}</option>
+                  `).join('')}
+                </select>
+                <input type="number" data-field="trainingMax" value="${defaults.trainingMaxes[lift.id] || ''}" min="0" step="2.5" placeholder="-">
+              </div>
+            `).join('')}
+          </div>
+
+          <div class="conflict-actions">
+            <button type="button" class="secondary-btn" id="program-setup-cancel">Cancel</button>
+            <button type="submit" class="primary-btn">🚀 Start Program</button>
+          </div>
+        </form>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    const close = () => document.body.removeChild(modal);
+    modal.querySelector('#program-setup-close')?.addEventListener('click', close);
+    modal.querySelector('#program-setup-cancel')?.addEventListener('click', close);
+
+    const rows = Array.from(modal.querySelectorAll<HTMLElement>('.program-lift-row[data-lift]'));
+    const field = <T extends HTMLInputElement | HTMLSelectElement>(row: HTMLElement, name: string) =>
+      row.querySelector(`[data-field="${name}"]`) as T;
+
+    // A different exercise means a different estimated 1RM to start from
+    rows.forEach(row => {
+      field<HTMLSelectElement>(row, 'exerciseId').addEventListener('change', (e) => {
+        const lift = row.dataset['lift']!;
+        const exerciseId = (e.target as HTMLSelectElement).value || null;
+        const trainingMax = engine.createState({ startDate: today, exercises: this.exercises, exerciseIds: { [lift]: exerciseId } })
+          .trainingMaxes[lift];
+        field<HTMLInputElement>(row, 'trainingMax').value = trainingMax ? String(trainingMax) : '';
+      });
+    });
+
+    modal.querySelector('#program-setup-form')?.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const data = new FormData(e.target as HTMLFormElement);
+
+      const state = engine.createState({
+        startDate: data.get('startDate') as string,
+        exercises: this.exercises,
+        trainingDays: data.getAll('trainingDays').map(day => parseInt(day as string)),
+        exerciseIds: Object.fromEntries(rows.map(row =>
+          [row.dataset['lift']!, field<HTMLSelectElement>(row, 'exerciseId').value || null])),
+        trainingMaxes: Object.fromEntries(rows.map(row =>
+          [row.dataset['lift']!, parseFloat(field<HTMLInputElement>(row, 'trainingMax').value) || 0]))
+      });
+
+      if (state.trainingDays.length === 0) {
+        this.showToast('Pick at least one training day', 'error');
+        return;
+      }
+      if (!Object.values(state.exerciseIds).some(Boolean)) {
+        this.showToast('Pick an exercise for at least one lift', 'error');
+        return;
+      }
+
+      try {
+        await this.dataManager.saveProgramState(state);
+        this.programState = state;
+        close();
+        this.refreshCurrentView();
+        this.showToast(`🗓️ Started ${program.name}`, 'success');
+      } catch (error) {
+        console.error('Failed to start program:', error);
+        this.showToast('Failed to start program.', 'error');
+      }
+    });
+  }
+
+  // ▶️ Start the program's next session with its prescribed sets
+  private startProgramSession(): void {
+    const engine = this.getProgramEngine();
+    if (!engine || !this.programState) return;
+
+    if (this.appState.currentWorkout) {
+      if (!confirm('You have an unfinished workout. Discard it and start the next program session?')) return;
+      this.handleDraftChange(null);
+    }
+
+    const { programId, position } = this.programState;
+    const exercises = engine.buildExercises(engine.prescribe(this.programState), this.settings.restTimerDefault);
+
+    this.switchView('workout');
+    this.workoutForm?.startPrescribed(exercises, { program: { programId, position } });
+  }
+
+  // 📈 A logged program session moves the program on - only the session it was prescribed as counts
+  private async advanceProgram(workout: WorkoutSession): Promise<void> {
+    const engine = this.getProgramEngine();
+    const state = this.programState;
+    if (!engine || !state || workout.program?.programId !== state.programId || workout.program.position !== state.position) return;
+
+    const { state: next, changes } = engine.advance(state, workout);
+    await this.dataManager.saveProgramState(next);
+    this.programState = next;
+
+    changes.forEach(change => this.showToast(this.describeTrainingMaxChange(engine, change), change.reason === 'progress' ? 'success' : 'info'));
+  }
+
+  private describeTrainingMaxChange(engine: ProgramEngine, change: TrainingMaxChange): string {
+    const name = engine.program.lifts.find(lift => lift.id === change.lift)?.name ?? change.lift;
+    if (change.reason === 'next_stage') return `🔄 ${name}: missed reps, moving to the next set scheme`;
+    if (change.reason === 'deload') return `📉 ${name}: training max reset ${change.from} → ${change.to}kg`;
+    return `📈 ${name}: training max ${change.from} → ${change.to}kg`;
+  }
+
+  private async endProgram(): Promise<void> {
+    if (!confirm('End the current program? Workouts logged from it are kept.')) return;
+
+    await this.dataManager.clearProgramState();
+    this.programState = null;
+    this.refreshCurrentView();
+  }
+
+  // ⚡ Pick a routine, or an empty session, for a quick start
+  private showTemplatePicker(): void {
+    const modal = document.createElement('div');
+    modal.className = 'sync-setup-overlay';
+    modal.innerHTML = `
+      <div class="sync-setup-modal template-picker-modal">
+        <div class="sync-header">
+          <h2>⚡ Quick Workout</h2>
+          <button class="close-btn" id="template-picker-close">&times;</button>
+        </div>
+
+        <div class="sync-content">
+          <div class="template-list">
+            <div class="template-card">
+              <div class="template-name">Empty workout</div>
+              <div class="workout-actions">
+                <button class="secondary-btn" data-start="">▶️ Start</button>
+              </div>
+            </div>
+            ${this.templates.map(template => `
+              <div class="template-card">
+                <div class="template-name">${template.name}</div>
+                <div class="template-exercises">
+                  ${template.exercises.map((target: TemplateExercise) => this.describeTemplateExercise(target)).join(' · ')}
+                </div>
+                <div class="workout-actions">
+                  <button class="primary-btn" data-start="${template.id}">▶️ Start</button>
+                  ${this.workouts.some(workout => workout.templateId === template.id) ? `
+                    <button class="secondary-btn" data-start="${template.id}" data-repeat="true">🔁 Repeat Last</button>
+                  ` : ''}
+                </div>
+              </div>
+            `).join('')}
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    modal.querySelector('#template-picker-close')?.addEventListener('click', () => {
+      document.body.removeChild(modal);
+    });
+
+    modal.querySelectorAll<HTMLButtonElement>('[data-start]').forEach(button => {
+      button.addEventListener('click', () => {
+        document.body.removeChild(modal);
+        const templateId = button.dataset['start'];
+        if (templateId) {
+          this.startFromTemplate(templateId, button.dataset['repeat'] === 'true');
+        } else {
+          this.switchView('workout');
         }
+      });
+    });
+  }
+
+  // ✏️ Create or edit a routine - an ordered list of exercises with their targets
+  private showTemplateEditor(templateId?: string): void {
+    const existing = this.templates.find(t => t.id === templateId);
+    const targets: TemplateExercise[] = existing?.exercises ?? [this.createTemplateExercise()];
+
+    const modal = document.createElement('div');
+    modal.className = 'sync-setup-overlay';
+    modal.innerHTML = `
+      <div class="sync-setup-modal template-editor-modal">
+        <div class="sync-header">
+          <h2>📋 ${existing ? 'Edit' : 'New'} Routine</h2>
+          <button class="close-btn" id="template-close">&times;</button>
+        </div>
+
+        <form class="sync-content" id="template-form">
+          <label class="template-name-field">
+            Name
+            <input type="text" name="name" value="${existing?.name ?? ''}" placeholder="e.g. Push Day" required>
+          </label>
+
+          <div class="template-rows">
+            <div class="template-row template-row-header">
+              <span>Exercise</span><span>Sets</span><span>Reps</span><span>Load</span><span></span><span>Rest (s)</span><span></span>
+            </div>
+            ${targets.map(target => this.renderTemplateRow(target)).join('')}
+          </div>
+
+          <button type="button" class="secondary-btn" id="template-add-row">➕ Add Exercise</button>
+
+          <div class="conflict-actions">
+            <button type="button" class="secondary-btn" id="template-cancel">Cancel</button>
+            <button type="submit" class="primary-btn">💾 Save Routine</button>
+          </div>
+        </form>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    const close = () => document.body.removeChild(modal);
+    modal.querySelector('#template-close')?.addEventListener('click', close);
+    modal.querySelector('#template-cancel')?.addEventListener('click', close);
+
+    const rows = modal.querySelector('.template-rows') as HTMLElement;
+    modal.querySelector('#template-add-row')?.addEventListener('click', () => {
+      rows.insertAdjacentHTML('beforeend', this.renderTemplateRow(this.createTemplateExercise()));
+    });
+    rows.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.classList.contains('template-remove-btn')) {
+        target.closest('.template-row')?.remove();
       }
+    });
+
+    modal.querySelector('#template-form')?.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const form = e.target as HTMLFormElement;
+      const field = (row: Element, name: string) =>
+        (row.querySelector(`[data-field="${name}"]`) as HTMLInputElement | HTMLSelectElement).value;
+
+      const template: WorkoutTemplate = {
+        id: existing?.id ?? this.generateId(),
+        name: (new FormData(form).get('name') as string).trim(),
+        exercises: Array.from(rows.querySelectorAll('.template-row:not(.template-row-header)')).map(row => ({
+          exerciseId: field(row, 'exerciseId'),
+          sets: Math.max(1, parseInt(field(row, 'sets')) || 1),
+          reps: Math.max(1, parseInt(field(row, 'reps')) || 1),
+          load: field(row, 'load') === '' ? null : parseFloat(field(row, 'load')),
+          loadType: field(row, 'loadType') as 'weight' | 'percent',
+          restTime: parseInt(field(row, 'restTime')) || this.settings.restTimerDefault
+        })),
+        dateCreated: existing?.dateCreated ?? new Date().toISOString()
+      };
+
+      try {
+        await this.dataManager.saveTemplate(template);
+        this.templates = await this.dataManager.getTemplates();
+        close();
+        this.refreshCurrentView();
+        this.showToast(`📋 Saved ${template.name}`, 'success');
+      } catch (error) {
+        console.error('Failed to save template:', error);
+        this.showToast(error instanceof Error ? error.message : 'Failed to save routine.', 'error');
+      }
+    });
+  }
+
+  private createTemplateExercise(): TemplateExercise {
+    return {
+      exerciseId: this.exercises[0]?.id ?? '',
+      sets: 3,
+      reps: 5,
+      load: null,
+      loadType: 'weight',
+      restTime: this.settings.restTimerDefault
+    };
+  }
+
+  private renderTemplateRow(target: TemplateExercise): string {
+    return `
+      <div class="template-row">
+        <select data-field="exerciseId">
+          ${this.exercises.map(exercise => `
+            <option value="${exercise.id}" ${exercise.id === target.exerciseId ? 'selected' : ''}>${exercise.name}</option>
+          `).join('')}
+        </select>
+        <input type="number" data-field="sets" value="${target.sets}" min="1" step="1">
+        <input type="number" data-field="reps" value="${target.reps}" min="1" step="1">
+        <input type="number" data-field="load" value="${target.load ?? ''}" min="0" step="0.5" placeholder="-">
+        <select data-field="loadType">
+          <option value="weight" ${target.loadType === 'weight' ? 'selected' : ''}>kg</option>
+          <option value="percent" ${target.loadType === 'percent' ? 'selected' : ''}>% 1RM</option>
+        </select>
+        <input type="number" data-field="restTime" value="${target.restTime}" min="0" step="15">
+        <button type="button" class="template-remove-btn" title="Remove">✕</button>
+      </div>
+    `;
+  }
+
+  // 💾 Turn a logged workout into a routine
+  private async saveWorkoutAsTemplate(workoutId: string): Promise<void> {
+    const workout = this.workouts.find(w => w.id === workoutId);
+    if (!workout) return;
+
+    const name = prompt('Routine name:');
+    if (!name?.trim()) return;
+
+    try {
+      const template = templateFromWorkout(workout, name.trim());
+      await this.dataManager.saveTemplate(template);
+      this.templates = await this.dataManager.getTemplates();
+      this.refreshCurrentView();
+      this.showToast(`📋 Saved ${template.name}`, 'success');
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      this.showToast(error instanceof Error ? error.message : 'Failed to save routine.', 'error');
+    }
+  }
+
+  private async deleteTemplate(templateId: string): Promise<void> {
+    const template = this.templates.find(t => t.id === templateId);
+    if (!template || !confirm(`Delete the routine "${template.name}"? Workouts logged from it are kept.`)) return;
+
+    await this.dataManager.deleteTemplate(templateId);
+    this.templates = await this.dataManager.getTemplates();
+    this.refreshCurrentView();
+  }
+
+  // ⚖️ Log today's (or a back-dated) weigh-in
+  private async logBodyweight(): Promise<void> {
+    const date = (document.getElementById('bodyweight-date') as HTMLInputElement | null)?.value;
+    const weight = parseFloat((document.getElementById('bodyweight-value') as HTMLInputElement | null)?.value ?? '');
+    if (!date || !(weight > 0)) {
+      this.showToast('Enter a date and your bodyweight', 'error');
+      return;
+    }
+
+    try {
+      await this.dataManager.logBodyweight(date, weight);
+      this.bodyweightLog = await this.dataManager.getBodyweightLog();
+      this.refreshCurrentView();
+      this.showToast(`⚖️ Logged ${weight}kg`, 'success');
+    } catch (error) {
+      console.error('Failed to log bodyweight:', error);
+      this.showToast('Failed to log bodyweight.', 'error');
+    }
+  }
+
+  // 🏋️ Sex, score basis and the exercises counted as squat, bench and deadlift
+  private async updateStrengthSettings(
+    changes: Partial<Pick<UserSettings, 'sex' | 'strengthScoreBasis' | 'competitionLifts'>>
+  ): Promise<void> {
+    this.settings = { ...this.settings, ...changes };
+    await this.dataManager.saveSettings(this.settings);
+    this.refreshCurrentView();
+  }
+
+  // 🙈 Dismiss a recommendation for good or snooze it for a week. Entries for recommendations
+  // that have gone away are dropped along the way.
+  private async hideRecommendation(id: string, snooze: boolean): Promise<void> {
+    if (!this.analyticsEngine) return;
+
+    const active = new Set(this.analyticsEngine.getRecommendations().map(recommendation => recommendation.id));
+    const hidden = Object.fromEntries(
+      Object.entries(this.settings.hiddenRecommendations).filter(([key]) => active.has(key))
+    );
+    hidden[id] = snooze
+      ? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      : null;
+
+    this.settings.hiddenRecommendations = hidden;
+    await this.dataManager.saveSettings(this.settings);
+    this.refreshCurrentView();
+    this.showToast(snooze ? '⏰ Snoozed for a week' : 'Recommendation dismissed', 'info');
+  }
+
+  // 🧮 Switch the 1RM formula and re-estimate stored metrics with it. Saving the setting is what
+  // switches the stored estimator, so a failed re-estimate rolls the setting back.
+  private async updateOneRepMaxFormula(formula: OneRepMaxFormula): Promise<void> {
+    const previous = this.settings.oneRepMaxFormula;
+
+    try {
+      this.settings.oneRepMaxFormula = formula;
+      await this.dataManager.saveSettings(this.settings);
+      await this.dataManager.recalculateOneRepMax();
+      this.workoutForm?.setOneRepMaxFormula(formula);
+      await this.reloadWorkoutData();
+
+      this.refreshCurrentView();
+      this.showToast(`1RM estimates now use the ${getFormulaLabel(formula)} formula`, 'success');
+    } catch (error) {
+      console.error('Failed to switch 1RM formula:', error);
+      this.settings.oneRepMaxFormula = previous;
+      this.workoutForm?.setOneRepMaxFormula(previous);
+      try {
+        await this.dataManager.saveSettings(this.settings);
+        await this.dataManager.recalculateOneRepMax();
+        await this.reloadWorkoutData();
+      } catch (rollbackError) {
+        console.error('Failed to restore 1RM formula:', rollbackError);
+      }
+      this.refreshCurrentView();
+      this.showToast('Failed to switch the 1RM formula. Please try again.', 'error');
+    }
+  }
+
+  // 🎯 Progression model used for next-session suggestions
+  private async updateProgressionSettings(changes: Partial<ProgressionSettings>): Promise<void> {
+    this.settings.progression = { ...this.settings.progression, ...changes };
+    await this.dataManager.saveSettings(this.settings);
+  }
+
+  // 🔄 Re-render the current view after data changes (never resets an in-progress workout)
+  private refreshCurrentView(): void {
+    if (this.currentView !== 'workout') {
+      this.switchView(this.currentView);
     }
   }
 }
\ No newline at end of file
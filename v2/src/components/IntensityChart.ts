@@ -0,0 +1,120 @@
+// 🎚️ Intensity Chart - Reps per intensity zone stacked per session or week, with INOL
+
+import { Chart, registerables } from 'chart.js';
+import type { IntensitySession, IntensityWeek } from '@types/index.js';
+import { INTENSITY_ZONES } from '@core/IntensityZones.js';
+
+Chart.register(...registerables);
+
+// Light to heavy
+const ZONE_COLORS = ['#cbd5e1', '#93c5fd', '#3b82f6', '#f59e0b', '#ef4444'];
+
+const PRILEPIN_STATUS = { under: 'below', within: 'within', over: 'above' };
+
+export class IntensityChart {
+  private canvas: HTMLCanvasElement;
+  private chart: Chart | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+  }
+
+  // 📊 Stacked bars of reps per zone, INOL as a line on its own axis
+  render(entries: Array<IntensitySession | IntensityWeek>): void {
+    this.destroy();
+
+    this.chart = new Chart(this.canvas, {
+      type: 'bar',
+      data: {
+        labels: entries.map(entry => 'week' in entry ? entry.week : this.formatDate(entry.date)),
+        datasets: [
+          ...INTENSITY_ZONES.map(({ zone, label }, index) => ({
+            type: 'bar' as const,
+            label,
+            data: entries.map(entry => entry.zones[zone].reps),
+            backgroundColor: ZONE_COLORS[index],
+            stack: 'zones',
+            yAxisID: 'y'
+          })),
+          {
+            type: 'line' as const,
+            label: 'INOL',
+            data: entries.map(entry => entry.inol),
+            borderColor: '#1f2937',
+            backgroundColor: '#1f2937',
+            borderWidth: 2,
+            pointRadius: 3,
+            yAxisID: 'inol'
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { intersect: false, mode: 'index' },
+        plugins: {
+          title: {
+            display: true,
+            text: 'Intensity Zones',
+            font: { size: 18, weight: 'bold' },
+            color: '#1f2937'
+          },
+          tooltip: {
+            callbacks: {
+              afterBody: (context: any) => {
+                const entry = entries[context[0].dataIndex];
+                if (!entry || 'week' in entry) return [];
+
+                return [
+                  `Reference e1RM: ${entry.referenceOneRepMax}kg`,
+                  ...entry.prilepin.map(check => {
+                    const label = INTENSITY_ZONES.find(zone => zone.zone === check.zone)?.label ?? check.zone;
+                    return `Prilepin ${label}: ${check.reps} reps, ${PRILEPIN_STATUS[check.status]} ` +
+                      `${check.repRange[0]}-${check.repRange[1]} (${check.setsInRange}/${check.sets} sets of ` +
+                      `${check.repsPerSet[0]}-${check.repsPerSet[1]})`;
+                  })
+                ];
+              }
+            }
+          },
+          legend: {
+            display: true,
+            position: 'top',
+            labels: { usePointStyle: true }
+          }
+        },
+        scales: {
+          x: { stacked: true },
+          y: {
+            stacked: true,
+            title: { display: true, text: 'Reps' },
+            beginAtZero: true
+          },
+          inol: {
+            position: 'right',
+            title: { display: true, text: 'INOL' },
+            beginAtZero: true,
+            grid: { drawOnChartArea: false }
+          }
+        }
+      }
+    });
+  }
+
+  private formatDate(dateString: string): string {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: date.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined
+    });
+  }
+
+  // 🧹 Cleanup
+  destroy(): void {
+    if (this.chart) {
+      this.chart.destroy();
+      this.chart = null;
+    }
+  }
+}
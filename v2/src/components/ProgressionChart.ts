@@ -11,7 +11,7 @@ import {
   Legend,
   Filler
 } from 'chart.js';
-import type { ProgressionChart as ProgressionData } from '@types/index.js';
+import type { ProgressionChart as ProgressionData, TrendProjectionPoint } from '@types/index.js';
 
 // Register Chart.js components
 Chart.register(
@@ -25,6 +25,8 @@ Chart.register(
   Filler
 );
 
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
 export class ProgressionChart {
   private canvas: HTMLCanvasElement;
   private chart: Chart | null = null;
@@ -34,8 +36,13 @@ export class ProgressionChart {
     this.canvas = canvas;
   }
 
-  // 📊 Render progression chart with multiple metrics
-  render(data: ProgressionData, metric: 'volume' | 'weight' | 'oneRepMax' = 'volume'): void {
+  // 📊 Render progression chart with multiple metrics. The trend and its projection are
+  // fitted on estimated 1RMs, so they are only drawn on the 1RM chart.
+  render(
+    data: ProgressionData,
+    metric: 'volume' | 'weight' | 'oneRepMax' = 'volume',
+    projection: TrendProjectionPoint[] = []
+  ): void {
     this.data = data;
 
     // Destroy existing chart
@@ -43,12 +50,17 @@ export class ProgressionChart {
       this.chart.destroy();
     }
 
-    const chartData = {
-      labels: data.dataPoints.map(point => this.formatDate(point.date)),
+    // The first projected point is the latest session itself
+    const showTrend = metric === 'oneRepMax' && data.trendline.slope !== 0;
+    const future = showTrend ? projection.slice(1) : [];
+    const padding = future.map(() => null);
+
+    const chartData: { labels: string[]; datasets: any[] } = {
+      labels: [...data.dataPoints, ...future].map(point => this.formatDate(point.date)),
       datasets: [
         {
           label: this.getMetricLabel(metric),
-          data: data.dataPoints.map(point => this.getMetricValue(point, metric)),
+          data: [...data.dataPoints.map(point => this.getMetricValue(point, metric)), ...padding],
           borderColor: this.getMetricColor(metric),
           backgroundColor: this.getMetricColor(metric, 0.1),
           borderWidth: 3,
@@ -61,11 +73,10 @@ export class ProgressionChart {
     };
 
     // Add trendline if enabled
-    if (data.trendline.slope !== 0) {
-      const trendlineData = this.calculateTrendlineData(data);
+    if (showTrend) {
       chartData.datasets.push({
         label: 'Trend',
-        data: trendlineData,
+        data: [...this.calculateTrendlineData(data), ...padding],
         borderColor: '#64748b',
         backgroundColor: 'transparent',
         borderWidth: 2,
@@ -76,6 +87,10 @@ export class ProgressionChart {
       });
     }
 
+    if (future.length > 0) {
+      this.addProjection(chartData.datasets, data.dataPoints.length - 1, projection);
+    }
+
     const options = {
       responsive: true,
       maintainAspectRatio: false,
@@ -100,11 +115,21 @@ export class ProgressionChart {
           displayColors: false,
           callbacks: {
             title: (context: any) => {
-              const point = data.dataPoints[context[0].dataIndex];
-              return this.formatDate(point.date);
+              const index = context[0].dataIndex;
+              const point = data.dataPoints[index] ?? future[index - data.dataPoints.length];
+              return point ? this.formatDate(point.date) : '';
             },
             beforeBody: (context: any) => {
-              const point = data.dataPoints[context[0].dataIndex];
+              const index = context[0].dataIndex;
+              const point = data.dataPoints[index];
+              if (!point) {
+                const projected = future[index - data.dataPoints.length];
+                return projected ? [
+                  `Projected 1RM: ${projected.value}kg`,
+                  `95% range: ${projected.lower}-${projected.upper}kg`
+                ] : [];
+              }
+
               const lines = [
                 `Volume: ${point.volume}kg`,
                 `Max Weight: ${point.maxWeight}kg`,
@@ -129,7 +154,8 @@ export class ProgressionChart {
           labels: {
             usePointStyle: true,
             padding: 20,
-            font: { size: 14 }
+            font: { size: 14 },
+            filter: (item: any) => item.text !== '95% range (lower)'
           }
         }
       },
@@ -185,23 +211,58 @@ export class ProgressionChart {
     console.log('Milestones to display:', milestones.length);
   }
 
-  // 📊 Calculate trendline data points
+  // 📊 Calculate trendline data points at each session's date
   private calculateTrendlineData(data: ProgressionData): number[] {
-    const { slope, correlation } = data.trendline;
+    const { slope, intercept, startDate } = data.trendline;
     const points = data.dataPoints;
 
     if (points.length < 2) return [];
 
-    // Get first and last actual values for the selected metric
-    const firstValue = points[0].volume; // Default to volume, could be dynamic
-    const lastIndex = points.length - 1;
-
-    // Calculate trendline values
-    return points.map((_, index) => {
-      return firstValue + (slope * index);
+    return points.map(point => {
+      const weeks = (Date.parse(point.date.slice(0, 10)) - Date.parse(startDate.slice(0, 10))) / WEEK_MS;
+      return Math.round((intercept + slope * weeks) * 10) / 10;
     });
   }
 
+  // 🔮 Dashed projection from the latest session with a shaded confidence band
+  private addProjection(datasets: any[], lastIndex: number, projection: TrendProjectionPoint[]): void {
+    const history = new Array(lastIndex).fill(null);
+
+    datasets.push(
+      {
+        label: 'Projection',
+        data: [...history, ...projection.map(point => point.value)],
+        borderColor: '#64748b',
+        backgroundColor: 'transparent',
+        borderWidth: 2,
+        borderDash: [8, 6],
+        pointRadius: 0,
+        fill: false,
+        tension: 0
+      },
+      {
+        label: '95% range',
+        data: [...history, ...projection.map(point => point.upper)],
+        borderColor: 'transparent',
+        backgroundColor: 'rgba(100, 116, 139, 0.15)',
+        borderWidth: 0,
+        pointRadius: 0,
+        fill: '+1', // Shade down to the lower bound
+        tension: 0
+      },
+      {
+        label: '95% range (lower)',
+        data: [...history, ...projection.map(point => point.lower)],
+        borderColor: 'transparent',
+        backgroundColor: 'transparent',
+        borderWidth: 0,
+        pointRadius: 0,
+        fill: false,
+        tension: 0
+      }
+    );
+  }
+
   // 🎨 Get metric-specific styling
   private getMetricColor(metric: string, alpha = 1): string {
     const colors = {
@@ -250,9 +311,14 @@ export class ProgressionChart {
   }
 
   // 🔄 Update chart with new data
-  updateData(data: ProgressionData, metric: 'volume' | 'weight' | 'oneRepMax' = 'volume'): void {
-    if (!this.chart) {
-      this.render(data, metric);
+  updateData(
+    data: ProgressionData,
+    metric: 'volume' | 'weight' | 'oneRepMax' = 'volume',
+    projection: TrendProjectionPoint[] = []
+  ): void {
+    // A projection changes the number of labels and datasets
+    if (!this.chart || projection.length > 0) {
+      this.render(data, metric, projection);
       return;
     }
 
@@ -263,7 +329,7 @@ export class ProgressionChart {
     );
 
     // Update trendline if present
-    if (this.chart.data.datasets.length > 1 && data.trendline.slope !== 0) {
+    if (this.chart.data.datasets.length > 1 && metric === 'oneRepMax' && data.trendline.slope !== 0) {
       this.chart.data.datasets[1].data = this.calculateTrendlineData(data);
     }
 
@@ -0,0 +1,113 @@
+// 🏋️ Strength Score Chart - Wilks, DOTS and IPF GL over time with the bodyweight trend
+
+import { Chart, registerables } from 'chart.js';
+import type { StrengthScorePoint } from '@types/index.js';
+
+Chart.register(...registerables);
+
+const SCORES: Array<{ key: 'wilks' | 'dots' | 'ipfGL'; label: string; color: string }> = [
+  { key: 'wilks', label: 'Wilks', color: '#3b82f6' },
+  { key: 'dots', label: 'DOTS', color: '#10b981' },
+  { key: 'ipfGL', label: 'IPF GL', color: '#f59e0b' }
+];
+
+export class StrengthScoreChart {
+  private canvas: HTMLCanvasElement;
+  private chart: Chart | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+  }
+
+  // 📊 One line per score on the left axis, bodyweight on the right
+  render(points: StrengthScorePoint[]): void {
+    this.destroy();
+
+    this.chart = new Chart(this.canvas, {
+      type: 'line',
+      data: {
+        labels: points.map(point => this.formatDate(point.date)),
+        datasets: [
+          ...SCORES.map(({ key, label, color }) => ({
+            label,
+            data: points.map(point => point[key]),
+            borderColor: color,
+            backgroundColor: color,
+            borderWidth: 2,
+            pointRadius: 4,
+            tension: 0.3,
+            yAxisID: 'y'
+          })),
+          {
+            label: 'Bodyweight (kg)',
+            data: points.map(point => point.bodyweight),
+            borderColor: '#64748b',
+            backgroundColor: '#64748b',
+            borderWidth: 1,
+            borderDash: [5, 5],
+            pointRadius: 0,
+            tension: 0.3,
+            yAxisID: 'bodyweight'
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { intersect: false, mode: 'index' },
+        plugins: {
+          title: {
+            display: true,
+            text: 'Relative Strength',
+            font: { size: 18, weight: 'bold' },
+            color: '#1f2937'
+          },
+          tooltip: {
+            callbacks: {
+              afterBody: (context: any) => {
+                const point = points[context[0].dataIndex];
+                return point ? [
+                  `Total: ${point.total}kg`,
+                  `Squat ${point.lifts.squat} · Bench ${point.lifts.bench} · Deadlift ${point.lifts.deadlift}`
+                ] : [];
+              }
+            }
+          },
+          legend: {
+            display: true,
+            position: 'top',
+            labels: { usePointStyle: true }
+          }
+        },
+        scales: {
+          y: {
+            title: { display: true, text: 'Points' },
+            beginAtZero: false
+          },
+          bodyweight: {
+            position: 'right',
+            title: { display: true, text: 'kg' },
+            grid: { drawOnChartArea: false }
+          }
+        }
+      }
+    });
+  }
+
+  private formatDate(dateString: string): string {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: date.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined
+    });
+  }
+
+  // 🧹 Cleanup
+  destroy(): void {
+    if (this.chart) {
+      this.chart.destroy();
+      this.chart = null;
+    }
+  }
+}
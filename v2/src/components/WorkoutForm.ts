@@ -1,23 +1,76 @@
 // 🏋️ Modern Workout Form Component
 
-import type { Exercise, WorkoutSession, WorkoutExercise, WorkoutSet } from '@types/index.js';
+import type {
+  Exercise,
+  WorkoutSession,
+  WorkoutExercise,
+  WorkoutSet,
+  OneRepMaxFormula,
+  ProgressionSuggestion
+} from '@types/index.js';
+import { OneRepMaxEstimator } from '@core/OneRepMax.js';
+import { RestTimer, formatRestTime, type RestTaken } from '@core/RestTimer.js';
+
+const REST_TICK_MS = 1000;
+const MINUTES_PER_DAY = 24 * 60;
 
 export class WorkoutForm {
   private container: HTMLElement;
   private exercises: Exercise[];
   private currentWorkout: WorkoutSession;
   private onSave: (workout: WorkoutSession) => void;
-  private restTimer: number | null = null;
+  private onDraftChange: (workout: WorkoutSession | null) => void;
+  private restTimer: RestTimer;
+  private restTicker: number | null = null;
+  private restSettings: { defaultSeconds: number; alerts: boolean };
+  private suggestNext: (exerciseId: string, workout: WorkoutSession) => ProgressionSuggestion | null;
+  private suggestions: Map<string, ProgressionSuggestion> = new Map();
+  private isEditing: boolean;
+  private oneRepMax: OneRepMaxEstimator;
 
   constructor(
     container: HTMLElement,
     exercises: Exercise[],
-    onSave: (workout: WorkoutSession) => void
+    onSave: (workout: WorkoutSession) => void,
+    workout?: WorkoutSession,
+    formula: OneRepMaxFormula = 'epley',
+    restSettings: { defaultSeconds: number; alerts: boolean } = { defaultSeconds: 90, alerts: false },
+    onDraftChange: (workout: WorkoutSession | null) => void = () => {},
+    suggestNext: (exerciseId: string, workout: WorkoutSession) => ProgressionSuggestion | null = () => null,
+    restTimer: RestTimer = new RestTimer() // Owned by the caller so a rest outlives the form
   ) {
     this.container = container;
     this.exercises = exercises;
     this.onSave = onSave;
-    this.currentWorkout = this.createEmptyWorkout();
+    this.onDraftChange = onDraftChange;
+    this.suggestNext = suggestNext;
+    this.isEditing = workout !== undefined;
+    this.oneRepMax = new OneRepMaxEstimator(formula);
+    this.restSettings = restSettings;
+    this.restTimer = restTimer;
+    this.currentWorkout = workout ? this.loadWorkout(workout) : this.createEmptyWorkout();
+  }
+
+  // ✏️ Load a saved workout for editing (works on a copy until saved)
+  private loadWorkout(workout: WorkoutSession): WorkoutSession {
+    const copy = structuredClone(workout);
+    copy.exercises.forEach(exercise => this.updateExerciseMetrics(exercise));
+    return copy;
+  }
+
+  // 📝 Pick up an unfinished session - a draft of a saved workout is still an edit
+  resumeDraft(workout: WorkoutSession, isEditing: boolean): void {
+    this.isEditing = isEditing;
+    this.currentWorkout = this.loadWorkout(workout);
+  }
+
+  // 📋 Start a new session pre-filled from a routine or a program day
+  startPrescribed(exercises: WorkoutExercise[], origin: Pick<WorkoutSession, 'templateId' | 'program'>): void {
+    this.isEditing = false;
+    this.currentWorkout = { ...this.createEmptyWorkout(), ...origin, exercises };
+    exercises.forEach(exercise => this.updateExerciseMetrics(exercise));
+    this.updateExerciseList();
+    this.saveDraft();
   }
 
   // 🏗️ Create empty workout template
@@ -35,6 +88,11 @@ export class WorkoutForm {
     };
   }
 
+  // 🧮 Estimate 1RMs of sets changed from now on with another formula
+  setOneRepMaxFormula(formula: OneRepMaxFormula): void {
+    this.oneRepMax = new OneRepMaxEstimator(formula);
+  }
+
   // 🎨 Render the complete workout form
   render(): void {
     this.container.innerHTML = `
@@ -42,8 +100,8 @@ export class WorkoutForm {
         <!-- Header Section -->
         <div class="workout-header">
           <h2 class="workout-title">
-            <span class="icon">🏋️</span>
-            New Workout
+            <span class="icon">${this.isEditing ? '✏️' : '🏋️'}</span>
+            ${this.isEditing ? 'Edit Workout' : 'New Workout'}
           </h2>
           <div class="workout-meta">
             <input
@@ -104,7 +162,7 @@ export class WorkoutForm {
         <div class="form-actions">
           <button class="cancel-btn" id="cancel-workout">Cancel</button>
           <button class="save-btn" id="save-workout">
-            <span class="icon">💾</span> Save Workout
+            <span class="icon">💾</span> ${this.isEditing ? 'Update Workout' : 'Save Workout'}
           </button>
         </div>
 
@@ -112,7 +170,7 @@ export class WorkoutForm {
         <div class="rest-timer-modal hidden" id="rest-timer">
           <div class="timer-content">
             <h3>Rest Timer</h3>
-            <div class="timer-display" id="timer-display">1:30</div>
+            <div class="timer-display" id="timer-display">${formatRestTime(this.restSettings.defaultSeconds)}</div>
             <div class="timer-controls">
               <button class="timer-btn" id="timer-stop">Stop</button>
               <button class="timer-btn" id="timer-reset">Reset</button>
@@ -123,6 +181,9 @@ export class WorkoutForm {
     `;
 
     this.attachEventListeners();
+
+    // A rest started before leaving the workout view keeps counting
+    if (this.restTimer.isRunning) this.showRestTimer();
   }
 
   // 🏋️ Render individual exercises
@@ -151,6 +212,10 @@ export class WorkoutForm {
         <div class="exercise-header">
           <h3 class="exercise-name">${exerciseDetails?.name || 'Unknown Exercise'}</h3>
           <div class="exercise-actions">
+            <label class="rest-time-label">
+              Rest
+              <input type="number" class="rest-input" value="${exercise.restTime}" min="0" step="15"> s
+            </label>
             <button class="exercise-action-btn" data-action="notes">📝</button>
             <button class="exercise-action-btn" data-action="delete">🗑️</button>
           </div>
@@ -166,6 +231,8 @@ export class WorkoutForm {
             <span>Actions</span>
           </div>
 
+          ${this.renderSuggestion(exercise)}
+
           <div class="sets-list">
             ${exercise.sets.map((set, index) =>
               this.renderSet(exercise.id, set, index + 1)
@@ -204,11 +271,25 @@ export class WorkoutForm {
     `;
   }
 
+  // 🎯 Suggested next session - offered until a set is filled in
+  private renderSuggestion(exercise: WorkoutExercise): string {
+    const suggestion = this.suggestions.get(exercise.id);
+    if (!suggestion || exercise.sets.some(set => set.weight > 0 || set.reps > 0)) return '';
+
+    return `
+      <div class="progression-suggestion">
+        <div class="suggestion-target">🎯 ${suggestion.sets}×${suggestion.reps} @ ${suggestion.weight}kg</div>
+        <div class="suggestion-reason">${suggestion.reason} · last done ${suggestion.basedOn}</div>
+        <button class="suggestion-accept-btn" data-action="accept-suggestion">✓ Accept</button>
+      </div>
+    `;
+  }
+
   // 📊 Render individual set
   private renderSet(exerciseId: string, set: WorkoutSet, setNumber: number): string {
     return `
       <div class="set-row" data-set-id="${set.id}">
-        <span class="set-number">${setNumber}</span>
+        <span class="set-number">${setNumber}${set.isAmrap ? '<span class="amrap-badge" title="As many reps as possible">+</span>' : ''}</span>
         <input
           type="number"
           class="weight-input"
@@ -267,14 +348,34 @@ export class WorkoutForm {
     switch (target.id) {
       case 'workout-date':
         this.currentWorkout.date = target.value;
+        this.saveDraft();
         break;
       case 'workout-time':
         this.currentWorkout.startTime = target.value;
+        this.saveDraft();
         break;
       case 'workout-notes':
         this.currentWorkout.notes = target.value;
+        this.saveDraft();
         break;
     }
+
+    // Entering the reps of the newest set completes it - start resting. The value attribute
+    // holds the reps from before this edit, so fixing an earlier entry doesn't restart the rest.
+    if (target.classList.contains('reps-input')) {
+      const wasEmpty = !(parseInt(target.defaultValue) > 0);
+      target.defaultValue = target.value;
+
+      const setId = target.closest<HTMLElement>('.set-row')?.dataset['setId'];
+      if (setId && wasEmpty && parseInt(target.value) > 0 && this.isNewestSet(setId)) {
+        this.startRestTimer(setId);
+      }
+    }
+  }
+
+  private isNewestSet(setId: string): boolean {
+    const exercise = this.currentWorkout.exercises.find(ex => ex.sets.some(set => set.id === setId));
+    return exercise?.sets[exercise.sets.length - 1]?.id === setId;
   }
 
   // 👆 Handle click events
@@ -292,6 +393,13 @@ export class WorkoutForm {
       case 'cancel-workout':
         this.cancelWorkout();
         break;
+      case 'timer-stop':
+        this.stopRestTimer();
+        break;
+      case 'timer-reset':
+        this.restTimer.reset();
+        this.tickRestTimer();
+        break;
     }
 
     // Handle dynamic actions
@@ -300,12 +408,17 @@ export class WorkoutForm {
         case 'delete':
           this.handleDelete(target);
           break;
-        case 'timer':
-          this.startRestTimer();
+        case 'timer': {
+          const setId = target.closest<HTMLElement>('.set-row')?.dataset['setId'];
+          if (setId) this.startRestTimer(setId);
           break;
+        }
         case 'notes':
           this.editExerciseNotes(target);
           break;
+        case 'accept-suggestion':
+          this.acceptSuggestion(target);
+          break;
       }
     }
 
@@ -324,12 +437,15 @@ export class WorkoutForm {
         target.classList.contains('reps-input') ||
         target.classList.contains('rpe-select')) {
       this.updateSet(target);
+    } else if (target.classList.contains('rest-input')) {
+      this.updateRestTime(target);
     }
   }
 
   // 😊 Select mood
   private selectMood(mood: number): void {
     this.currentWorkout.mood = mood;
+    this.saveDraft();
 
     // Update UI
     this.container.querySelectorAll('.mood-btn').forEach(btn => {
@@ -388,13 +504,35 @@ export class WorkoutForm {
       exerciseId,
       sets: [this.createEmptySet()],
       notes: '',
-      restTime: 90,
+      restTime: this.restSettings.defaultSeconds,
       metrics: this.calculateEmptyMetrics(),
       progression: this.createEmptyProgression()
     };
 
+    const suggestion = this.suggestNext(exerciseId, this.currentWorkout);
+    if (suggestion) this.suggestions.set(newExercise.id, suggestion);
+
     this.currentWorkout.exercises.push(newExercise);
     this.updateExerciseList();
+    this.saveDraft();
+  }
+
+  // ✓ Fill the exercise's sets with the suggested load and reps
+  private acceptSuggestion(target: HTMLElement): void {
+    const exerciseId = target.closest<HTMLElement>('.exercise-block')?.dataset['exerciseId'];
+    const exercise = this.currentWorkout.exercises.find(ex => ex.id === exerciseId);
+    const suggestion = exerciseId ? this.suggestions.get(exerciseId) : undefined;
+    if (!exercise || !suggestion) return;
+
+    exercise.sets = Array.from({ length: suggestion.sets }, () => ({
+      ...this.createEmptySet(),
+      weight: suggestion.weight,
+      reps: suggestion.reps
+    }));
+    this.suggestions.delete(exercise.id);
+    this.updateExerciseMetrics(exercise);
+    this.updateExerciseList();
+    this.saveDraft();
   }
 
   // ➕ Add new set to exercise
@@ -414,6 +552,7 @@ export class WorkoutForm {
     exercise.sets.push(newSet);
     this.updateExerciseMetrics(exercise);
     this.updateExerciseList();
+    this.saveDraft();
   }
 
   // 🗑️ Handle delete actions
@@ -459,11 +598,25 @@ export class WorkoutForm {
 
         this.updateExerciseMetrics(exercise);
         this.updateMetricsDisplay(exercise);
+        this.saveDraft();
         break;
       }
     }
   }
 
+  // ⏱️ Rest this exercise's timer counts down from
+  private updateRestTime(input: HTMLInputElement): void {
+    const exerciseId = input.closest<HTMLElement>('.exercise-block')?.dataset['exerciseId'];
+    const exercise = this.currentWorkout.exercises.find(ex => ex.id === exerciseId);
+    if (!exercise) return;
+
+    const seconds = parseInt(input.value);
+    exercise.restTime = seconds > 0 ? seconds : this.restSettings.defaultSeconds;
+    this.updateExerciseMetrics(exercise);
+    this.updateMetricsDisplay(exercise);
+    this.saveDraft();
+  }
+
   // 📊 Update exercise metrics
   private updateExerciseMetrics(exercise: WorkoutExercise): void {
     const totalVolume = exercise.sets.reduce((sum, set) => sum + (set.weight * set.reps), 0);
@@ -478,27 +631,12 @@ export class WorkoutForm {
       maxWeight,
       maxReps,
       averageRPE: avgRPE || undefined,
-      estimatedOneRepMax: this.calculateOneRepMax(exercise.sets),
+      estimatedOneRepMax: this.oneRepMax.bestEstimate(exercise.sets),
       volumePerMinute: totalVolume / (exercise.restTime * exercise.sets.length / 60),
       intensityScore: (maxWeight * maxReps) / totalVolume * 100
     };
   }
 
-  // 🧮 Calculate estimated 1RM
-  private calculateOneRepMax(sets: WorkoutSet[]): number {
-    let best = 0;
-
-    sets.forEach(set => {
-      if (set.reps === 0 || set.weight === 0) return;
-
-      // Epley formula: weight × (1 + reps/30)
-      const estimate = set.weight * (1 + set.reps / 30);
-      best = Math.max(best, estimate);
-    });
-
-    return Math.round(best * 10) / 10;
-  }
-
   // 💾 Save workout
   private saveWorkout(): void {
     // Validate workout
@@ -507,21 +645,42 @@ export class WorkoutForm {
       return;
     }
 
+    // Time after the last set isn't rest between sets
+    this.clearRestTimer();
+
     // Calculate final metrics
+    this.currentWorkout.exercises.forEach(exercise => this.updateExerciseMetrics(exercise));
     this.currentWorkout.totalVolume = this.currentWorkout.exercises
       .reduce((sum, ex) => sum + (ex.metrics?.totalVolume || 0), 0);
 
-    this.currentWorkout.endTime = new Date().toTimeString().slice(0, 5);
+    // Edited sessions keep their original end time
+    if (!this.isEditing) {
+      this.currentWorkout.endTime = new Date().toTimeString().slice(0, 5);
+    }
 
-    // Calculate duration
-    const start = new Date(`2000-01-01T${this.currentWorkout.startTime}`);
-    const end = new Date(`2000-01-01T${this.currentWorkout.endTime}`);
-    this.currentWorkout.duration = Math.round((end.getTime() - start.getTime()) / 1000 / 60);
+    // Calculate duration - sessions that run past midnight end the next day
+    if (this.currentWorkout.endTime) {
+      const start = this.minutesOfDay(this.currentWorkout.startTime);
+      const end = this.minutesOfDay(this.currentWorkout.endTime);
+      if (start !== null && end !== null) {
+        this.currentWorkout.duration = (end - start + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+      }
+    }
 
     this.onSave(this.currentWorkout);
   }
 
   // Helper methods
+  private minutesOfDay(time: string): number | null {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours === undefined || minutes === undefined || isNaN(hours) || isNaN(minutes) ? null : hours * 60 + minutes;
+  }
+
+  // 📝 Hand every edit to the draft store so a reload can't lose the session
+  private saveDraft(): void {
+    this.onDraftChange(this.currentWorkout);
+  }
+
   private createEmptySet(): WorkoutSet {
     return {
       id: this.generateId(),
@@ -595,6 +754,7 @@ export class WorkoutForm {
         exercise.sets.splice(setIndex, 1);
         this.updateExerciseMetrics(exercise);
         this.updateExerciseList();
+        this.saveDraft();
         break;
       }
     }
@@ -605,6 +765,7 @@ export class WorkoutForm {
     if (index !== -1) {
       this.currentWorkout.exercises.splice(index, 1);
       this.updateExerciseList();
+      this.saveDraft();
     }
   }
 
@@ -620,16 +781,95 @@ export class WorkoutForm {
     if (newNotes !== null) {
       exercise.notes = newNotes;
       this.updateExerciseList();
+      this.saveDraft();
+    }
+  }
+
+  // ⏱️ Rest after a set, for the exercise's rest time - restarting records the rest just taken
+  private startRestTimer(setId: string): void {
+    const exercise = this.currentWorkout.exercises.find(ex => ex.sets.some(set => set.id === setId));
+    if (!exercise) return;
+
+    const previous = this.restTimer.start(setId, exercise.restTime || this.restSettings.defaultSeconds);
+    if (previous) this.recordRest(previous);
+
+    if (this.restSettings.alerts && 'Notification' in window && Notification.permission === 'default') {
+      void Notification.requestPermission();
+    }
+
+    this.showRestTimer();
+  }
+
+  private showRestTimer(): void {
+    this.container.querySelector('#rest-timer')?.classList.remove('hidden');
+    if (this.restTicker === null) {
+      this.restTicker = window.setInterval(() => this.tickRestTimer(), REST_TICK_MS);
+    }
+    this.tickRestTimer();
+  }
+
+  private tickRestTimer(): void {
+    const remaining = this.restTimer.remaining();
+    const display = this.container.querySelector('#timer-display');
+    if (display) {
+      display.textContent = formatRestTime(remaining);
+      display.classList.toggle('overtime', remaining < 0);
+    }
+
+    if (this.restTimer.takeExpiry() && this.restSettings.alerts) {
+      this.alertRestOver();
+    }
+  }
+
+  // 🔔 Ring while the app is in the background, buzz on phones
+  private alertRestOver(): void {
+    if ('Notification' in window && Notification.permission === 'granted' && document.hidden) {
+      new Notification('Rest over ⏱️', { body: 'Time for your next set' });
+    }
+    navigator.vibrate?.([200, 100, 200]);
+  }
+
+  private stopRestTimer(): void {
+    const rest = this.restTimer.stop();
+    if (rest) this.recordRest(rest);
+    this.clearRestTimer();
+  }
+
+  private recordRest({ setId, seconds }: RestTaken): void {
+    for (const exercise of this.currentWorkout.exercises) {
+      const set = exercise.sets.find(s => s.id === setId);
+      if (set) {
+        set.restTime = seconds;
+        this.saveDraft();
+        break;
+      }
+    }
+  }
+
+  // Discards the running rest without recording it
+  private clearRestTimer(): void {
+    this.restTimer.stop();
+    this.hideRestTimer();
+  }
+
+  private hideRestTimer(): void {
+    if (this.restTicker !== null) {
+      clearInterval(this.restTicker);
+      this.restTicker = null;
     }
+    this.container.querySelector('#rest-timer')?.classList.add('hidden');
   }
 
-  private startRestTimer(): void {
-    // Implementation for rest timer
-    console.log('Starting rest timer...');
+  // 🧹 Cleanup - the rest timer itself keeps running for the next form
+  destroy(): void {
+    this.hideRestTimer();
   }
 
   private cancelWorkout(): void {
     if (confirm('Are you sure you want to cancel? All progress will be lost.')) {
+      this.clearRestTimer();
+      this.onDraftChange(null);
+      this.isEditing = false;
       this.currentWorkout = this.createEmptyWorkout();
       this.render();
     }
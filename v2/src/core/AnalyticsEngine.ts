@@ -8,36 +8,241 @@ import type {
   ProgressionChart,
   ProgressionPoint,
   TrendData,
+  TrendForecast,
+  TrendProjectionPoint,
   Milestone,
-  PersonalBests
+  PersonalBests,
+  OneRepMaxFormula,
+  MuscleGroup,
+  MuscleGroupVolume,
+  MuscleVolumeStatus,
+  VolumeLandmark,
+  WeeklyMuscleVolume,
+  SessionLoad,
+  TrainingLoadSummary,
+  FitnessFatigueParams,
+  FitnessFatiguePoint,
+  RepMax,
+  Recommendation,
+  RecommendationSeverity,
+  BodyweightTrendPoint,
+  CompetitionLift,
+  Sex,
+  StrengthScorePoint,
+  IntensitySession,
+  IntensityWeek
 } from '@types/index.js';
+import { OneRepMaxEstimator } from './OneRepMax.js';
+import { RepMaxTracker } from './RepMaxes.js';
+import { PlateauDetector } from './PlateauDetector.js';
+import { bodyweightOn, dots, ipfGL, wilks } from './StrengthScores.js';
+import { analyseSets, emptyZones, INTENSITY_ZONES } from './IntensityZones.js';
+
+type ExerciseSession = { workout: WorkoutSession; exercise: WorkoutExercise };
+
+// One exercise's history in date order, patched as workouts change. Derived results are
+// computed on first use and dropped whenever the exercise's sessions change.
+interface ExerciseIndexEntry {
+  sessions: ExerciseSession[];
+  points: ProgressionPoint[] | null; // all-time progression points
+  repMaxMilestones: Milestone[] | null; // all-time, judged against the full history
+  charts: Map<string, { cutoff: string; chart: ProgressionChart }>; // by timeframe
+}
+
+// Least-squares line through estimated 1RMs, with x in weeks since the first session
+interface TrendFit {
+  n: number;
+  startDate: string;
+  intercept: number;
+  slope: number;
+  correlation: number;
+  meanX: number;
+  sumSquaresX: number;
+  lastX: number;
+  standardError: number; // residual standard deviation
+  tValue: number; // two-sided 95% Student t for n - 2 degrees of freedom
+}
+
+// Student t critical values (95%, two-sided) for 1-30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+// Forecasts further out than this are treated as never
+const MAX_FORECAST_WEEKS = 520;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An exercise's first muscle group is its primary one, the others are worked secondarily
+const SECONDARY_MUSCLE_WEIGHT = 0.5;
+
+// Intensity is measured against the best e1RM of this many weeks, so detraining lowers the bar
+const E1RM_LOOKBACK_WEEKS = 12;
+
+// Streak lengths worth celebrating - sessions for improvement streaks, weeks for consistency
+const IMPROVEMENT_STREAK_MILESTONES = [3, 5, 10, 15, 20];
+const CONSISTENCY_STREAK_MILESTONES = [4, 8, 12, 26, 52, 104, 156];
+
+// Fallbacks for sessions logged without set RPEs or a duration
+const DEFAULT_SESSION_RPE = 7;
+const DEFAULT_SESSION_MINUTES = 60;
+
+// ACWR between 0.8 and 1.3 is the usual safe band, above 1.5 injury risk climbs steeply
+const ACWR_SAFE_BAND = { lower: 0.8, upper: 1.3, danger: 1.5 };
+
+export const DEFAULT_FITNESS_FATIGUE: FitnessFatigueParams = {
+  fitnessDecay: 42,
+  fatigueDecay: 7,
+  fitnessGain: 1,
+  fatigueGain: 2
+};
+
+// Starting points for intermediate lifters - weekly hard sets, adjustable in settings
+export const DEFAULT_VOLUME_LANDMARKS: Record<MuscleGroup, VolumeLandmark> = {
+  chest: { mev: 8, mrv: 22 },
+  back: { mev: 10, mrv: 25 },
+  shoulders: { mev: 8, mrv: 26 },
+  biceps: { mev: 8, mrv: 26 },
+  triceps: { mev: 6, mrv: 18 },
+  forearms: { mev: 2, mrv: 25 },
+  quadriceps: { mev: 8, mrv: 20 },
+  hamstrings: { mev: 6, mrv: 20 },
+  glutes: { mev: 0, mrv: 16 },
+  calves: { mev: 8, mrv: 20 },
+  core: { mev: 0, mrv: 25 }
+};
 
 export class AnalyticsEngine {
   private exercises: Exercise[];
-  private workouts: WorkoutSession[];
+  private allWorkouts: WorkoutSession[];
+  private sortedWorkouts: WorkoutSession[] | null = null;
+  private index = new Map<string, ExerciseIndexEntry>();
+  private oneRepMax: OneRepMaxEstimator;
+  private plateauDetector: PlateauDetector;
 
-  constructor(exercises: Exercise[], workouts: WorkoutSession[]) {
+  constructor(exercises: Exercise[], workouts: WorkoutSession[], formula: OneRepMaxFormula = 'epley') {
+    this.exercises = exercises;
+    this.oneRepMax = new OneRepMaxEstimator(formula);
+    this.plateauDetector = new PlateauDetector(this.oneRepMax);
+
+    this.allWorkouts = [...workouts];
+    this.workouts.forEach(workout => this.indexWorkout(workout));
+  }
+
+  // ✏️ Add a new workout or replace an edited one - only the exercises it touches are re-indexed
+  upsertWorkout(workout: WorkoutSession): void {
+    const index = this.allWorkouts.findIndex(existing => existing.id === workout.id);
+    if (index >= 0) {
+      this.unindexWorkout(this.allWorkouts[index]!);
+      this.allWorkouts[index] = workout;
+    } else {
+      this.allWorkouts.push(workout);
+    }
+
+    this.sortedWorkouts = null;
+    this.indexWorkout(workout);
+  }
+
+  removeWorkout(workoutId: string): void {
+    const removed = this.allWorkouts.filter(workout => workout.id === workoutId);
+    if (removed.length === 0) return;
+
+    removed.forEach(workout => this.unindexWorkout(workout));
+    this.allWorkouts = this.allWorkouts.filter(workout => workout.id !== workoutId);
+    this.sortedWorkouts = null;
+  }
+
+  // Names and muscle groups only - progression never depends on them
+  setExercises(exercises: Exercise[]): void {
     this.exercises = exercises;
-    this.workouts = workouts;
   }
 
-  // 📈 Generate progression chart data
+  // 📈 Generate progression chart data - cached per timeframe until the exercise's sessions change.
+  // The result is shared between callers, so treat it as read-only.
   generateProgressionChart(
     exerciseId: string,
     timeframe: 'week' | 'month' | 'quarter' | 'year' | 'all' = 'month'
   ): ProgressionChart {
-    const exerciseWorkouts = this.getExerciseWorkouts(exerciseId, timeframe);
-    const dataPoints = this.calculateProgressionPoints(exerciseWorkouts);
+    const entry = this.getIndexEntry(exerciseId);
+    const cutoff = this.getTimeframeCutoff(timeframe);
+    const cached = entry.charts.get(timeframe);
+    if (cached && cached.cutoff === cutoff) return cached.chart;
+
+    const dataPoints = this.getProgressionPoints(entry).filter(point => point.date >= cutoff);
     const trendline = this.calculateTrend(dataPoints);
-    const milestones = this.identifyMilestones(dataPoints, exerciseId);
+    const milestones = [
+      ...this.identifyMilestones(dataPoints, exerciseId),
+      ...this.getRepMaxMilestones(entry).filter(milestone => milestone.date >= cutoff)
+    ].sort((a, b) => a.date.localeCompare(b.date));
 
-    return {
+    const chart = {
       exerciseId,
       timeframe,
       dataPoints,
       trendline,
       milestones
     };
+    entry.charts.set(timeframe, { cutoff, chart });
+    return chart;
+  }
+
+  // 🗂️ Workouts in date order, sorted again only after a change
+  private get workouts(): WorkoutSession[] {
+    this.sortedWorkouts ??= [...this.allWorkouts].sort((a, b) => a.date.localeCompare(b.date));
+    return this.sortedWorkouts;
+  }
+
+  private getIndexEntry(exerciseId: string): ExerciseIndexEntry {
+    let entry = this.index.get(exerciseId);
+    if (!entry) {
+      entry = { sessions: [], points: null, repMaxMilestones: null, charts: new Map() };
+      this.index.set(exerciseId, entry);
+    }
+    return entry;
+  }
+
+  // Insert after sessions on the same date, matching the order a full sort would give
+  private indexWorkout(workout: WorkoutSession): void {
+    this.forEachIndexedExercise(workout, (entry, exercise) => {
+      let low = 0;
+      let high = entry.sessions.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (entry.sessions[mid]!.workout.date <= workout.date) low = mid + 1;
+        else high = mid;
+      }
+      entry.sessions.splice(low, 0, { workout, exercise });
+    });
+  }
+
+  private unindexWorkout(workout: WorkoutSession): void {
+    this.forEachIndexedExercise(workout, entry => {
+      entry.sessions = entry.sessions.filter(session => session.workout !== workout);
+    });
+  }
+
+  // The first entry of each exercise in a workout is the one its history uses
+  private forEachIndexedExercise(
+    workout: WorkoutSession,
+    update: (entry: ExerciseIndexEntry, exercise: WorkoutExercise) => void
+  ): void {
+    const seen = new Set<string>();
+    for (const exercise of workout.exercises) {
+      if (seen.has(exercise.exerciseId)) continue;
+      seen.add(exercise.exerciseId);
+
+      const entry = this.getIndexEntry(exercise.exerciseId);
+      update(entry, exercise);
+      entry.points = null;
+      entry.repMaxMilestones = null;
+      entry.charts.clear();
+    }
+  }
+
+  private getProgressionPoints(entry: ExerciseIndexEntry): ProgressionPoint[] {
+    entry.points ??= this.calculateProgressionPoints(entry.sessions);
+    return entry.points;
   }
 
   // 🎯 Calculate comprehensive progression metrics
@@ -49,9 +254,10 @@ export class AnalyticsEngine {
 
       const maxWeight = Math.max(...exercise.sets.map(set => set.weight));
       const totalReps = exercise.sets.reduce((sum, set) => sum + set.reps, 0);
+      const maxReps = Math.max(0, ...exercise.sets.filter(set => !set.isWarmup).map(set => set.reps));
 
-      // Enhanced 1RM calculation using Epley formula with RPE adjustment
-      const estimatedOneRepMax = this.calculateOneRepMax(exercise.sets);
+      // Configured formula, or the RPE chart for sets with an RPE
+      const estimatedOneRepMax = this.oneRepMax.bestEstimate(exercise.sets);
 
       return {
         date: workout.date,
@@ -59,84 +265,167 @@ export class AnalyticsEngine {
         maxWeight,
         estimatedOneRepMax,
         reps: totalReps,
+        maxReps,
         workoutId: workout.id
       };
     });
   }
 
-  // 🧮 Advanced 1RM calculation with RPE consideration
-  private calculateOneRepMax(sets: any[]): number {
-    let bestEstimate = 0;
-
-    sets.forEach(set => {
-      if (set.reps === 0 || set.weight === 0) return;
+  // 📈 Calculate trend analysis - regressed on session dates, so gaps between sessions count
+  private calculateTrend(dataPoints: ProgressionPoint[]): TrendData {
+    const fit = this.fitTrend(dataPoints);
+    if (!fit) {
+      return {
+        slope: 0,
+        correlation: 0,
+        prediction: 0,
+        intercept: 0,
+        startDate: dataPoints[0]?.date ?? '',
+        standardError: 0,
+        slopeInterval: { lower: 0, upper: 0 }
+      };
+    }
 
-      // Base Epley formula: weight × (1 + reps/30)
-      let estimate = set.weight * (1 + set.reps / 30);
+    // Next session expected after the average gap so far
+    const nextX = fit.lastX + fit.lastX / (fit.n - 1);
+    const margin = fit.tValue * fit.standardError / Math.sqrt(fit.sumSquaresX);
 
-      // RPE adjustment for more accurate estimates
-      if (set.rpe) {
-        const rpeMultiplier = this.getRPEMultiplier(set.rpe, set.reps);
-        estimate = set.weight * rpeMultiplier;
+    return {
+      slope: Math.round(fit.slope * 100) / 100,
+      correlation: Math.round(fit.correlation * 100) / 100,
+      prediction: Math.round((fit.intercept + fit.slope * nextX) * 10) / 10,
+      intercept: Math.round(fit.intercept * 10) / 10,
+      startDate: fit.startDate,
+      standardError: Math.round(fit.standardError * 10) / 10,
+      slopeInterval: {
+        lower: Math.round((fit.slope - margin) * 100) / 100,
+        upper: Math.round((fit.slope + margin) * 100) / 100
       }
+    };
+  }
 
-      bestEstimate = Math.max(bestEstimate, estimate);
-    });
+  // 🔮 Trend extrapolated week by week past the latest session, with its 95% confidence band
+  projectTrend(
+    exerciseId: string,
+    weeks = 8,
+    timeframe: 'week' | 'month' | 'quarter' | 'year' | 'all' = 'all'
+  ): TrendProjectionPoint[] {
+    const dataPoints = this.generateProgressionChart(exerciseId, timeframe).dataPoints;
+    const fit = this.fitTrend(dataPoints);
+    if (!fit) return [];
+
+    const projection: TrendProjectionPoint[] = [];
+    for (let week = 0; week <= weeks; week++) {
+      const x = fit.lastX + week;
+      const value = fit.intercept + fit.slope * x;
+      const margin = fit.tValue * fit.standardError *
+        Math.sqrt(1 / fit.n + Math.pow(x - fit.meanX, 2) / fit.sumSquaresX);
+
+      projection.push({
+        date: this.dateAfterWeeks(fit.startDate, x),
+        value: Math.round(value * 10) / 10,
+        lower: Math.round((value - margin) * 10) / 10,
+        upper: Math.round((value + margin) * 10) / 10
+      });
+    }
 
-    return Math.round(bestEstimate * 10) / 10; // Round to 1 decimal
+    return projection;
   }
 
-  // 📊 RPE-based 1RM multipliers (more accurate than simple formulas)
-  private getRPEMultiplier(rpe: number, reps: number): number {
-    const rpeTable: Record<number, Record<number, number>> = {
-      1: { 10: 1.00, 9: 1.02, 8: 1.04, 7: 1.07, 6: 1.09, 5: 1.12, 4: 1.15, 3: 1.18, 2: 1.22, 1: 1.25 },
-      2: { 10: 1.04, 9: 1.07, 8: 1.09, 7: 1.12, 6: 1.15, 5: 1.18, 4: 1.22, 3: 1.25, 2: 1.29, 1: 1.33 },
-      // ... complete RPE table would go here
-      10: { 10: 1.33, 9: 1.37, 8: 1.42, 7: 1.47, 6: 1.52, 5: 1.58, 4: 1.64, 3: 1.71, 2: 1.78, 1: 1.86 }
+  // 🎯 When the estimated 1RM reaches a target at the current rate, e.g. a 180 kg squat
+  forecast(
+    exerciseId: string,
+    target: number,
+    timeframe: 'week' | 'month' | 'quarter' | 'year' | 'all' = 'all'
+  ): TrendForecast | null {
+    const dataPoints = this.generateProgressionChart(exerciseId, timeframe).dataPoints;
+    const fit = this.fitTrend(dataPoints);
+    if (!fit) return null;
+
+    const currentValue = fit.intercept + fit.slope * fit.lastX;
+    const margin = fit.tValue * fit.standardError / Math.sqrt(fit.sumSquaresX);
+
+    const weeksAt = (rate: number): number | null => {
+      if (target <= currentValue) return 0;
+      if (rate <= 0) return null;
+
+      const weeks = (target - currentValue) / rate;
+      return weeks > MAX_FORECAST_WEEKS ? null : weeks;
     };
+    const dateAt = (weeks: number | null) => weeks === null ? null : this.dateAfterWeeks(fit.startDate, fit.lastX + weeks);
 
-    return rpeTable[rpe]?.[reps] || 1.0;
+    const weeksAway = weeksAt(fit.slope);
+    return {
+      exerciseId,
+      target,
+      currentValue: Math.round(currentValue * 10) / 10,
+      weeksAway: weeksAway === null ? null : Math.round(weeksAway * 10) / 10,
+      expectedDate: dateAt(weeksAway),
+      earliestDate: dateAt(weeksAt(fit.slope + margin)),
+      latestDate: dateAt(weeksAt(fit.slope - margin))
+    };
   }
 
-  // 📈 Calculate trend analysis
-  private calculateTrend(dataPoints: ProgressionPoint[]): TrendData {
-    if (dataPoints.length < 2) {
-      return { slope: 0, correlation: 0, prediction: 0 };
-    }
-
-    // Linear regression for trend calculation
+  // 📐 Ordinary least squares on (weeks since first session, estimated 1RM)
+  private fitTrend(dataPoints: ProgressionPoint[]): TrendFit | null {
     const n = dataPoints.length;
-    const xValues = dataPoints.map((_, index) => index);
-    const yValues = dataPoints.map(point => point.estimatedOneRepMax);
+    if (n < 2) return null;
 
-    const sumX = xValues.reduce((a, b) => a + b, 0);
-    const sumY = yValues.reduce((a, b) => a + b, 0);
-    const sumXY = xValues.map((x, i) => x * yValues[i]).reduce((a, b) => a + b, 0);
-    const sumXX = xValues.map(x => x * x).reduce((a, b) => a + b, 0);
+    const startDate = dataPoints[0]!.date;
+    const xValues = dataPoints.map(point => (this.dayTime(point.date) - this.dayTime(startDate)) / (7 * DAY_MS));
+    const yValues = dataPoints.map(point => point.estimatedOneRepMax);
 
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+    const meanX = xValues.reduce((a, b) => a + b, 0) / n;
+    const meanY = yValues.reduce((a, b) => a + b, 0) / n;
+    const sumSquaresX = xValues.reduce((sum, x) => sum + Math.pow(x - meanX, 2), 0);
+    if (sumSquaresX === 0) return null; // All sessions on one day
 
-    // Calculate correlation coefficient
-    const meanX = sumX / n;
-    const meanY = sumY / n;
-    const correlation = this.calculateCorrelation(xValues, yValues, meanX, meanY);
+    const sumXY = xValues.reduce((sum, x, i) => sum + (x - meanX) * (yValues[i]! - meanY), 0);
+    const slope = sumXY / sumSquaresX;
+    const intercept = meanY - slope * meanX;
 
-    // Predict next value
-    const prediction = yValues[yValues.length - 1] + slope;
+    // With only two sessions the line fits exactly and there is no spread to measure
+    const residuals = xValues.reduce((sum, x, i) => sum + Math.pow(yValues[i]! - (intercept + slope * x), 2), 0);
+    const degreesOfFreedom = n - 2;
 
     return {
-      slope: Math.round(slope * 100) / 100,
-      correlation: Math.round(correlation * 100) / 100,
-      prediction: Math.round(prediction * 10) / 10
+      n,
+      startDate,
+      intercept,
+      slope,
+      correlation: this.calculateCorrelation(xValues, yValues, meanX, meanY),
+      meanX,
+      sumSquaresX,
+      lastX: xValues[n - 1]!,
+      standardError: degreesOfFreedom > 0 ? Math.sqrt(residuals / degreesOfFreedom) : 0,
+      tValue: T_95[degreesOfFreedom - 1] ?? 1.96
     };
   }
 
-  // 🎯 Identify achievement milestones
-  private identifyMilestones(dataPoints: ProgressionPoint[], exerciseId: string): Milestone[] {
+  // Whole calendar days in UTC, so time zones and DST never bend the x axis
+  private dayTime(date: string): number {
+    return Date.parse(date.slice(0, 10));
+  }
+
+  private dateAfterWeeks(startDate: string, weeks: number): string {
+    return new Date(this.dayTime(startDate) + Math.round(weeks * 7) * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  // 🎯 Identify achievement milestones. The first session sets the bar rather than breaking records.
+  private identifyMilestones(dataPoints: ProgressionPoint[], _exerciseId: string): Milestone[] {
     const milestones: Milestone[] = [];
-    let previousBest = { weight: 0, reps: 0, volume: 0, oneRepMax: 0 };
+    const first = dataPoints[0];
+    if (!first) return milestones;
+
+    const previousBest = {
+      weight: first.maxWeight,
+      reps: first.maxReps,
+      volume: first.volume,
+      oneRepMax: first.estimatedOneRepMax
+    };
+    let streak = 0;
 
-    dataPoints.forEach(point => {
+    dataPoints.slice(1).forEach((point, index) => {
       // Weight PR
       if (point.maxWeight > previousBest.weight) {
         milestones.push({
@@ -148,6 +437,17 @@ export class AnalyticsEngine {
         previousBest.weight = point.maxWeight;
       }
 
+      // Rep PR - most reps in a single set
+      if (point.maxReps > previousBest.reps) {
+        milestones.push({
+          date: point.date,
+          type: 'pr_reps',
+          value: point.maxReps,
+          description: `New rep PR: ${point.maxReps} reps in a set`
+        });
+        previousBest.reps = point.maxReps;
+      }
+
       // Volume PR
       if (point.volume > previousBest.volume) {
         milestones.push({
@@ -163,40 +463,308 @@ export class AnalyticsEngine {
       if (point.estimatedOneRepMax > previousBest.oneRepMax) {
         milestones.push({
           date: point.date,
-          type: 'pr_weight',
+          type: 'pr_e1rm',
           value: point.estimatedOneRepMax,
           description: `New estimated 1RM: ${point.estimatedOneRepMax}kg`
         });
         previousBest.oneRepMax = point.estimatedOneRepMax;
       }
+
+      // Improvement streak - consecutive sessions with an e1RM or volume gain over the one before
+      const previous = dataPoints[index]!;
+      streak = point.estimatedOneRepMax > previous.estimatedOneRepMax || point.volume > previous.volume ? streak + 1 : 0;
+      if (IMPROVEMENT_STREAK_MILESTONES.includes(streak)) {
+        milestones.push({
+          date: point.date,
+          type: 'streak',
+          value: streak,
+          description: `${streak} sessions in a row with e1RM or volume gains`
+        });
+      }
     });
 
     return milestones;
   }
 
-  // 🔍 Get exercise workouts within timeframe
-  private getExerciseWorkouts(exerciseId: string, timeframe: string) {
-    const cutoffDate = this.getTimeframeCutoff(timeframe);
+  // 📅 Consecutive ISO weeks with at least one workout, up to the week of `date`. A week
+  // without training yet doesn't break the streak until it is over.
+  getConsistencyStreak(date: string = this.today()): number {
+    const trained = new Set(this.workouts.map(workout => this.isoWeek(workout.date)));
+    let day = this.dayTime(date);
+    if (!trained.has(this.isoWeek(date))) day -= 7 * DAY_MS;
+
+    let streak = 0;
+    while (trained.has(this.isoWeek(new Date(day).toISOString()))) {
+      streak++;
+      day -= 7 * DAY_MS;
+    }
+    return streak;
+  }
+
+  // 🔥 Training-consistency milestones across all exercises, dated on the session that reached them
+  getConsistencyMilestones(): Milestone[] {
+    const firstSessionOfWeek = new Map<string, string>();
+    this.workouts.forEach(workout => {
+      const week = this.isoWeek(workout.date);
+      if (!firstSessionOfWeek.has(week)) firstSessionOfWeek.set(week, workout.date);
+    });
+
+    const milestones: Milestone[] = [];
+    let streak = 0;
+    let previousDay: number | null = null;
+
+    for (const date of firstSessionOfWeek.values()) {
+      // Mondays of consecutive ISO weeks are exactly 7 days apart
+      const monday = this.dayTime(date) - (((new Date(this.dayTime(date)).getUTCDay() + 6) % 7) * DAY_MS);
+      streak = previousDay !== null && monday - previousDay === 7 * DAY_MS ? streak + 1 : 1;
+      previousDay = monday;
+
+      if (CONSISTENCY_STREAK_MILESTONES.includes(streak)) {
+        milestones.push({
+          date,
+          type: 'streak',
+          value: streak,
+          description: `${streak}-week training streak`
+        });
+      }
+    }
+
+    return milestones;
+  }
 
+  // 💪 Hard sets and tonnage per muscle group per ISO week, oldest week first. Warmups don't count.
+  getWeeklyMuscleVolume(
+    timeframe: 'week' | 'month' | 'quarter' | 'year' | 'all' = 'all',
+    secondaryWeight = SECONDARY_MUSCLE_WEIGHT
+  ): WeeklyMuscleVolume[] {
+    const cutoff = this.getTimeframeCutoff(timeframe);
+    const exercises = new Map(this.exercises.map(exercise => [exercise.id, exercise]));
+    const weeks = new Map<string, Map<MuscleGroup, MuscleGroupVolume>>();
+
+    for (const workout of this.workouts) {
+      if (workout.date < cutoff) continue;
+      const week = this.isoWeek(workout.date);
+
+      for (const workoutExercise of workout.exercises) {
+        const muscleGroups = exercises.get(workoutExercise.exerciseId)?.muscleGroups ?? [];
+        const workingSets = workoutExercise.sets.filter(set => !set.isWarmup && set.reps > 0);
+        if (muscleGroups.length === 0 || workingSets.length === 0) continue;
+
+        const tonnage = workingSets.reduce((sum, set) => sum + set.weight * set.reps, 0);
+        const volumes = weeks.get(week) ?? new Map<MuscleGroup, MuscleGroupVolume>();
+        weeks.set(week, volumes);
+
+        muscleGroups.forEach((muscleGroup, index) => {
+          const weight = index === 0 ? 1 : secondaryWeight;
+          const volume = volumes.get(muscleGroup) ?? { muscleGroup, hardSets: 0, tonnage: 0 };
+          volume.hardSets += workingSets.length * weight;
+          volume.tonnage += tonnage * weight;
+          volumes.set(muscleGroup, volume);
+        });
+      }
+    }
+
+    return [...weeks.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([week, volumes]) => ({
+        week,
+        muscleGroups: [...volumes.values()].map(volume => ({
+          ...volume,
+          hardSets: Math.round(volume.hardSets * 10) / 10,
+          tonnage: Math.round(volume.tonnage)
+        }))
+      }));
+  }
+
+  // 🎚️ One week's volume against MEV/MRV landmarks - every landmarked muscle group, trained or not
+  getMuscleVolumeStatus(
+    landmarks: Record<MuscleGroup, VolumeLandmark> = DEFAULT_VOLUME_LANDMARKS,
+    date: string = this.today()
+  ): MuscleVolumeStatus[] {
+    const week = this.isoWeek(date);
+    const volumes = this.getWeeklyMuscleVolume('all').find(entry => entry.week === week)?.muscleGroups ?? [];
+
+    return (Object.entries(landmarks) as Array<[MuscleGroup, VolumeLandmark]>).map(([muscleGroup, { mev, mrv }]) => {
+      const volume = volumes.find(entry => entry.muscleGroup === muscleGroup);
+      const hardSets = volume?.hardSets ?? 0;
+
+      return {
+        muscleGroup,
+        hardSets,
+        tonnage: volume?.tonnage ?? 0,
+        mev,
+        mrv,
+        status: hardSets < mev ? 'below_mev' : hardSets > mrv ? 'above_mrv' : 'productive'
+      };
+    });
+  }
+
+  // 🔋 Session RPE load of every workout. The session RPE is the mean RPE of its working sets.
+  getSessionLoads(): SessionLoad[] {
     return this.workouts
-      .filter(workout => new Date(workout.date) >= cutoffDate)
-      .map(workout => ({
-        workout,
-        exercise: workout.exercises.find(ex => ex.exerciseId === exerciseId)
-      }))
-      .filter(item => item.exercise)
-      .sort((a, b) => new Date(a.workout.date).getTime() - new Date(b.workout.date).getTime());
+      .map(workout => {
+        const rpes = workout.exercises
+          .flatMap(exercise => exercise.sets)
+          .filter(set => !set.isWarmup && set.rpe !== undefined)
+          .map(set => set.rpe!);
+
+        const sessionRPE = rpes.length > 0
+          ? Math.round(rpes.reduce((a, b) => a + b, 0) / rpes.length * 10) / 10
+          : DEFAULT_SESSION_RPE;
+        const duration = workout.duration > 0 ? workout.duration : DEFAULT_SESSION_MINUTES;
+
+        return { workoutId: workout.id, date: workout.date.slice(0, 10), sessionRPE, duration, load: Math.round(sessionRPE * duration) };
+      })
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // ⚖️ Acute and chronic load, ACWR, monotony and strain as of a day
+  getTrainingLoad(date: string = this.today()): TrainingLoadSummary {
+    const loads = this.getSessionLoads();
+    const daily = this.dailyLoads(loads, date, 28);
+
+    const week = daily.slice(-7);
+    const acuteLoad = week.reduce((a, b) => a + b, 0);
+    const chronicLoad = daily.reduce((a, b) => a + b, 0) / 4;
+
+    const mean = acuteLoad / 7;
+    const deviation = Math.sqrt(week.reduce((sum, load) => sum + Math.pow(load - mean, 2), 0) / 7);
+    const monotony = deviation > 0 ? mean / deviation : null;
+
+    const acwr = chronicLoad > 0 ? acuteLoad / chronicLoad : null;
+
+    // The chronic window needs four weeks of history to mean anything
+    const firstDate = loads[0]?.date;
+    const history = firstDate ? (this.dayTime(date) - this.dayTime(firstDate)) / DAY_MS + 1 : 0;
+
+    let status: TrainingLoadSummary['status'] = 'insufficient_data';
+    if (acwr !== null && history >= 28) {
+      if (acwr < ACWR_SAFE_BAND.lower) status = 'low';
+      else if (acwr <= ACWR_SAFE_BAND.upper) status = 'optimal';
+      else if (acwr <= ACWR_SAFE_BAND.danger) status = 'high';
+      else status = 'danger';
+    }
+
+    return {
+      date,
+      acuteLoad,
+      chronicLoad: Math.round(chronicLoad),
+      acwr: acwr === null ? null : Math.round(acwr * 100) / 100,
+      monotony: monotony === null ? null : Math.round(monotony * 100) / 100,
+      strain: monotony === null ? null : Math.round(acuteLoad * monotony),
+      status
+    };
+  }
+
+  // 📉 Banister fitness-fatigue model, one point per day for the last `days` days
+  getFitnessFatigue(
+    days = 90,
+    date: string = this.today(),
+    params: FitnessFatigueParams = DEFAULT_FITNESS_FATIGUE
+  ): FitnessFatiguePoint[] {
+    const loads = this.getSessionLoads();
+    if (loads.length === 0) return [];
+
+    // Start from the first session so the model is warmed up when the window begins
+    const end = this.dayTime(date);
+    const totalDays = Math.max(days, Math.floor((end - this.dayTime(loads[0]!.date)) / DAY_MS) + 1);
+    const daily = this.dailyLoads(loads, date, totalDays);
+
+    const fitnessRetention = Math.exp(-1 / params.fitnessDecay);
+    const fatigueRetention = Math.exp(-1 / params.fatigueDecay);
+    let fitness = 0;
+    let fatigue = 0;
+
+    const points = daily.map((load, index) => {
+      fitness = fitness * fitnessRetention + load;
+      fatigue = fatigue * fatigueRetention + load;
+
+      return {
+        date: new Date(end - (totalDays - 1 - index) * DAY_MS).toISOString().slice(0, 10),
+        load,
+        fitness: Math.round(fitness),
+        fatigue: Math.round(fatigue),
+        performance: Math.round(params.fitnessGain * fitness - params.fatigueGain * fatigue)
+      };
+    });
+
+    return points.slice(-days);
+  }
+
+  // Load per calendar day for the `days` days ending on `date`, rest days included as 0
+  private dailyLoads(loads: SessionLoad[], date: string, days: number): number[] {
+    const end = this.dayTime(date);
+    const daily = new Array<number>(days).fill(0);
+
+    for (const session of loads) {
+      const index = days - 1 - Math.round((end - this.dayTime(session.date)) / DAY_MS);
+      if (index >= 0 && index < days) daily[index] += session.load;
+    }
+
+    return daily;
+  }
+
+  // 📆 ISO 8601 week - weeks start on Monday and belong to the year of their Thursday
+  private isoWeek(date: string): string {
+    const day = new Date(this.dayTime(date));
+    day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+
+    const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((day.getTime() - yearStart) / DAY_MS + 1) / 7);
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+  }
+
+  private today(): string {
+    return this.localDate(new Date());
   }
 
-  // 📅 Calculate timeframe cutoff dates
-  private getTimeframeCutoff(timeframe: string): Date {
+  // Local calendar date - toISOString would give yesterday's or tomorrow's date near midnight
+  private localDate(date: Date): string {
+    return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+      .map(part => String(part).padStart(2, '0'))
+      .join('-');
+  }
+
+  // 🏅 A milestone for every rep-max a session beat - judged against all history, not just the timeframe
+  private getRepMaxMilestones(entry: ExerciseIndexEntry): Milestone[] {
+    if (!entry.repMaxMilestones) {
+      const tracker = new RepMaxTracker();
+      entry.repMaxMilestones = entry.sessions.flatMap(({ workout, exercise }) =>
+        tracker.add(workout, exercise.sets).map(repMax => ({
+          date: repMax.date,
+          type: 'pr_rep_max' as const,
+          value: repMax.weight,
+          reps: repMax.reps,
+          description: `New ${repMax.reps}RM: ${repMax.weight}kg`
+        }))
+      );
+    }
+    return entry.repMaxMilestones;
+  }
+
+  // 📋 Heaviest weight ever lifted for each rep count from 1 to 20
+  getRepMaxTable(exerciseId: string): RepMax[] {
+    const tracker = new RepMaxTracker();
+    this.getExerciseWorkouts(exerciseId, 'all').forEach(({ workout, exercise }) => tracker.add(workout, exercise.sets));
+    return tracker.table();
+  }
+
+  // 🔍 Get exercise workouts within timeframe
+  private getExerciseWorkouts(exerciseId: string, timeframe: string): ExerciseSession[] {
+    const sessions = this.index.get(exerciseId)?.sessions ?? [];
+    const cutoff = this.getTimeframeCutoff(timeframe);
+    return cutoff ? sessions.filter(({ workout }) => workout.date >= cutoff) : sessions;
+  }
+
+  // 📅 First day of a timeframe - empty for all time, so even unparseable dates are kept
+  private getTimeframeCutoff(timeframe: string): string {
     const now = new Date();
     switch (timeframe) {
-      case 'week': return subDays(now, 7);
-      case 'month': return subMonths(now, 1);
-      case 'quarter': return subMonths(now, 3);
-      case 'year': return subYears(now, 1);
-      default: return new Date(0); // all time
+      case 'week': return this.localDate(subDays(now, 7));
+      case 'month': return this.localDate(subMonths(now, 1));
+      case 'quarter': return this.localDate(subMonths(now, 3));
+      case 'year': return this.localDate(subYears(now, 1));
+      default: return '';
     }
   }
 
@@ -214,6 +782,110 @@ export class AnalyticsEngine {
     return denominator === 0 ? 0 : numerator / denominator;
   }
 
+  // 🎚️ Working sets of every session by % of the e1RM at the time, with INOL and Prilepin checks
+  getIntensitySessions(
+    exerciseId: string,
+    timeframe: 'week' | 'month' | 'quarter' | 'year' | 'all' = 'all'
+  ): IntensitySession[] {
+    const cutoff = this.getTimeframeCutoff(timeframe);
+    const history: Array<{ day: number; oneRepMax: number }> = [];
+
+    // The reference needs the history before the timeframe too
+    return this.getExerciseWorkouts(exerciseId, 'all').flatMap(({ workout, exercise }) => {
+      const sets = exercise.sets.filter(set => !set.isWarmup && set.reps > 0 && set.weight > 0);
+      const day = this.dayTime(workout.date);
+      history.push({ day, oneRepMax: this.oneRepMax.bestEstimate(sets) });
+
+      const referenceOneRepMax = Math.max(0, ...history
+        .filter(entry => day - entry.day <= E1RM_LOOKBACK_WEEKS * 7 * DAY_MS)
+        .map(entry => entry.oneRepMax));
+      if (workout.date < cutoff || referenceOneRepMax <= 0) return [];
+
+      return [{
+        exerciseId,
+        workoutId: workout.id,
+        date: workout.date,
+        referenceOneRepMax,
+        ...analyseSets(sets, referenceOneRepMax)
+      }];
+    });
+  }
+
+  // 📅 Intensity zones and INOL summed per ISO week
+  getWeeklyIntensity(
+    exerciseId: string,
+    timeframe: 'week' | 'month' | 'quarter' | 'year' | 'all' = 'all'
+  ): IntensityWeek[] {
+    const weeks = new Map<string, IntensityWeek>();
+
+    for (const session of this.getIntensitySessions(exerciseId, timeframe)) {
+      const week = this.isoWeek(session.date);
+      const entry = weeks.get(week) ?? { exerciseId, week, sessions: 0, zones: emptyZones(), inol: 0 };
+
+      entry.sessions++;
+      entry.inol = Math.round((entry.inol + session.inol) * 100) / 100;
+      INTENSITY_ZONES.forEach(({ zone }) => {
+        entry.zones[zone].sets += session.zones[zone].sets;
+        entry.zones[zone].reps += session.zones[zone].reps;
+      });
+      weeks.set(week, entry);
+    }
+
+    return [...weeks.values()].sort((a, b) => a.week.localeCompare(b.week));
+  }
+
+  // 🏋️ Relative strength after each session of a competition lift, once all three have been
+  // done and a bodyweight is logged
+  getStrengthScores(
+    lifts: Record<CompetitionLift, string | null>,
+    bodyweight: BodyweightTrendPoint[],
+    sex: Sex,
+    basis: 'e1rm' | 'actual' = 'e1rm'
+  ): StrengthScorePoint[] {
+    const liftByExercise = new Map<string, CompetitionLift>();
+    (Object.keys(lifts) as CompetitionLift[]).forEach(lift => {
+      const exerciseId = lifts[lift];
+      if (exerciseId) liftByExercise.set(exerciseId, lift);
+    });
+
+    const best: Record<CompetitionLift, number> = { squat: 0, bench: 0, deadlift: 0 };
+    const points: StrengthScorePoint[] = [];
+
+    this.workouts.forEach(workout => {
+      const trained = workout.exercises.filter(exercise => liftByExercise.has(exercise.exerciseId));
+      if (trained.length === 0) return;
+
+      trained.forEach(exercise => {
+        const lift = liftByExercise.get(exercise.exerciseId)!;
+        const sets = exercise.sets.filter(set => !set.isWarmup && set.reps > 0);
+        const value = basis === 'e1rm'
+          ? this.oneRepMax.bestEstimate(sets)
+          : Math.max(0, ...sets.map(set => set.weight));
+        best[lift] = Math.max(best[lift], value);
+      });
+
+      const bodyweightToday = bodyweightOn(bodyweight, workout.date);
+      if (!bodyweightToday || Object.values(best).some(value => value <= 0)) return;
+
+      const total = Math.round((best.squat + best.bench + best.deadlift) * 10) / 10;
+      const point: StrengthScorePoint = {
+        date: workout.date,
+        bodyweight: bodyweightToday,
+        lifts: { ...best },
+        total,
+        wilks: wilks(total, bodyweightToday, sex),
+        dots: dots(total, bodyweightToday, sex),
+        ipfGL: ipfGL(total, bodyweightToday, sex)
+      };
+
+      // Two sessions on one day make one point
+      if (points[points.length - 1]?.date === workout.date) points.pop();
+      points.push(point);
+    });
+
+    return points;
+  }
+
   // 🏆 Generate comprehensive exercise insights
   generateExerciseInsights(exerciseId: string) {
     const exercise = this.exercises.find(ex => ex.id === exerciseId);
@@ -227,7 +899,7 @@ export class AnalyticsEngine {
       improvements: progressionData.milestones.length,
       trendStrength: Math.abs(progressionData.trendline.correlation),
       consistencyScore: this.calculateConsistencyScore(exerciseId),
-      recommendations: this.generateRecommendations(exerciseId, progressionData)
+      recommendations: this.generateRecommendations(exerciseId)
     };
   }
 
@@ -241,7 +913,7 @@ export class AnalyticsEngine {
     const volumes: number[] = [];
 
     workouts.forEach(({exercise}) => {
-      volumes.push(exercise?.metrics.totalVolume || 0);
+      volumes.push(exercise.metrics.totalVolume || 0);
     });
 
     // Calculate coefficient of variation (lower = more consistent)
@@ -261,28 +933,30 @@ export class AnalyticsEngine {
     return mean === 0 ? 1 : stdDev / mean;
   }
 
-  // 💡 Generate AI-powered recommendations
-  private generateRecommendations(exerciseId: string, progressionData: ProgressionChart): string[] {
-    const recommendations: string[] = [];
-    const trend = progressionData.trendline;
-    const recentPoints = progressionData.dataPoints.slice(-4); // Last 4 workouts
-
-    // Plateau detection
-    if (Math.abs(trend.slope) < 0.1 && recentPoints.length >= 3) {
-      recommendations.push("📈 Consider increasing intensity or changing rep ranges to break through plateau");
-    }
+  // 💡 Plateau, fatigue and mood signals for one exercise
+  generateRecommendations(exerciseId: string, date: string = this.today()): Recommendation[] {
+    const exercise = this.exercises.find(ex => ex.id === exerciseId);
+    if (!exercise) return [];
 
-    // Consistency issues
-    if (trend.correlation < 0.5) {
-      recommendations.push("🎯 Focus on consistent training - your progress varies significantly between sessions");
-    }
+    const sessions = this.getExerciseWorkouts(exerciseId, 'all')
+      .filter(({ workout }) => workout.date <= date);
 
-    // Volume progression
-    const avgVolume = recentPoints.reduce((sum, p) => sum + p.volume, 0) / recentPoints.length;
-    if (avgVolume < progressionData.dataPoints[0]?.volume * 1.1) {
-      recommendations.push("💪 Consider gradually increasing training volume for continued growth");
-    }
+    return this.plateauDetector.detectExercise(exerciseId, exercise.name, sessions, date);
+  }
 
-    return recommendations;
+  // 🧭 Every active recommendation, most severe first, minus the ones the user dismissed or snoozed
+  getRecommendations(hidden: Record<string, string | null> = {}, date: string = this.today()): Recommendation[] {
+    const severityOrder: Record<RecommendationSeverity, number> = { critical: 0, warning: 1, info: 2 };
+    const mood = this.plateauDetector.detectMood(this.workouts, date);
+
+    return [
+      ...(mood ? [mood] : []),
+      ...this.exercises.flatMap(exercise => this.generateRecommendations(exercise.id, date))
+    ]
+      .filter(recommendation => {
+        const snoozedUntil = hidden[recommendation.id];
+        return snoozedUntil === undefined || (snoozedUntil !== null && snoozedUntil <= date);
+      })
+      .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
   }
 }
\ No newline at end of file
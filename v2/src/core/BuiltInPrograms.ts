@@ -0,0 +1,79 @@
+// 📚 Built-in Programs - 5/3/1 and GZCLP as program definitions
+
+import type { PrescribedSet, ProgramDefinition, ProgramDay } from '@types/index.js';
+
+// Sets at a percentage of the training max, the last one taken to AMRAP unless told otherwise
+const wave = (percents: number[], reps: number[], amrap = true): PrescribedSet[] =>
+  percents.map((percent, index) => ({
+    percent,
+    reps: reps[index]!,
+    ...(amrap && index === percents.length - 1 ? { amrap } : {})
+  }));
+
+const WENDLER_WEEKS: Array<{ name: string; sets: PrescribedSet[] }> = [
+  { name: 'Week 1 (5s)', sets: wave([65, 75, 85], [5, 5, 5]) },
+  { name: 'Week 2 (3s)', sets: wave([70, 80, 90], [3, 3, 3]) },
+  { name: 'Week 3 (5/3/1)', sets: wave([75, 85, 95], [5, 3, 1]) },
+  { name: 'Week 4 (Deload)', sets: wave([40, 50, 60], [5, 5, 5], false) }
+];
+
+export const WENDLER_531: ProgramDefinition = {
+  id: 'wendler-531',
+  name: '5/3/1',
+  description: 'Four-week waves off a 90% training max. Every lift goes up after each cycle unless an AMRAP set fell short.',
+  lifts: [
+    { id: 'press', name: 'Overhead Press', pattern: 'overhead|military|shoulder press|ohp', increment: 2.5, trainingMaxPercent: 90 },
+    { id: 'deadlift', name: 'Deadlift', pattern: 'deadlift', increment: 5, trainingMaxPercent: 90 },
+    { id: 'bench', name: 'Bench Press', pattern: 'bench', increment: 2.5, trainingMaxPercent: 90 },
+    { id: 'squat', name: 'Squat', pattern: 'squat', increment: 5, trainingMaxPercent: 90 }
+  ],
+  weeks: WENDLER_WEEKS.map(({ name, sets }) => ({
+    name,
+    days: (['press', 'deadlift', 'bench', 'squat'] as const).map((lift): ProgramDay => ({
+      name: { press: 'Press', deadlift: 'Deadlift', bench: 'Bench', squat: 'Squat' }[lift],
+      slots: [{ lift, stages: [sets] }]
+    }))
+  })),
+  progression: { frequency: 'cycle', deloadPercent: 10 },
+  defaultTrainingDays: [1, 2, 4, 5]
+};
+
+const sets = (count: number, reps: number): PrescribedSet[] => wave(Array(count).fill(100), Array(count).fill(reps));
+const straightSets = (count: number, reps: number): PrescribedSet[] => wave(Array(count).fill(100), Array(count).fill(reps), false);
+
+// T1 drops from 5x3+ to 6x2+ to 10x1+ on failure, T2 from 3x10 to 3x8 to 3x6
+const T1_STAGES = [sets(5, 3), sets(6, 2), sets(10, 1)];
+const T2_STAGES = [straightSets(3, 10), straightSets(3, 8), straightSets(3, 6)];
+
+export const GZCLP: ProgramDefinition = {
+  id: 'gzclp',
+  name: 'GZCLP',
+  description: 'Linear progression on a heavy T1 and a volume T2 lift each day. A missed session drops to the next set scheme before the weight comes down.',
+  lifts: [
+    { id: 'squat-t1', name: 'Squat (T1)', pattern: 'squat', increment: 5, trainingMaxPercent: 85 },
+    { id: 'bench-t1', name: 'Bench Press (T1)', pattern: 'bench', increment: 2.5, trainingMaxPercent: 85 },
+    { id: 'deadlift-t1', name: 'Deadlift (T1)', pattern: 'deadlift', increment: 5, trainingMaxPercent: 85 },
+    { id: 'press-t1', name: 'Overhead Press (T1)', pattern: 'overhead|military|shoulder press|ohp', increment: 2.5, trainingMaxPercent: 85 },
+    { id: 'squat-t2', name: 'Squat (T2)', pattern: 'squat', increment: 5, trainingMaxPercent: 65 },
+    { id: 'bench-t2', name: 'Bench Press (T2)', pattern: 'bench', increment: 2.5, trainingMaxPercent: 65 },
+    { id: 'deadlift-t2', name: 'Deadlift (T2)', pattern: 'deadlift', increment: 5, trainingMaxPercent: 65 },
+    { id: 'press-t2', name: 'Overhead Press (T2)', pattern: 'overhead|military|shoulder press|ohp', increment: 2.5, trainingMaxPercent: 65 }
+  ],
+  weeks: [{
+    name: 'Rotation',
+    days: [
+      { name: 'A1', slots: [{ lift: 'squat-t1', stages: T1_STAGES }, { lift: 'bench-t2', stages: T2_STAGES }] },
+      { name: 'B1', slots: [{ lift: 'press-t1', stages: T1_STAGES }, { lift: 'deadlift-t2', stages: T2_STAGES }] },
+      { name: 'A2', slots: [{ lift: 'bench-t1', stages: T1_STAGES }, { lift: 'squat-t2', stages: T2_STAGES }] },
+      { name: 'B2', slots: [{ lift: 'deadlift-t1', stages: T1_STAGES }, { lift: 'press-t2', stages: T2_STAGES }] }
+    ]
+  }],
+  progression: { frequency: 'session', deloadPercent: 15 },
+  defaultTrainingDays: [1, 3, 5]
+};
+
+export const BUILT_IN_PROGRAMS: ProgramDefinition[] = [WENDLER_531, GZCLP];
+
+export function getProgram(id: string): ProgramDefinition | null {
+  return BUILT_IN_PROGRAMS.find(program => program.id === id) ?? null;
+}
@@ -1,15 +1,55 @@
 // 💾 Advanced Data Management - SQLite + Cloud Sync
 
 import { openDB, type IDBPDatabase } from 'idb';
-import { GitHubSyncManager } from './GitHubSyncManager.js';
+import { SyncManager, type SyncConfig } from './SyncManager.js';
+import type { SyncRevision, BackupData as SyncBackupData } from './SyncBackend.js';
+import { SyncQueue } from './SyncQueue.js';
+import { DeltaSync, type SyncChange, type VectorClock } from './DeltaSync.js';
+import { SyncMerger, type SyncDataset, type MergeResult, type DatasetDiff } from './SyncMerger.js';
+import { OneRepMaxEstimator } from './OneRepMax.js';
+import { DEFAULT_VOLUME_LANDMARKS } from './AnalyticsEngine.js';
+import { RepMaxTracker } from './RepMaxes.js';
 import type {
   Exercise,
   WorkoutSession,
+  WorkoutExercise,
+  PersonalBests,
   UserSettings,
   BackupData,
-  SyncStatus
+  SyncStatus,
+  SyncConflict,
+  TrashItem,
+  BodyweightEntry,
+  WorkoutDraft,
+  WorkoutTemplate,
+  ProgramState
 } from '@types/index.js';
 
+// Last snapshot both this device and the cloud agreed on
+interface SyncBase extends SyncDataset {
+  key: 'base';
+  timestamp: string;
+  clock?: VectorClock; // Change-sets already applied - missing on bases from before delta sync
+}
+
+// There is only ever one session in progress
+interface StoredDraft extends WorkoutDraft {
+  key: 'active';
+}
+
+// Likewise only one program is followed at a time
+interface StoredProgram extends ProgramState {
+  key: 'active';
+}
+
+// Local change waiting to be published - removed once it is part of a change-set
+interface SyncLogEntry {
+  id?: number;
+  timestamp: string;
+  action: string;
+  entityId: string;
+}
+
 interface DBSchema {
   exercises: {
     key: string;
@@ -26,14 +66,53 @@ interface DBSchema {
     value: UserSettings;
   };
   sync_log: {
+    key: number;
+    value: SyncLogEntry;
+    indexes: { 'by-timestamp': string };
+  };
+  trash: {
+    key: string;
+    value: TrashItem;
+    indexes: { 'by-deleted': string };
+  };
+  sync_state: {
+    key: string;
+    value: SyncBase;
+  };
+  sync_conflicts: {
+    key: string;
+    value: SyncConflict;
+  };
+  bodyweight: {
     key: string;
-    value: { timestamp: string; action: string; entityId: string };
+    value: BodyweightEntry;
+    indexes: { 'by-date': string };
+  };
+  drafts: {
+    key: string;
+    value: StoredDraft;
+  };
+  templates: {
+    key: string;
+    value: WorkoutTemplate;
+  };
+  programs: {
+    key: string;
+    value: StoredProgram;
   };
 }
 
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const COMPACT_AFTER_CHANGE_SETS = 20;
+
 export class DataManager {
   private db: IDBPDatabase<DBSchema> | null = null;
-  private githubSync: GitHubSyncManager;
+  private syncManager: SyncManager;
+  private syncMerger = new SyncMerger();
+  private deltaSync = new DeltaSync();
+  private syncQueue: SyncQueue;
+  private syncInProgress = false;
+  private oneRepMax = new OneRepMaxEstimator();
   private syncStatus: SyncStatus = {
     lastSync: new Date().toISOString(),
     pendingChanges: 0,
@@ -43,12 +122,13 @@ export class DataManager {
   };
 
   constructor() {
-    this.githubSync = new GitHubSyncManager();
+    this.syncManager = new SyncManager();
+    this.syncQueue = new SyncQueue(() => this.flushCloudSync());
   }
 
   // 🚀 Initialize database with automatic migrations
   async initialize(): Promise<void> {
-    this.db = await openDB<DBSchema>('StrengthLogV2', 2, {
+    this.db = await openDB<DBSchema>('StrengthLogV2', 8, {
       upgrade(db, oldVersion, newVersion) {
         console.log(`📊 Upgrading database from v${oldVersion} to v${newVersion}`);
 
@@ -77,20 +157,63 @@ export class DataManager {
           // Add any new indexes or schema changes here
           console.log('📈 Added analytics optimizations');
         }
+
+        // V3 Schema: soft-deleted entities
+        if (oldVersion < 3) {
+          const trashStore = db.createObjectStore('trash', { keyPath: 'id' });
+          trashStore.createIndex('by-deleted', 'deletedAt');
+        }
+
+        // V4 Schema: three-way merge state for cloud sync
+        if (oldVersion < 4) {
+          db.createObjectStore('sync_state', { keyPath: 'key' });
+          db.createObjectStore('sync_conflicts', { keyPath: 'id' });
+        }
+
+        // V5 Schema: bodyweight log
+        if (oldVersion < 5) {
+          const bodyweightStore = db.createObjectStore('bodyweight', { keyPath: 'id' });
+          bodyweightStore.createIndex('by-date', 'date');
+        }
+
+        // V6 Schema: in-progress workout draft
+        if (oldVersion < 6) {
+          db.createObjectStore('drafts', { keyPath: 'key' });
+        }
+
+        // V7 Schema: workout templates
+        if (oldVersion < 7) {
+          db.createObjectStore('templates', { keyPath: 'id' });
+        }
+
+        // V8 Schema: active training program
+        if (oldVersion < 8) {
+          db.createObjectStore('programs', { keyPath: 'key' });
+        }
       }
     });
 
     // Set up online/offline event listeners
     window.addEventListener('online', () => {
       this.syncStatus.isOnline = true;
-      this.performBackgroundSync();
     });
 
     window.addEventListener('offline', () => {
       this.syncStatus.isOnline = false;
     });
 
+    const settings = await this.getSettings();
+    this.oneRepMax = new OneRepMaxEstimator(settings.oneRepMaxFormula);
+
     await this.migrateFromV1IfNeeded();
+
+    // Purge trash older than the configured retention period
+    await this.purgeExpiredTrash(settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS);
+
+    this.syncStatus.conflictCount = await this.db.count('sync_conflicts');
+
+    // Upload changes still queued from an earlier session, and flush whenever we come back online
+    this.syncQueue.start();
   }
 
   // 🔄 Migrate data from V1 localStorage if it exists
@@ -205,7 +328,7 @@ export class DataManager {
       maxWeight,
       maxReps,
       averageRPE: undefined,
-      estimatedOneRepMax: maxWeight * (1 + maxReps / 30), // Simple Epley formula
+      estimatedOneRepMax: this.oneRepMax.bestEstimate(sets),
       volumePerMinute: totalVolume / 60, // Assume 60 min workout
       intensityScore: (maxWeight * maxReps) / totalVolume * 100
     };
@@ -219,8 +342,8 @@ export class DataManager {
     await this.logSyncAction('exercise_save', exercise.id);
     this.syncStatus.pendingChanges++;
 
-    // Auto-backup to GitHub after save
-    await this.autoBackupToGitHub();
+    // Auto-backup to the cloud after save
+    await this.autoBackupToCloud();
   }
 
   async getExercise(id: string): Promise<Exercise | undefined> {
@@ -242,24 +365,59 @@ export class DataManager {
       throw new Error(`Cannot delete exercise: ${workouts.length} workouts depend on it`);
     }
 
-    await this.db.delete('exercises', id);
+    const exercise = await this.db.get('exercises', id);
+    if (!exercise) return;
+
+    await this.moveToTrash({
+      id,
+      entityType: 'exercise',
+      entity: exercise,
+      deletedAt: new Date().toISOString()
+    });
     await this.logSyncAction('exercise_delete', id);
     this.syncStatus.pendingChanges++;
+
+    await this.autoBackupToCloud();
   }
 
   // 🏋️ Workout CRUD operations with auto-backup
   async saveWorkout(workout: WorkoutSession): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
+    // Keep the previous version so exercises removed during an edit get rebuilt too
+    const previous = await this.db.get('workouts', workout.id);
+
     await this.db.put('workouts', workout);
     await this.logSyncAction('workout_save', workout.id);
     this.syncStatus.pendingChanges++;
 
     // Update exercise statistics
+    await this.updateExerciseStats(workout, previous);
+
+    // Auto-backup to the cloud after save
+    await this.autoBackupToCloud();
+  }
+
+  async deleteWorkout(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const workout = await this.db.get('workouts', id);
+    if (!workout) return;
+
+    await this.moveToTrash({
+      id,
+      entityType: 'workout',
+      entity: workout,
+      deletedAt: new Date().toISOString()
+    });
+    await this.logSyncAction('workout_delete', id);
+    this.syncStatus.pendingChanges++;
+
+    // Rebuild statistics from the remaining history
     await this.updateExerciseStats(workout);
 
-    // Auto-backup to GitHub after save
-    await this.autoBackupToGitHub();
+    // Auto-backup to the cloud after delete
+    await this.autoBackupToCloud();
   }
 
   async getWorkout(id: string): Promise<WorkoutSession | undefined> {
@@ -290,56 +448,329 @@ export class DataManager {
     ).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   }
 
-  // 📊 Update exercise statistics after workout
-  private async updateExerciseStats(workout: WorkoutSession): Promise<void> {
-    for (const workoutExercise of workout.exercises) {
-      const exercise = await this.getExercise(workoutExercise.exerciseId);
-      if (!exercise) continue;
-
-      // Update total workouts count
-      exercise.totalWorkouts = (await this.getWorkoutsByExercise(exercise.id)).length;
-      exercise.lastWorkoutDate = workout.date;
-
-      // Update personal bests
-      const metrics = workoutExercise.metrics;
-
-      if (metrics.maxWeight > exercise.personalBests.maxWeight.value) {
-        exercise.personalBests.maxWeight = {
-          value: metrics.maxWeight,
-          date: workout.date,
-          reps: metrics.maxReps
-        };
+  // 🧮 Re-estimate every stored 1RM, e.g. after switching the estimation formula
+  async recalculateOneRepMax(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const workouts = await this.db.getAll('workouts');
+    const exerciseIds = new Set<string>();
+
+    for (const workout of workouts) {
+      let changed = false;
+
+      for (const workoutExercise of workout.exercises) {
+        const estimate = this.oneRepMax.bestEstimate(workoutExercise.sets);
+        exerciseIds.add(workoutExercise.exerciseId);
+        if (workoutExercise.metrics.estimatedOneRepMax === estimate) continue;
+
+        workoutExercise.metrics.estimatedOneRepMax = estimate;
+        changed = true;
       }
 
-      if (metrics.totalVolume > exercise.personalBests.maxVolume.value) {
-        exercise.personalBests.maxVolume = {
-          value: metrics.totalVolume,
-          date: workout.date
+      if (changed) await this.db.put('workouts', workout);
+    }
+
+    // Personal bests and strength changes derive from the estimates
+    for (const exerciseId of exerciseIds) {
+      await this.rebuildExerciseHistory(exerciseId);
+    }
+
+    console.log(`🧮 Recalculated 1RM estimates with the ${this.oneRepMax.formula} formula`);
+  }
+
+  // 📊 Update exercise statistics after workout
+  private async updateExerciseStats(workout: WorkoutSession, previous?: WorkoutSession): Promise<void> {
+    const exerciseIds = new Set(workout.exercises.map(ex => ex.exerciseId));
+    previous?.exercises.forEach(ex => exerciseIds.add(ex.exerciseId));
+
+    for (const exerciseId of exerciseIds) {
+      await this.rebuildExerciseHistory(exerciseId);
+    }
+  }
+
+  // 🔁 Rebuild progression and personal bests from the full history of an exercise
+  private async rebuildExerciseHistory(exerciseId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const exercise = await this.getExercise(exerciseId);
+    if (!exercise) return;
+
+    const workouts = (await this.getWorkoutsByExercise(exerciseId))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.dateCreated.localeCompare(b.dateCreated));
+
+    const personalBests: PersonalBests = {
+      maxWeight: { value: 0, date: '', reps: 0 },
+      maxReps: { value: 0, date: '', weight: 0 },
+      maxVolume: { value: 0, date: '' },
+      estimatedOneRepMax: { value: 0, date: '' }
+    };
+    let last: WorkoutExercise | null = null;
+    let lastImprovement = '';
+    let streak = 0;
+    const repMaxes = new RepMaxTracker();
+
+    for (const workout of workouts) {
+      const before = JSON.stringify(workout.exercises);
+
+      for (const workoutExercise of workout.exercises) {
+        if (workoutExercise.exerciseId !== exerciseId) continue;
+
+        const metrics = workoutExercise.metrics;
+        repMaxes.add(workout, workoutExercise.sets);
+
+        // Most reps in one working set, and the heaviest weight they were done with
+        const workingSets = workoutExercise.sets.filter(set => !set.isWarmup);
+        const maxReps = Math.max(0, ...workingSets.map(set => set.reps));
+        const maxRepsWeight = Math.max(0, ...workingSets.filter(set => set.reps === maxReps).map(set => set.weight));
+
+        const isPersonalBest = last !== null && (
+          metrics.maxWeight > personalBests.maxWeight.value ||
+          maxReps > personalBests.maxReps.value ||
+          metrics.totalVolume > personalBests.maxVolume.value ||
+          metrics.estimatedOneRepMax > personalBests.estimatedOneRepMax.value
+        );
+        if (isPersonalBest) lastImprovement = workout.date;
+
+        // Consecutive sessions with an e1RM or volume gain over the previous one
+        const improved = last !== null && (
+          metrics.estimatedOneRepMax > last.metrics.estimatedOneRepMax ||
+          metrics.totalVolume > last.metrics.totalVolume
+        );
+        streak = improved ? streak + 1 : 0;
+
+        workoutExercise.progression = {
+          ...workoutExercise.progression,
+          weightChange: last ? metrics.maxWeight - last.metrics.maxWeight : 0,
+          volumeChange: last ? metrics.totalVolume - last.metrics.totalVolume : 0,
+          strengthChange: last ? metrics.estimatedOneRepMax - last.metrics.estimatedOneRepMax : 0,
+          isPersonalBest,
+          streak,
+          lastImprovement
         };
+
+        if (metrics.maxWeight > personalBests.maxWeight.value) {
+          personalBests.maxWeight = {
+            value: metrics.maxWeight,
+            date: workout.date,
+            reps: metrics.maxReps
+          };
+        }
+
+        if (maxReps > personalBests.maxReps.value ||
+            (maxReps === personalBests.maxReps.value && maxRepsWeight > personalBests.maxReps.weight)) {
+          personalBests.maxReps = {
+            value: maxReps,
+            date: workout.date,
+            weight: maxRepsWeight
+          };
+        }
+
+        if (metrics.totalVolume > personalBests.maxVolume.value) {
+          personalBests.maxVolume = {
+            value: metrics.totalVolume,
+            date: workout.date
+          };
+        }
+
+        if (metrics.estimatedOneRepMax > personalBests.estimatedOneRepMax.value) {
+          personalBests.estimatedOneRepMax = {
+            value: metrics.estimatedOneRepMax,
+            date: workout.date
+          };
+        }
+
+        last = workoutExercise;
       }
 
-      if (metrics.estimatedOneRepMax > exercise.personalBests.estimatedOneRepMax.value) {
-        exercise.personalBests.estimatedOneRepMax = {
-          value: metrics.estimatedOneRepMax,
-          date: workout.date
-        };
+      // Only rewrite sessions whose derived progression actually changed
+      if (JSON.stringify(workout.exercises) !== before) {
+        await this.db.put('workouts', workout);
       }
+    }
+
+    exercise.totalWorkouts = workouts.length;
+    personalBests.repMaxes = repMaxes.table();
+    exercise.personalBests = personalBests;
+    if (workouts.length > 0) {
+      exercise.lastWorkoutDate = workouts[workouts.length - 1].date;
+    } else {
+      delete exercise.lastWorkoutDate;
+    }
+
+    // Statistics are recalculated on every device, so they are not logged as a change to sync
+    await this.db.put('exercises', exercise);
+  }
+
+  // 🗑️ Trash management
+  // Soft delete - keep the entity in the trash until restored or purged
+  private async moveToTrash(item: TrashItem): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.put('trash', item);
+    await this.db.delete(item.entityType === 'workout' ? 'workouts' : 'exercises', item.id);
+  }
+
+  async getTrash(): Promise<TrashItem[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const items = await this.db.getAllFromIndex('trash', 'by-deleted');
+    return items.reverse(); // Most recently deleted first
+  }
+
+  async restoreFromTrash(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const item = await this.db.get('trash', id);
+    if (!item) throw new Error('Item not found in trash');
+
+    if (item.entityType === 'workout') {
+      await this.db.put('workouts', item.entity);
+      await this.db.delete('trash', id);
+      await this.logSyncAction('workout_save', id);
+      this.syncStatus.pendingChanges++;
+
+      // Restored history counts towards statistics again
+      await this.updateExerciseStats(item.entity);
+    } else {
+      await this.db.put('exercises', item.entity);
+      await this.db.delete('trash', id);
+      await this.logSyncAction('exercise_save', id);
+      this.syncStatus.pendingChanges++;
+
+      // Statistics may have changed while it was in the trash
+      await this.rebuildExerciseHistory(id);
+    }
+
+    await this.autoBackupToCloud();
+  }
+
+  async purgeFromTrash(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.delete('trash', id);
+  }
+
+  async emptyTrash(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const items = await this.db.getAll('trash');
+    for (const item of items) {
+      await this.purgeFromTrash(item.id);
+    }
+  }
+
+  // ⏳ Permanently delete items that have been in the trash longer than the retention period
+  async purgeExpiredTrash(retentionDays: number): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
 
-      await this.saveExercise(exercise);
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const expired = await this.db.getAllFromIndex('trash', 'by-deleted', IDBKeyRange.upperBound(cutoff));
+
+    for (const item of expired) {
+      await this.purgeFromTrash(item.id);
+    }
+
+    if (expired.length > 0) {
+      console.log(`🗑️ Purged ${expired.length} expired items from trash`);
     }
+
+    return expired.length;
+  }
+
+  // ⚖️ Bodyweight log - one weigh-in per day, logging another one that day replaces it
+  async logBodyweight(date: string, weight: number): Promise<BodyweightEntry> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (!(weight > 0)) throw new Error('Bodyweight must be a positive number');
+
+    const sameDay = await this.db.getAllFromIndex('bodyweight', 'by-date', date);
+    const entry: BodyweightEntry = { id: sameDay[0]?.id ?? this.generateId(), date, weight };
+    await this.db.put('bodyweight', entry);
+    return entry;
+  }
+
+  async getBodyweightLog(): Promise<BodyweightEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    return this.db.getAllFromIndex('bodyweight', 'by-date');
+  }
+
+  async deleteBodyweight(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.delete('bodyweight', id);
+  }
+
+  // 📋 Workout templates
+  async saveTemplate(template: WorkoutTemplate): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (!template.name.trim()) throw new Error('Template name is required');
+    if (template.exercises.length === 0) throw new Error('Template needs at least one exercise');
+
+    await this.db.put('templates', template);
+  }
+
+  async getTemplates(): Promise<WorkoutTemplate[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const templates = await this.db.getAll('templates');
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.delete('templates', id);
+  }
+
+  // 📝 In-progress workout draft - kept out of sync and backups until the workout is saved
+  async saveDraft(workout: WorkoutSession): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.put('drafts', { key: 'active', workout, updatedAt: new Date().toISOString() });
+  }
+
+  async getDraft(): Promise<WorkoutDraft | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const draft = await this.db.get('drafts', 'active');
+    return draft ? { workout: draft.workout, updatedAt: draft.updatedAt } : null;
+  }
+
+  async clearDraft(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.delete('drafts', 'active');
+  }
+
+  // 🗓️ Active training program - its position and training maxes
+  async saveProgramState(state: ProgramState): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.put('programs', { ...state, key: 'active' });
+  }
+
+  async getProgramState(): Promise<ProgramState | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stored = await this.db.get('programs', 'active');
+    if (!stored) return null;
+
+    const { key: _key, ...state } = stored;
+    return state;
+  }
+
+  async clearProgramState(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.delete('programs', 'active');
   }
 
   // ⚙️ Settings management
   async saveSettings(settings: UserSettings): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     await this.db.put('settings', { key: 'user_settings', ...settings });
+    this.oneRepMax = new OneRepMaxEstimator(settings.oneRepMaxFormula);
   }
 
   async getSettings(): Promise<UserSettings> {
     if (!this.db) throw new Error('Database not initialized');
 
     const saved = await this.db.get('settings', 'user_settings');
-    return saved || this.getDefaultSettings();
+    // Settings saved before a preference existed pick up its default
+    return saved ? { ...this.getDefaultSettings(), ...saved } : this.getDefaultSettings();
   }
 
   private getDefaultSettings(): UserSettings {
@@ -350,6 +781,18 @@ export class DataManager {
       restTimerDefault: 90,
       autoSave: true,
       analyticsEnabled: true,
+      trashRetentionDays: 30,
+      oneRepMaxFormula: 'epley',
+      volumeLandmarks: { ...DEFAULT_VOLUME_LANDMARKS },
+      hiddenRecommendations: {},
+      sex: null,
+      competitionLifts: { squat: null, bench: null, deadlift: null },
+      strengthScoreBasis: 'e1rm',
+      progression: {
+        model: 'double',
+        repRange: { min: 8, max: 12 },
+        targetRpe: 8
+      },
       chartDefaults: {
         timeframe: 'month',
         showTrendline: true,
@@ -369,12 +812,14 @@ export class DataManager {
     const exercises = await this.getAllExercises();
     const workouts = await this.getAllWorkouts();
     const settings = await this.getSettings();
+    const bodyweight = await this.getBodyweightLog();
+    const templates = await this.getTemplates();
 
     const backup: BackupData = {
       version: '2.0',
       timestamp: new Date().toISOString(),
-      checksum: this.calculateChecksum({ exercises, workouts, settings }),
-      data: { exercises, workouts, settings }
+      checksum: this.calculateChecksum({ exercises, workouts, settings, bodyweight, templates }),
+      data: { exercises, workouts, settings, bodyweight, templates }
     };
 
     return backup;
@@ -389,23 +834,59 @@ export class DataManager {
       throw new Error('Backup integrity check failed');
     }
 
+    // Anything missing from the backup goes to the trash so the restore can be undone
+    const deletedAt = new Date().toISOString();
+    const keptWorkouts = new Set(backup.data.workouts.map(workout => workout.id));
+    const keptExercises = new Set(backup.data.exercises.map(exercise => exercise.id));
+
+    for (const workout of await this.getAllWorkouts()) {
+      if (keptWorkouts.has(workout.id)) continue;
+      await this.moveToTrash({ id: workout.id, entityType: 'workout', entity: workout, deletedAt });
+      await this.logSyncAction('workout_delete', workout.id);
+    }
+
+    for (const exercise of await this.getAllExercises()) {
+      if (keptExercises.has(exercise.id)) continue;
+      await this.moveToTrash({ id: exercise.id, entityType: 'exercise', entity: exercise, deletedAt });
+      await this.logSyncAction('exercise_delete', exercise.id);
+    }
+
     // Clear existing data
     await this.db.clear('exercises');
     await this.db.clear('workouts');
 
-    // Restore data
+    // Restore data - logged as local changes so the next sync doesn't pull the old state back
     for (const exercise of backup.data.exercises) {
       await this.db.put('exercises', exercise);
+      await this.logSyncAction('exercise_save', exercise.id);
     }
 
     for (const workout of backup.data.workouts) {
       await this.db.put('workouts', workout);
+      await this.logSyncAction('workout_save', workout.id);
     }
 
     await this.saveSettings(backup.data.settings);
 
+    // Older backups have no bodyweight log - keep the current one then
+    if (backup.data.bodyweight) {
+      await this.db.clear('bodyweight');
+      for (const entry of backup.data.bodyweight) {
+        await this.db.put('bodyweight', entry);
+      }
+    }
+
+    if (backup.data.templates) {
+      await this.db.clear('templates');
+      for (const template of backup.data.templates) {
+        await this.db.put('templates', template);
+      }
+    }
+
     this.syncStatus.lastSync = new Date().toISOString();
     this.syncStatus.pendingChanges = 0;
+
+    await this.autoBackupToCloud();
   }
 
   // 🔐 Calculate data checksum for integrity verification
@@ -433,119 +914,415 @@ export class DataManager {
     });
   }
 
-  // 🔄 Perform background sync when online
-  private async performBackgroundSync(): Promise<void> {
-    if (!this.syncStatus.isOnline || this.syncStatus.pendingChanges === 0) {
+  // 🆔 Generate unique IDs
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+
+  // 📊 Get sync status
+  getSyncStatus(): SyncStatus {
+    return { ...this.syncStatus };
+  }
+
+  // ☁️ Queue an auto-backup after any save - a burst of saves becomes one upload
+  private async autoBackupToCloud(): Promise<void> {
+    if (!this.syncManager.isConfigured()) {
+      console.log('ℹ️ Cloud sync not configured - skipping auto-backup');
       return;
     }
 
-    try {
-      // This would sync with your cloud backend
-      // For now, just create a local backup
-      const backup = await this.createBackup();
+    this.syncQueue.enqueue();
+  }
+
+  // 📤 Run a queued sync. Throws on failure so the queue backs off and retries.
+  private async flushCloudSync(): Promise<boolean> {
+    if (!this.syncManager.isConfigured()) return true; // Sync was switched off - drop the queue
+
+    // Another sync is running and may have missed the latest saves - try again shortly
+    if (this.syncInProgress) return false;
 
-      // In a real implementation, this would upload to GitHub/cloud
-      console.log('📤 Background sync completed', backup.timestamp);
+    await this.syncWithCloud();
+    return true;
+  }
+
+  // 📥 Auto-restore from the cloud on app load
+  async autoRestoreFromCloud(): Promise<boolean> {
+    try {
+      if (!this.syncManager.isConfigured()) {
+        console.log('ℹ️ Cloud sync not configured - using local data only');
+        return false;
+      }
 
-      this.syncStatus.lastSync = new Date().toISOString();
-      this.syncStatus.pendingChanges = 0;
+      return await this.syncWithCloud() !== null;
     } catch (error) {
-      console.error('❌ Background sync failed:', error);
+      console.error('❌ Auto-restore failed:', error);
+      return false;
     }
   }
 
-  // 🆔 Generate unique IDs
-  private generateId(): string {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
-  }
+  // 🔀 Delta sync: replay change-sets from other devices, merge them with local edits and
+  // publish ours as a new change-set. Returns the ids of workouts the merge added, changed or
+  // removed, or null when the cloud had nothing new.
+  private async syncWithCloud(forceUpload = false): Promise<string[] | null> {
+    if (!this.db) throw new Error('Database not initialized');
 
-  // 📊 Get sync status
-  getSyncStatus(): SyncStatus {
-    return { ...this.syncStatus };
-  }
+    // Saves made while applying a merge must not start another sync
+    if (this.syncInProgress) return null;
+    this.syncInProgress = true;
 
-    // ☁️ Auto-backup to GitHub after any save
-  private async autoBackupToGitHub(): Promise<void> {
     try {
-      if (!this.githubSync.isConfigured()) {
-        console.log('ℹ️ GitHub sync not configured - skipping auto-backup');
-        return;
+      const base = await this.db.get('sync_state', 'base');
+      const log = await this.db.getAll('sync_log');
+      const localChanges = await this.getLocalChanges(log);
+      const local: SyncDataset = {
+        exercises: await this.getAllExercises(),
+        workouts: await this.getAllWorkouts()
+      };
+
+      const refs = await this.syncManager.listChangeSets();
+      let clock: VectorClock = base?.clock ?? {};
+      let pending = this.deltaSync.pending(refs, clock);
+      let remote: SyncDataset | null = base?.clock ? base : null;
+      let snapshotUsed = false;
+
+      // First delta sync, or change-sets we missed were compacted into the snapshot
+      if (!base?.clock || !pending.complete) {
+        const snapshot = await this.syncManager.downloadSnapshot();
+        snapshotUsed = snapshot !== null;
+        remote = snapshot;
+        clock = snapshot?.clock ?? {};
+        pending = this.deltaSync.pending(refs, clock);
+      }
+
+      const changeSets = await this.syncManager.getChangeSets(pending.refs);
+      if (changeSets.length > 0) {
+        remote = this.deltaSync.apply(remote ?? { exercises: [], workouts: [] }, changeSets);
+        clock = this.deltaSync.advance(clock, changeSets);
+      }
+
+      const remoteChanged = snapshotUsed || changeSets.length > 0;
+      let merged = local;
+      let newConflicts: SyncConflict[] = [];
+      let changedWorkouts: string[] = [];
+
+      if (remote && remoteChanged) {
+        console.log('🔀 Merging cloud changes...');
+        const result = this.syncMerger.merge(base ?? null, local, remote, localChanges);
+        changedWorkouts = await this.applyMergeResult(local, result);
+        merged = { exercises: result.exercises, workouts: result.workouts };
+        newConflicts = result.conflicts;
+      }
+
+      // Publish what changed here - conflicting entities keep (and share) the local value
+      const changes = this.buildChanges(merged, log, newConflicts);
+      const publishedRefs = [...refs];
+      if (changes.length > 0) {
+        const seq = this.deltaSync.nextSeq(refs, clock, this.syncManager.getSyncStatus().deviceId);
+        const changeSet = await this.syncManager.publishChangeSet(seq, clock, changes);
+        clock = changeSet.clock;
+        publishedRefs.push({ name: DeltaSync.fileName(changeSet.deviceId, seq), deviceId: changeSet.deviceId, seq });
       }
 
-      const exercises = await this.getAllExercises();
-      const workouts = await this.getAllWorkouts();
+      // Snapshot every sync that published something - revision history only sees snapshots.
+      // Piled-up change-sets are folded into it (also the first upload to an empty cloud).
+      const compact = publishedRefs.length > COMPACT_AFTER_CHANGE_SETS;
+      const uploadSnapshot = forceUpload || remote === null || changes.length > 0 || compact;
+      if (uploadSnapshot) {
+        await this.syncManager.autoBackup(merged.exercises, merged.workouts, clock);
+      }
+      if (compact) {
+        await this.syncManager.deleteChangeSets(this.deltaSync.compactable(publishedRefs, clock));
+      }
 
-      const success = await this.githubSync.autoBackup(exercises, workouts);
-      if (success) {
+      // Everything logged so far is now in the cloud
+      const lastLogId = log[log.length - 1]?.id;
+      if (lastLogId !== undefined) {
+        await this.db.delete('sync_log', IDBKeyRange.upperBound(lastLogId));
+      }
+
+      if (remoteChanged || changes.length > 0 || uploadSnapshot) {
+        await this.saveSyncBase(merged, clock);
         this.syncStatus.lastSync = new Date().toISOString();
         this.syncStatus.pendingChanges = 0;
       }
-    } catch (error) {
-      console.error('❌ Auto-backup failed:', error);
-      // Don't throw - backup failure shouldn't break normal app flow
+
+      return remoteChanged ? changedWorkouts : null;
+    } finally {
+      this.syncInProgress = false;
     }
   }
 
-  // 📥 Auto-restore from GitHub on app load
-  async autoRestoreFromGitHub(): Promise<boolean> {
-    try {
-      if (!this.githubSync.isConfigured()) {
-        console.log('ℹ️ GitHub sync not configured - using local data only');
-        return false;
-      }
+  // 📝 Ids of entities changed on this device that the cloud may not have yet
+  private async getLocalChanges(log: SyncLogEntry[]): Promise<Set<string>> {
+    if (!this.db) throw new Error('Database not initialized');
 
-      const cloudData = await this.githubSync.autoRestore();
-      if (!cloudData) {
-        console.log('ℹ️ No cloud data to restore');
-        return false;
+    const changes = new Set(log.map(entry => entry.entityId));
+
+    // Unresolved conflicts keep the local value until the user decides
+    const conflicts = await this.db.getAll('sync_conflicts');
+    conflicts.forEach(conflict => changes.add(conflict.entityId));
+
+    return changes;
+  }
+
+  // 🧬 Turn logged saves and deletes into change-set entries holding the latest version
+  private buildChanges(data: SyncDataset, log: SyncLogEntry[], conflicts: SyncConflict[]): SyncChange[] {
+    const changed = new Map<string, SyncChange['entityType']>();
+    for (const entry of log) {
+      const [entityType] = entry.action.split('_');
+      if (entityType === 'exercise' || entityType === 'workout') {
+        changed.set(entry.entityId, entityType);
       }
+    }
+    conflicts.forEach(conflict => changed.set(conflict.entityId, conflict.entityType));
+
+    const exercises = new Map(data.exercises.map(exercise => [exercise.id, exercise]));
+    const workouts = new Map(data.workouts.map(workout => [workout.id, workout]));
+
+    return [...changed].map(([entityId, entityType]): SyncChange => {
+      const entity = entityType === 'exercise' ? exercises.get(entityId) : workouts.get(entityId);
+      return entity
+        ? { entityType, entityId, operation: 'save', entity }
+        : { entityType, entityId, operation: 'delete' };
+    });
+  }
+
+  // 💾 Write a merge result to the database without logging it as local changes.
+  // Returns the ids of the workouts it wrote or moved to the trash.
+  private async applyMergeResult(local: SyncDataset, result: MergeResult): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const deletedAt = new Date().toISOString();
+    const touchedExercises = new Set<string>();
+    const changedWorkouts: string[] = [];
+
+    const localExercises = new Map(local.exercises.map(exercise => [exercise.id, exercise]));
+    for (const exercise of result.exercises) {
+      const previous = localExercises.get(exercise.id);
+      localExercises.delete(exercise.id);
+      if (previous && JSON.stringify(previous) === JSON.stringify(exercise)) continue;
+
+      await this.db.put('exercises', exercise);
+      touchedExercises.add(exercise.id);
+    }
+
+    const localWorkouts = new Map(local.workouts.map(workout => [workout.id, workout]));
+    for (const workout of result.workouts) {
+      const previous = localWorkouts.get(workout.id);
+      localWorkouts.delete(workout.id);
+      if (previous && JSON.stringify(previous) === JSON.stringify(workout)) continue;
+
+      await this.db.put('workouts', workout);
+      changedWorkouts.push(workout.id);
+      workout.exercises.forEach(ex => touchedExercises.add(ex.exerciseId));
+      previous?.exercises.forEach(ex => touchedExercises.add(ex.exerciseId));
+    }
 
-      console.log('📥 Restoring data from GitHub...');
+    // Entities deleted on another device go to the trash so they can still be recovered
+    for (const workout of localWorkouts.values()) {
+      await this.moveToTrash({ id: workout.id, entityType: 'workout', entity: workout, deletedAt });
+      changedWorkouts.push(workout.id);
+      workout.exercises.forEach(ex => touchedExercises.add(ex.exerciseId));
+    }
+
+    for (const exercise of localExercises.values()) {
+      await this.moveToTrash({ id: exercise.id, entityType: 'exercise', entity: exercise, deletedAt });
+      touchedExercises.delete(exercise.id);
+    }
+
+    for (const exerciseId of touchedExercises) {
+      await this.rebuildExerciseHistory(exerciseId);
+    }
 
-      // Replace local data with cloud data
-      if (!this.db) throw new Error('Database not initialized');
+    for (const conflict of result.conflicts) {
+      await this.db.put('sync_conflicts', conflict);
+    }
+    this.syncStatus.conflictCount = await this.db.count('sync_conflicts');
 
-      // Clear existing data
-      await Promise.all([
-        this.db.clear('exercises'),
-        this.db.clear('workouts')
-      ]);
+    if (result.conflicts.length > 0) {
+      console.warn(`⚠️ ${result.conflicts.length} sync conflicts need attention`);
+    }
 
-      // Add cloud data
-      const tx = this.db.transaction(['exercises', 'workouts'], 'readwrite');
+    return changedWorkouts;
+  }
+
+  private async saveSyncBase(data: SyncDataset, clock: VectorClock): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
 
-      for (const exercise of cloudData.exercises) {
-        await tx.objectStore('exercises').put(exercise);
+    await this.db.put('sync_state', {
+      key: 'base',
+      timestamp: new Date().toISOString(),
+      exercises: data.exercises,
+      workouts: data.workouts,
+      clock
+    });
+  }
+
+  // ⚠️ Sync conflict resolution
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conflicts = await this.db.getAll('sync_conflicts');
+    return conflicts.sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+  }
+
+  async resolveSyncConflict(id: string, choice: 'local' | 'remote'): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conflict = await this.db.get('sync_conflicts', id);
+    if (!conflict) throw new Error('Conflict not found');
+
+    await this.db.delete('sync_conflicts', id);
+    this.syncStatus.conflictCount = await this.db.count('sync_conflicts');
+
+    const value = choice === 'local' ? conflict.local : conflict.remote;
+    const isWorkout = conflict.entityType === 'workout';
+
+    if (conflict.path.length === 0 && value === undefined) {
+      // The chosen side deleted the entity
+      if (isWorkout) {
+        await this.deleteWorkout(conflict.entityId);
+      } else {
+        await this.deleteExercise(conflict.entityId);
       }
+      return;
+    }
 
-      for (const workout of cloudData.workouts) {
-        await tx.objectStore('workouts').put(workout);
+    if (choice === 'local') {
+      // The local value is already in place - mark it as changed so the next sync pushes it
+      await this.logSyncAction(`${conflict.entityType}_save`, conflict.entityId);
+      this.syncStatus.pendingChanges++;
+      await this.autoBackupToCloud();
+      return;
+    }
+
+    if (conflict.path.length === 0) {
+      if (isWorkout) {
+        await this.saveWorkout(value as WorkoutSession);
+      } else {
+        await this.saveExercise(value as Exercise);
       }
+      return;
+    }
 
-      await tx.done;
+    const entity = isWorkout
+      ? await this.getWorkout(conflict.entityId)
+      : await this.getExercise(conflict.entityId);
+    if (!entity) return;
 
-      console.log(`✅ Restored ${cloudData.exercises.length} exercises and ${cloudData.workouts.length} workouts from GitHub`);
-      return true;
-    } catch (error) {
-      console.error('❌ Auto-restore failed:', error);
-      return false;
+    this.syncMerger.applyResolution(conflict.entityType, entity, conflict.path, value);
+    if (isWorkout) {
+      await this.saveWorkout(entity as WorkoutSession);
+    } else {
+      await this.saveExercise(entity as Exercise);
     }
   }
 
-  // 🔧 Setup GitHub sync
-  setupGitHubSync(owner: string, repo: string, token: string): void {
-    this.githubSync.setupSync(owner, repo, token);
-    console.log('✅ GitHub sync configured');
+  // 🔧 Setup cloud sync
+  setupSync(config: SyncConfig): void {
+    this.syncManager.setupSync(config);
+  }
+
+  clearSyncConfig(): void {
+    this.syncManager.clearConfig();
+    this.syncQueue.clear();
+  }
+
+  // 🔄 Sync right away instead of waiting for the next save. Returns the ids of workouts
+  // cloud changes touched, or null when there were none.
+  async syncNow(): Promise<string[] | null> {
+    if (!this.syncManager.isConfigured()) return null;
+    return await this.syncWithCloud();
+  }
+
+  // 🔐 End-to-end encryption of cloud copies
+  async setSyncPassphrase(passphrase: string): Promise<void> {
+    await this.syncManager.setPassphrase(passphrase);
+
+    // Pull anything that was unreadable before, then upload the encrypted copy
+    await this.syncWithCloud(true);
+  }
+
+  async rotateSyncPassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    await this.syncManager.rotatePassphrase(currentPassphrase, newPassphrase);
+    await this.syncWithCloud(true);
+    await this.syncManager.reencodeChangeSets();
+  }
+
+  async disableSyncEncryption(): Promise<void> {
+    this.syncManager.disableEncryption();
+    await this.syncWithCloud(true);
+    await this.syncManager.reencodeChangeSets();
   }
 
-  // 📊 Get GitHub sync status
-  getGitHubSyncStatus() {
-    return this.githubSync.getSyncStatus();
+  // 📊 Get cloud sync status
+  getCloudSyncStatus() {
+    return {
+      ...this.syncManager.getSyncStatus(),
+      pendingUpload: this.syncQueue.hasPending(),
+      retryAt: this.syncQueue.getRetryAt()
+    };
   }
 
-  // 🔐 Get GitHub setup instructions
-  getGitHubSetupInstructions(): string {
-    return this.githubSync.getSetupInstructions();
+  // 📜 Earlier cloud uploads
+  async listSyncRevisions(limit?: number): Promise<SyncRevision[]> {
+    return this.syncManager.listRevisions(limit);
+  }
+
+  async getSyncRevision(id: string): Promise<SyncBackupData | null> {
+    return this.syncManager.getRevision(id);
+  }
+
+  // 🔍 What restoring a revision would change compared to the data on this device
+  async diffSyncRevision(revision: SyncBackupData): Promise<DatasetDiff> {
+    const [exercises, workouts] = await Promise.all([this.getAllExercises(), this.getAllWorkouts()]);
+    return this.syncMerger.diff({ exercises, workouts }, revision);
+  }
+
+  // ⏪ Point-in-time restore of everything in a revision (settings stay as they are)
+  async restoreSyncRevision(id: string): Promise<void> {
+    const revision = await this.getSyncRevision(id);
+    if (!revision) throw new Error('Revision not found');
+
+    const data = {
+      exercises: revision.exercises,
+      workouts: revision.workouts,
+      settings: await this.getSettings()
+    };
+
+    await this.restoreFromBackup({
+      version: revision.version,
+      timestamp: revision.lastSync,
+      checksum: this.calculateChecksum(data),
+      data
+    });
+  }
+
+  // ⏪ Bring back selected workouts from a revision, leaving everything else untouched
+  async restoreWorkoutsFromRevision(id: string, workoutIds: string[]): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const revision = await this.getSyncRevision(id);
+    if (!revision) throw new Error('Revision not found');
+
+    const selected = revision.workouts.filter(workout => workoutIds.includes(workout.id));
+    const neededExercises = new Set(selected.flatMap(workout => workout.exercises.map(ex => ex.exerciseId)));
+
+    // Workouts need their exercises - restore any that were deleted since
+    for (const exercise of revision.exercises) {
+      if (!neededExercises.has(exercise.id) || await this.db.get('exercises', exercise.id)) continue;
+
+      await this.db.put('exercises', exercise);
+      await this.db.delete('trash', exercise.id);
+      await this.logSyncAction('exercise_save', exercise.id);
+    }
+
+    for (const workout of selected) {
+      await this.db.delete('trash', workout.id);
+      await this.saveWorkout(workout);
+    }
+
+    return selected.length;
   }
 
   // 🧹 Clear all data (for migration rollback)
@@ -556,9 +1333,18 @@ export class DataManager {
       this.db.clear('exercises'),
       this.db.clear('workouts'),
       this.db.clear('settings'),
-      this.db.clear('sync_log')
+      this.db.clear('sync_log'),
+      this.db.clear('trash'),
+      this.db.clear('sync_state'),
+      this.db.clear('sync_conflicts'),
+      this.db.clear('bodyweight'),
+      this.db.clear('drafts'),
+      this.db.clear('templates'),
+      this.db.clear('programs')
     ]);
 
+    this.syncStatus.conflictCount = 0;
+    this.syncQueue.clear();
     console.log('🧹 All V2 data cleared');
   }
 }
\ No newline at end of file
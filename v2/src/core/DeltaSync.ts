@@ -0,0 +1,145 @@
+// 🧬 Delta Sync - Ordered change-sets with vector clocks instead of full re-uploads
+
+import type { Exercise, WorkoutSession } from '@types/index.js';
+import type { SyncDataset } from './SyncMerger.js';
+
+// Highest change-set sequence number seen from each device
+export type VectorClock = Record<string, number>;
+
+export interface SyncChange {
+  entityType: 'exercise' | 'workout';
+  entityId: string;
+  operation: 'save' | 'delete';
+  entity?: Exercise | WorkoutSession; // Full entity for saves
+}
+
+export interface ChangeSet {
+  deviceId: string;
+  seq: number;
+  clock: VectorClock; // Change-sets of every device this one was built on, including itself
+  timestamp: string;
+  changes: SyncChange[];
+}
+
+// A change-set known only by its file name
+export interface ChangeSetRef {
+  name: string;
+  deviceId: string;
+  seq: number;
+}
+
+export class DeltaSync {
+  // 🏷️ Sortable file name: device-abc_00000042.json
+  static fileName(deviceId: string, seq: number): string {
+    return `${deviceId}_${String(seq).padStart(8, '0')}.json`;
+  }
+
+  static parseName(name: string): ChangeSetRef | null {
+    const match = /^(.+)_(\d+)\.json$/.exec(name);
+    if (!match?.[1] || !match[2]) return null;
+    return { name, deviceId: match[1], seq: Number(match[2]) };
+  }
+
+  // 📥 Change-sets newer than the clock that can be applied in order. complete is false
+  // when some were compacted away - the snapshot has to fill the gap.
+  pending(refs: ChangeSetRef[], clock: VectorClock): { refs: ChangeSetRef[]; complete: boolean } {
+    const pending: ChangeSetRef[] = [];
+    let complete = true;
+
+    for (const [deviceId, deviceRefs] of this.byDevice(refs)) {
+      let expected = (clock[deviceId] ?? 0) + 1;
+
+      for (const ref of deviceRefs) {
+        if (ref.seq < expected) continue;
+        if (ref.seq > expected) {
+          complete = false;
+          break;
+        }
+        pending.push(ref);
+        expected++;
+      }
+    }
+
+    return { refs: pending, complete };
+  }
+
+  // 🔧 Replay change-sets on top of a dataset, causally ordered
+  apply(dataset: SyncDataset, changeSets: ChangeSet[]): SyncDataset {
+    const exercises = new Map(dataset.exercises.map(exercise => [exercise.id, exercise]));
+    const workouts = new Map(dataset.workouts.map(workout => [workout.id, workout]));
+
+    for (const changeSet of this.order(changeSets)) {
+      for (const change of changeSet.changes) {
+        const collection: Map<string, Exercise | WorkoutSession> = change.entityType === 'exercise' ? exercises : workouts;
+
+        if (change.operation === 'delete' || !change.entity) {
+          collection.delete(change.entityId);
+        } else {
+          collection.set(change.entityId, change.entity);
+        }
+      }
+    }
+
+    return { exercises: [...exercises.values()], workouts: [...workouts.values()] };
+  }
+
+  // ⏩ Clock after applying the given change-sets
+  advance(clock: VectorClock, changeSets: ChangeSet[]): VectorClock {
+    const next = { ...clock };
+    for (const changeSet of changeSets) {
+      next[changeSet.deviceId] = Math.max(next[changeSet.deviceId] ?? 0, changeSet.seq);
+    }
+    return next;
+  }
+
+  // Our next sequence number - also counts change-sets we published before local data was cleared
+  nextSeq(refs: ChangeSetRef[], clock: VectorClock, deviceId: string): number {
+    const published = refs.filter(ref => ref.deviceId === deviceId).map(ref => ref.seq);
+    return Math.max(clock[deviceId] ?? 0, ...published) + 1;
+  }
+
+  // 🧹 Change-sets a snapshot at this clock already contains. The newest one of each device
+  // stays so other devices can still tell how far that device has got.
+  compactable(refs: ChangeSetRef[], clock: VectorClock): ChangeSetRef[] {
+    const compactable: ChangeSetRef[] = [];
+
+    for (const [deviceId, deviceRefs] of this.byDevice(refs)) {
+      const newest = deviceRefs[deviceRefs.length - 1]!.seq;
+      compactable.push(...deviceRefs.filter(ref => ref.seq <= (clock[deviceId] ?? 0) && ref.seq < newest));
+    }
+
+    return compactable;
+  }
+
+  // A change-set happens after everything in its clock, so a larger clock total never comes first
+  private order(changeSets: ChangeSet[]): ChangeSet[] {
+    const total = (clock: VectorClock) => Object.values(clock).reduce((sum, seq) => sum + seq, 0);
+
+    return [...changeSets].sort((a, b) =>
+      total(a.clock) - total(b.clock) ||
+      a.timestamp.localeCompare(b.timestamp) ||
+      a.deviceId.localeCompare(b.deviceId)
+    );
+  }
+
+  private byDevice(refs: ChangeSetRef[]): Map<string, ChangeSetRef[]> {
+    const byDevice = new Map<string, ChangeSetRef[]>();
+    for (const ref of refs) {
+      byDevice.set(ref.deviceId, [...(byDevice.get(ref.deviceId) ?? []), ref]);
+    }
+    byDevice.forEach(deviceRefs => deviceRefs.sort((a, b) => a.seq - b.seq));
+    return byDevice;
+  }
+}
+
+// ✅ Validate a downloaded change-set
+export function isChangeSet(data: any): data is ChangeSet {
+  return (
+    data &&
+    typeof data === 'object' &&
+    typeof data.deviceId === 'string' &&
+    typeof data.seq === 'number' &&
+    typeof data.clock === 'object' &&
+    Array.isArray(data.changes)
+  );
+}
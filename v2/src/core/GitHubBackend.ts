@@ -0,0 +1,357 @@
+// 🐙 GitHub Sync Backend - Backups as JSON files in a GitHub repository
+
+import { isRateLimitError, throwIfRateLimited, type SyncBackend, type SyncRevision, type SyncUploadInfo } from './SyncBackend.js';
+
+// single: one JSON file. sharded: one file per year of workouts plus exercises and sync metadata files
+export type GitHubLayout = 'single' | 'sharded';
+
+export interface GitHubConfig {
+  owner: string;
+  repo: string;
+  token: string;
+  filename: string;
+  branch?: string; // Defaults to main - a dedicated branch keeps sync commits out of the code history
+  path?: string; // Base directory inside the repository
+  layout?: GitHubLayout;
+}
+
+// The parts of GitHub API responses we read
+interface GitHubCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author: { date: string } | null;
+    committer: { date: string } | null;
+  };
+}
+
+interface GitHubContentEntry {
+  type: 'file' | 'dir' | 'symlink' | 'submodule';
+  name: string;
+  sha: string;
+}
+
+const CHANGES_FOLDER = 'changes';
+const SHARD_META = 'sync.json';
+const SHARD_PATTERN = /^(sync|exercises|workouts-\d{4})\.json$/;
+
+export class GitHubBackend implements SyncBackend {
+  readonly type = 'github';
+  readonly label = 'GitHub';
+  readonly sharded: boolean;
+  private config: Required<GitHubConfig>;
+  private branchChecked = false;
+
+  constructor(config: GitHubConfig) {
+    this.config = {
+      ...config,
+      branch: config.branch || 'main',
+      path: (config.path ?? '').replace(/^\/+|\/+$/g, ''),
+      layout: config.layout ?? 'single'
+    };
+    this.sharded = this.config.layout === 'sharded';
+  }
+
+  isConfigured(): boolean {
+    return this.config.owner !== '' &&
+           this.config.repo !== '' &&
+           this.config.token !== '';
+  }
+
+  // 📤 Upload to GitHub
+  async upload(content: string, info: SyncUploadInfo): Promise<void> {
+    await this.ensureBranch();
+
+    if (this.sharded) {
+      await this.uploadShards(JSON.parse(content), info.message);
+      return;
+    }
+
+    // First, get the current file SHA (if it exists)
+    const currentFile = await this.getCurrentFile();
+
+    const encodedContent = btoa(unescape(encodeURIComponent(content)));
+
+    const requestBody: { message: string; content: string; branch: string; sha?: string } = {
+      message: info.message,
+      content: encodedContent,
+      branch: this.config.branch
+    };
+
+    // Include SHA if file exists (for updates)
+    if (currentFile?.sha) {
+      requestBody.sha = currentFile.sha;
+    }
+
+    const response = await this.request(this.contentsUrl(), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestBody)
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`GitHub upload failed: ${response.status} ${error}`);
+    }
+  }
+
+  // 📥 Download from GitHub
+  async download(): Promise<string | null> {
+    return this.sharded ? this.downloadShards(this.config.branch) : this.downloadAt(this.config.branch);
+  }
+
+  // 📜 Commits that touched the backup (the sync metadata shard changes with every sharded upload)
+  async listRevisions(limit = 30): Promise<SyncRevision[]> {
+    const { owner, repo, branch } = this.config;
+    const path = this.repoPath(this.sharded ? SHARD_META : this.config.filename);
+    const params = new URLSearchParams({ sha: branch, path, per_page: String(limit) });
+
+    const response = await this.request(`https://api.github.com/repos/${owner}/${repo}/commits?${params}`);
+    if (!response.ok) {
+      if (response.status === 404 || response.status === 409) return []; // No repo content yet
+      throw new Error(`GitHub API error: ${response.status}`);
+    }
+
+    const commits: GitHubCommit[] = await response.json();
+    return commits.map(commit => {
+      const revision: SyncRevision = {
+        id: commit.sha,
+        timestamp: commit.commit.committer?.date ?? commit.commit.author?.date ?? '',
+        message: commit.commit.message
+      };
+
+      // Uploads are committed as "Auto-sync from <device> - <timestamp>"
+      const device = /^Auto-sync from (\S+) - /.exec(revision.message)?.[1];
+      if (device) revision.deviceId = device;
+      return revision;
+    });
+  }
+
+  async getRevision(id: string): Promise<string | null> {
+    return this.sharded ? this.downloadShards(id) : this.downloadAt(id);
+  }
+
+  // 🧬 Delta sync change-sets
+  async listChangeSets(): Promise<string[]> {
+    const entries = await this.listFolder(this.repoPath(CHANGES_FOLDER), this.config.branch);
+    return entries.map(entry => entry.name);
+  }
+
+  async putChangeSet(name: string, content: string): Promise<void> {
+    await this.ensureBranch();
+
+    // Existing change-sets are rewritten when the passphrase changes
+    const path = this.repoPath(`${CHANGES_FOLDER}/${name}`);
+    const currentFile = await this.getCurrentFile(path);
+
+    const response = await this.request(this.contentsUrl(path), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        message: `Change-set ${name}`,
+        content: btoa(unescape(encodeURIComponent(content))),
+        branch: this.config.branch,
+        ...(currentFile ? { sha: currentFile.sha } : {})
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`GitHub upload failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async getChangeSet(name: string): Promise<string | null> {
+    return this.downloadAt(this.config.branch, this.repoPath(`${CHANGES_FOLDER}/${name}`));
+  }
+
+  async deleteChangeSet(name: string): Promise<void> {
+    const path = this.repoPath(`${CHANGES_FOLDER}/${name}`);
+    const currentFile = await this.getCurrentFile(path);
+    if (!currentFile) return;
+
+    const response = await this.request(this.contentsUrl(path), {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: `Compact change-set ${name}`, sha: currentFile.sha, branch: this.config.branch })
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`GitHub delete failed: ${response.status}`);
+    }
+  }
+
+  private async downloadAt(ref: string, path = this.repoPath(this.config.filename)): Promise<string | null> {
+    const response = await this.request(`${this.contentsUrl(path)}?ref=${encodeURIComponent(ref)}`);
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        console.log(`ℹ️ ${path} not found on GitHub`);
+        return null;
+      }
+      throw new Error(`GitHub API error: ${response.status}`);
+    }
+
+    const fileData = await response.json();
+    return this.decodeContent(fileData.content);
+  }
+
+  // 🧩 Sharded layout - every shard in one commit through the Git Data API, so a sync is a
+  // single small commit that only touches the years that changed
+  private async uploadShards(files: Record<string, string>, message: string): Promise<void> {
+    const existing = await this.listFolder(this.config.path, this.config.branch);
+    const existingShas = new Map(existing.map(entry => [entry.name, entry.sha]));
+    const tree: Array<{ path: string; mode: '100644'; type: 'blob'; content?: string; sha?: null }> = [];
+
+    for (const [name, content] of Object.entries(files)) {
+      if (existingShas.get(name) === await this.blobSha(content)) continue; // Unchanged shard
+      tree.push({ path: this.repoPath(name), mode: '100644', type: 'blob', content });
+    }
+
+    // Years that no longer have any workouts
+    for (const entry of existing) {
+      if (SHARD_PATTERN.test(entry.name) && !(entry.name in files)) {
+        tree.push({ path: this.repoPath(entry.name), mode: '100644', type: 'blob', sha: null });
+      }
+    }
+
+    if (tree.length === 0) return;
+
+    const head = await this.git('GET', `ref/heads/${this.config.branch}`);
+    const headCommit = await this.git('GET', `commits/${head.object.sha}`);
+    const newTree = await this.git('POST', 'trees', { base_tree: headCommit.tree.sha, tree });
+    const commit = await this.git('POST', 'commits', { message, tree: newTree.sha, parents: [head.object.sha] });
+
+    // Not forced - fails if another device committed in the meantime, and the sync is retried
+    await this.git('PATCH', `refs/heads/${this.config.branch}`, { sha: commit.sha });
+  }
+
+  private async downloadShards(ref: string): Promise<string | null> {
+    const entries = (await this.listFolder(this.config.path, ref)).filter(entry => SHARD_PATTERN.test(entry.name));
+    if (!entries.some(entry => entry.name === SHARD_META)) return null;
+
+    const files: Record<string, string> = {};
+    for (const entry of entries) {
+      // The blobs API also serves files over the 1 MB contents API limit
+      const blob = await this.git('GET', `blobs/${entry.sha}`);
+      files[entry.name] = this.decodeContent(blob.content);
+    }
+
+    return JSON.stringify(files);
+  }
+
+  // 🌿 Create the sync branch from the default branch the first time it is used
+  private async ensureBranch(): Promise<void> {
+    if (this.branchChecked) return;
+
+    const { owner, repo, branch } = this.config;
+    const response = await this.request(`https://api.github.com/repos/${owner}/${repo}/git/ref/heads/${branch}`);
+
+    if (response.status === 404 || response.status === 409) {
+      const repository = await (await this.request(`https://api.github.com/repos/${owner}/${repo}`)).json();
+
+      // The contents API creates the default branch of an empty repository by itself
+      if (repository.default_branch !== branch) {
+        const defaultRef = await this.request(
+          `https://api.github.com/repos/${owner}/${repo}/git/ref/heads/${repository.default_branch}`
+        );
+        if (!defaultRef.ok) {
+          throw new Error('The repository is empty - add a first commit before syncing to another branch');
+        }
+
+        await this.git('POST', 'refs', { ref: `refs/heads/${branch}`, sha: (await defaultRef.json()).object.sha });
+        console.log(`🌿 Created sync branch ${branch}`);
+      }
+    } else if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status}`);
+    }
+
+    this.branchChecked = true;
+  }
+
+  // 📂 Files in a repository folder - an empty list when the folder doesn't exist yet
+  private async listFolder(path: string, ref: string): Promise<Array<{ name: string; sha: string }>> {
+    const response = await this.request(`${this.contentsUrl(path)}?ref=${encodeURIComponent(ref)}`);
+    if (response.status === 404) return [];
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status}`);
+    }
+
+    // A file path returns a single entry instead of a listing
+    const entries: GitHubContentEntry[] | GitHubContentEntry = await response.json();
+    return Array.isArray(entries)
+      ? entries.filter(entry => entry.type === 'file').map(entry => ({ name: entry.name, sha: entry.sha }))
+      : [];
+  }
+
+  // 📄 Get current file info
+  private async getCurrentFile(path = this.repoPath(this.config.filename)): Promise<{ sha: string } | null> {
+    try {
+      const response = await this.request(`${this.contentsUrl(path)}?ref=${encodeURIComponent(this.config.branch)}`);
+
+      if (response.ok) {
+        const fileData = await response.json();
+        return { sha: fileData.sha };
+      }
+
+      return null;
+    } catch (error) {
+      if (isRateLimitError(error)) throw error; // Uploading without the SHA would fail anyway
+      return null;
+    }
+  }
+
+  // Git object id of a file, to skip shards that didn't change
+  private async blobSha(content: string): Promise<string> {
+    const bytes = new TextEncoder().encode(content);
+    const header = new TextEncoder().encode(`blob ${bytes.length}\0`);
+    const data = new Uint8Array(header.length + bytes.length);
+    data.set(header);
+    data.set(bytes, header.length);
+
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', data));
+    return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private async git(method: string, endpoint: string, body?: unknown): Promise<any> {
+    const { owner, repo } = this.config;
+    const init: RequestInit = { method };
+    if (body !== undefined) {
+      init.headers = { 'Content-Type': 'application/json' };
+      init.body = JSON.stringify(body);
+    }
+
+    const response = await this.request(`https://api.github.com/repos/${owner}/${repo}/git/${endpoint}`, init);
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status} ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  private decodeContent(base64: string): string {
+    return decodeURIComponent(escape(atob(base64.replace(/\s/g, ''))));
+  }
+
+  private repoPath(name: string): string {
+    return this.config.path ? `${this.config.path}/${name}` : name;
+  }
+
+  private contentsUrl(path = this.repoPath(this.config.filename)): string {
+    const { owner, repo } = this.config;
+    const encoded = path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+    return `https://api.github.com/repos/${owner}/${repo}/contents/${encoded}`;
+  }
+
+  private async request(url: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${this.config.token}`,
+        'Accept': 'application/vnd.github.v3+json',
+        ...init.headers
+      }
+    });
+
+    throwIfRateLimited(response, 'GitHub');
+    return response;
+  }
+}
@@ -0,0 +1,84 @@
+// 🎚️ Intensity Zones - Working sets as % of e1RM, Prilepin's chart and INOL
+
+import type { IntensityZone, IntensityZoneVolume, PrilepinCheck, WorkoutSet } from '@types/index.js';
+
+export const INTENSITY_ZONES: Array<{ zone: IntensityZone; label: string; min: number }> = [
+  { zone: 'below_60', label: '<60%', min: 0 },
+  { zone: '60_70', label: '60-70%', min: 60 },
+  { zone: '70_80', label: '70-80%', min: 70 },
+  { zone: '80_90', label: '80-90%', min: 80 },
+  { zone: '90_plus', label: '90%+', min: 90 }
+];
+
+// Prilepin's chart per session. Its 55-65% row stands in for the 60-70% zone, and it has
+// nothing to say about lighter work.
+const PRILEPIN_CHART: Partial<Record<IntensityZone, { repsPerSet: [number, number]; optimal: number; range: [number, number] }>> = {
+  '60_70': { repsPerSet: [3, 6], optimal: 24, range: [18, 30] },
+  '70_80': { repsPerSet: [3, 6], optimal: 18, range: [12, 24] },
+  '80_90': { repsPerSet: [2, 4], optimal: 15, range: [10, 20] },
+  '90_plus': { repsPerSet: [1, 2], optimal: 7, range: [4, 10] }
+};
+
+// Sets at or above the e1RM would divide INOL by zero
+const MAX_INOL_PERCENT = 99;
+
+export function getIntensityZone(percent: number): IntensityZone {
+  let zone: IntensityZone = 'below_60';
+  for (const entry of INTENSITY_ZONES) {
+    if (percent >= entry.min) zone = entry.zone;
+  }
+  return zone;
+}
+
+export function emptyZones(): Record<IntensityZone, IntensityZoneVolume> {
+  return {
+    below_60: { sets: 0, reps: 0 },
+    '60_70': { sets: 0, reps: 0 },
+    '70_80': { sets: 0, reps: 0 },
+    '80_90': { sets: 0, reps: 0 },
+    '90_plus': { sets: 0, reps: 0 }
+  };
+}
+
+// 📊 Zone volume, INOL and Prilepin compliance of one session's working sets
+export function analyseSets(sets: WorkoutSet[], referenceOneRepMax: number): {
+  zones: Record<IntensityZone, IntensityZoneVolume>;
+  inol: number;
+  prilepin: PrilepinCheck[];
+} {
+  const zones = emptyZones();
+  const repsPerSet = new Map<IntensityZone, number[]>();
+  let inol = 0;
+
+  for (const set of sets) {
+    if (set.isWarmup || set.reps <= 0 || set.weight <= 0 || referenceOneRepMax <= 0) continue;
+
+    const percent = set.weight / referenceOneRepMax * 100;
+    const zone = getIntensityZone(percent);
+    zones[zone].sets++;
+    zones[zone].reps += set.reps;
+    repsPerSet.set(zone, [...(repsPerSet.get(zone) ?? []), set.reps]);
+    inol += set.reps / (100 - Math.min(percent, MAX_INOL_PERCENT));
+  }
+
+  const prilepin = INTENSITY_ZONES.flatMap(({ zone }): PrilepinCheck[] => {
+    const row = PRILEPIN_CHART[zone];
+    const setReps = repsPerSet.get(zone);
+    if (!row || !setReps) return [];
+
+    const [minReps, maxReps] = row.range;
+    const reps = zones[zone].reps;
+    return [{
+      zone,
+      reps,
+      optimalReps: row.optimal,
+      repRange: row.range,
+      repsPerSet: row.repsPerSet,
+      setsInRange: setReps.filter(count => count >= row.repsPerSet[0] && count <= row.repsPerSet[1]).length,
+      sets: setReps.length,
+      status: reps < minReps ? 'under' : reps > maxReps ? 'over' : 'within'
+    }];
+  });
+
+  return { zones, inol: Math.round(inol * 100) / 100, prilepin };
+}
@@ -0,0 +1,212 @@
+// 📁 Local Folder Sync Backend - Backups in a folder picked via the File System Access API
+// Point it at a folder synced by Syncthing, Nextcloud desktop, iCloud Drive, etc.
+
+import { openDB, type DBSchema } from 'idb';
+import type { SyncBackend, SyncRevision, SyncUploadInfo } from './SyncBackend.js';
+
+export interface LocalFolderConfig {
+  folderName: string;
+  filename: string;
+}
+
+// Parts of the File System Access API not yet in TypeScript's DOM typings
+interface FolderHandle extends FileSystemDirectoryHandle {
+  queryPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  values(): AsyncIterableIterator<FileSystemHandle>;
+}
+
+interface DirectoryPickerWindow {
+  showDirectoryPicker(options?: { id?: string; mode?: 'readwrite' }): Promise<FolderHandle>;
+}
+
+interface HandleStoreSchema extends DBSchema {
+  handles: {
+    key: string;
+    value: FolderHandle;
+  };
+}
+
+const HANDLE_KEY = 'local-folder';
+const REVISIONS_FOLDER = 'revisions';
+const CHANGES_FOLDER = 'changes';
+const MAX_REVISIONS = 50;
+
+export class LocalFolderBackend implements SyncBackend {
+  readonly type = 'local-folder';
+  readonly label = 'Local folder';
+  readonly sharded = false;
+  private config: LocalFolderConfig;
+  private handle: FolderHandle | null = null;
+
+  constructor(config: LocalFolderConfig) {
+    this.config = config;
+  }
+
+  static isSupported(): boolean {
+    return 'showDirectoryPicker' in window;
+  }
+
+  // 📂 Ask the user for a folder and remember it (needs a user gesture)
+  static async pickFolder(): Promise<LocalFolderConfig> {
+    if (!LocalFolderBackend.isSupported()) {
+      throw new Error('This browser does not support choosing a sync folder');
+    }
+
+    const picker = window as unknown as DirectoryPickerWindow;
+    const handle = await picker.showDirectoryPicker({ id: 'strengthlog-sync', mode: 'readwrite' });
+
+    const db = await LocalFolderBackend.openHandleStore();
+    await db.put('handles', handle, HANDLE_KEY);
+
+    return { folderName: handle.name, filename: 'strength-log-sync.json' };
+  }
+
+  static async forgetFolder(): Promise<void> {
+    const db = await LocalFolderBackend.openHandleStore();
+    await db.delete('handles', HANDLE_KEY);
+  }
+
+  isConfigured(): boolean {
+    return this.config.folderName !== '';
+  }
+
+  // 📤 Write the backup and keep a timestamped copy as a revision
+  async upload(content: string, info: SyncUploadInfo): Promise<void> {
+    const folder = await this.getFolder();
+
+    await this.writeFile(folder, this.config.filename, content);
+
+    const revisions = await folder.getDirectoryHandle(REVISIONS_FOLDER, { create: true });
+    await this.writeFile(revisions, `${info.timestamp.replace(/[:.]/g, '-')}_${info.deviceId}.json`, content);
+
+    const names = await this.listJsonNames(revisions as FolderHandle);
+    for (const name of names.slice(MAX_REVISIONS)) {
+      await revisions.removeEntry(name);
+    }
+  }
+
+  // 📥 Read the current backup
+  async download(): Promise<string | null> {
+    const folder = await this.getFolder();
+    return this.readFile(folder, this.config.filename);
+  }
+
+  // 📜 Revision copies, newest first
+  async listRevisions(limit = 30): Promise<SyncRevision[]> {
+    const revisions = await this.getSubfolder(REVISIONS_FOLDER);
+    if (!revisions) return [];
+
+    const names = await this.listJsonNames(revisions);
+    return names.slice(0, limit).map(name => {
+      const [stamp = '', device = ''] = name.replace(/\.json$/, '').split('_');
+      const revision: SyncRevision = {
+        id: name,
+        timestamp: stamp.replace(/^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, '$1:$2:$3.$4Z'),
+        message: `Backup from ${device || 'unknown device'}`
+      };
+      if (device) revision.deviceId = device;
+      return revision;
+    });
+  }
+
+  async getRevision(id: string): Promise<string | null> {
+    const revisions = await this.getSubfolder(REVISIONS_FOLDER);
+    return revisions ? this.readFile(revisions, id) : null;
+  }
+
+  // 🧬 Delta sync change-sets
+  async listChangeSets(): Promise<string[]> {
+    const changes = await this.getSubfolder(CHANGES_FOLDER);
+    return changes ? this.listJsonNames(changes) : [];
+  }
+
+  async putChangeSet(name: string, content: string): Promise<void> {
+    const folder = await this.getFolder();
+    const changes = await folder.getDirectoryHandle(CHANGES_FOLDER, { create: true });
+    await this.writeFile(changes, name, content);
+  }
+
+  async getChangeSet(name: string): Promise<string | null> {
+    const changes = await this.getSubfolder(CHANGES_FOLDER);
+    return changes ? this.readFile(changes, name) : null;
+  }
+
+  async deleteChangeSet(name: string): Promise<void> {
+    const changes = await this.getSubfolder(CHANGES_FOLDER);
+    try {
+      await changes?.removeEntry(name);
+    } catch {
+      // Already gone
+    }
+  }
+
+  // 🔐 Load the remembered folder and make sure we may still write to it
+  private async getFolder(): Promise<FolderHandle> {
+    if (!this.handle) {
+      const db = await LocalFolderBackend.openHandleStore();
+      this.handle = (await db.get('handles', HANDLE_KEY)) ?? null;
+    }
+
+    if (!this.handle) {
+      throw new Error('Sync folder not found - please choose it again');
+    }
+
+    let permission = await this.handle.queryPermission({ mode: 'readwrite' });
+    if (permission === 'prompt') {
+      permission = await this.handle.requestPermission({ mode: 'readwrite' });
+    }
+    if (permission !== 'granted') {
+      throw new Error('Access to the sync folder was not granted');
+    }
+
+    return this.handle;
+  }
+
+  private async getSubfolder(name: string): Promise<FolderHandle | null> {
+    const folder = await this.getFolder();
+    try {
+      return await folder.getDirectoryHandle(name) as FolderHandle;
+    } catch {
+      return null;
+    }
+  }
+
+  private async listJsonNames(folder: FolderHandle): Promise<string[]> {
+    const names: string[] = [];
+    for await (const entry of folder.values()) {
+      if (entry.kind === 'file' && entry.name.endsWith('.json')) {
+        names.push(entry.name);
+      }
+    }
+    return names.sort().reverse();
+  }
+
+  private async readFile(folder: FileSystemDirectoryHandle, name: string): Promise<string | null> {
+    let fileHandle: FileSystemFileHandle;
+    try {
+      fileHandle = await folder.getFileHandle(name);
+    } catch {
+      return null; // Nothing written yet
+    }
+
+    const file = await fileHandle.getFile();
+    return await file.text();
+  }
+
+  private async writeFile(folder: FileSystemDirectoryHandle, name: string, content: string): Promise<void> {
+    const fileHandle = await folder.getFileHandle(name, { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(content);
+    await writable.close();
+  }
+
+  // Directory handles can't go in localStorage, but IndexedDB can store them
+  private static openHandleStore() {
+    return openDB<HandleStoreSchema>('StrengthLogSync', 1, {
+      upgrade(db) {
+        db.createObjectStore('handles');
+      }
+    });
+  }
+}
@@ -2,6 +2,7 @@
 
 import type { Exercise, WorkoutSession, WorkoutExercise, WorkoutSet } from '@types/index.js';
 import { DataManager } from './DataManager.js';
+import { OneRepMaxEstimator } from './OneRepMax.js';
 
 // V1 Data Structures (for reference)
 interface V1Exercise {
@@ -308,19 +309,12 @@ export class MigrationManager {
     const maxWeight = Math.max(...sets.map(set => set.weight));
     const maxReps = Math.max(...sets.map(set => set.reps));
 
-    // Simple 1RM estimation using Epley formula
-    const estimatedOneRepMax = sets.reduce((best, set) => {
-      if (set.reps === 0 || set.weight === 0) return best;
-      const estimate = set.weight * (1 + set.reps / 30);
-      return Math.max(best, estimate);
-    }, 0);
-
     return {
       totalVolume,
       maxWeight,
       maxReps,
       averageRPE: undefined,
-      estimatedOneRepMax: Math.round(estimatedOneRepMax * 10) / 10,
+      estimatedOneRepMax: new OneRepMaxEstimator().bestEstimate(sets), // V1 had no formula setting
       volumePerMinute: totalVolume / 60, // Assume 60 min workout
       intensityScore: totalVolume > 0 ? (maxWeight * maxReps) / totalVolume * 100 : 0
     };
@@ -0,0 +1,61 @@
+// 🧮 One Rep Max Estimation - Shared 1RM formulas and the RPE/RIR percentage chart
+
+import type { OneRepMaxFormula, WorkoutSet } from '@types/index.js';
+
+export const ONE_REP_MAX_FORMULAS: Record<OneRepMaxFormula, { label: string; estimate: (weight: number, reps: number) => number }> = {
+  epley: { label: 'Epley', estimate: (weight, reps) => weight * (1 + reps / 30) },
+  brzycki: { label: 'Brzycki', estimate: (weight, reps) => weight * 36 / (37 - Math.min(reps, 36)) },
+  lombardi: { label: 'Lombardi', estimate: (weight, reps) => weight * Math.pow(reps, 0.1) },
+  mayhew: { label: 'Mayhew', estimate: (weight, reps) => 100 * weight / (52.2 + 41.9 * Math.exp(-0.055 * reps)) },
+  wathan: { label: 'Wathan', estimate: (weight, reps) => 100 * weight / (48.8 + 53.8 * Math.exp(-0.075 * reps)) }
+};
+
+export function getFormulaLabel(formula: OneRepMaxFormula): string {
+  return ONE_REP_MAX_FORMULAS[formula]?.label ?? formula;
+}
+
+// % of 1RM by reps + reps in reserve, in half-rep steps from 1 (a true single at RPE 10)
+// up to 16 (12 reps at RPE 6)
+const PERCENT_BY_EFFORT = [
+  100, 97.8, 95.5, 93.9, 92.2, 90.7, 89.2, 87.8, 86.3, 85.0, 83.7, 82.4, 81.1, 79.9, 78.6, 77.4,
+  76.2, 75.1, 73.9, 72.3, 70.7, 69.4, 68.0, 66.7, 65.3, 64.0, 62.6, 61.3, 59.9, 58.6, 57.3
+];
+
+export const RPE_CHART_MIN_RPE = 6;
+export const RPE_CHART_MAX_REPS = 12;
+
+// 📊 % of 1RM a set of reps at an RPE represents (RIR = 10 - RPE). Null outside the chart.
+export function getRPEPercentage(rpe: number, reps: number): number | null {
+  if (!Number.isInteger(reps) || reps < 1 || reps > RPE_CHART_MAX_REPS) return null;
+  if (rpe < RPE_CHART_MIN_RPE || rpe > 10 || !Number.isInteger(rpe * 2)) return null;
+
+  const effort = reps + (10 - rpe);
+  return PERCENT_BY_EFFORT[(effort - 1) * 2] ?? null;
+}
+
+export class OneRepMaxEstimator {
+  readonly formula: OneRepMaxFormula;
+
+  constructor(formula: OneRepMaxFormula = 'epley') {
+    this.formula = ONE_REP_MAX_FORMULAS[formula] ? formula : 'epley';
+  }
+
+  // 🎯 Estimated 1RM of a single set - the RPE chart wins over the formula when it covers the set
+  estimate(weight: number, reps: number, rpe?: number): number {
+    if (reps <= 0 || weight <= 0) return 0;
+
+    if (rpe !== undefined) {
+      const percentage = getRPEPercentage(rpe, reps);
+      if (percentage !== null) return weight / (percentage / 100);
+    }
+
+    if (reps === 1) return weight;
+    return ONE_REP_MAX_FORMULAS[this.formula].estimate(weight, reps);
+  }
+
+  // 🏆 Best estimate across sets, rounded to 1 decimal
+  bestEstimate(sets: Array<Pick<WorkoutSet, 'weight' | 'reps' | 'rpe'>>): number {
+    const best = sets.reduce((max, set) => Math.max(max, this.estimate(set.weight, set.reps, set.rpe)), 0);
+    return Math.round(best * 10) / 10;
+  }
+}
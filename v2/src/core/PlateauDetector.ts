@@ -0,0 +1,176 @@
+// 🧭 Plateau & Deload Detection - Stalled lifts, creeping effort at the same load and sagging mood
+
+import type {
+  Recommendation,
+  RecommendationEvidence,
+  WorkoutExercise,
+  WorkoutSession,
+  WorkoutSet
+} from '@types/index.js';
+import { OneRepMaxEstimator } from './OneRepMax.js';
+
+export interface PlateauDetectorOptions {
+  stallWeeks: number; // weeks without a new e1RM best before a lift counts as stalled
+  rpeRise: number; // RPE increase at an unchanged load that signals accumulating fatigue
+  moodDrop: number; // drop in average mood (1-5) between the halves of the mood window
+  moodWindowWeeks: number;
+}
+
+export const DEFAULT_PLATEAU_OPTIONS: PlateauDetectorOptions = {
+  stallWeeks: 3,
+  rpeRise: 1,
+  moodDrop: 1,
+  moodWindowWeeks: 4
+};
+
+const DELOAD_PERCENT = 10;
+const MIN_SESSIONS = 3; // before any signal is trusted
+const ACTIVE_WEEKS = 4; // lifts not trained for longer than this are left alone
+const HIGH_EFFORT_RPE = 9; // stalled lifts this close to failure need rest rather than variety
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ExerciseSession = { workout: WorkoutSession; exercise: WorkoutExercise };
+
+export class PlateauDetector {
+  private options: PlateauDetectorOptions;
+
+  constructor(private oneRepMax: OneRepMaxEstimator, options: Partial<PlateauDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_PLATEAU_OPTIONS, ...options };
+  }
+
+  // 🔍 Signals for one exercise. Sessions must be in date order.
+  detectExercise(exerciseId: string, name: string, sessions: ExerciseSession[], date: string): Recommendation[] {
+    const last = sessions[sessions.length - 1];
+    if (sessions.length < MIN_SESSIONS || !last || weeksBetween(last.workout.date, date) > ACTIVE_WEEKS) return [];
+
+    return [
+      this.detectStall(exerciseId, name, sessions),
+      this.detectRisingRPE(exerciseId, name, sessions)
+    ].filter((recommendation): recommendation is Recommendation => recommendation !== null);
+  }
+
+  // 😔 Average mood falling across the recent window of workouts
+  detectMood(workouts: WorkoutSession[], date: string): Recommendation | null {
+    const window = workouts
+      .filter(workout => workout.date <= date && weeksBetween(workout.date, date) <= this.options.moodWindowWeeks)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (window.length < MIN_SESSIONS + 1) return null;
+
+    const half = Math.floor(window.length / 2);
+    const earlier = average(window.slice(0, half).map(workout => workout.mood));
+    const later = average(window.slice(-half).map(workout => workout.mood));
+    if (earlier - later < this.options.moodDrop) return null;
+
+    // Keyed on the best session before the slide, so the id stays put while the window moves
+    const peak = window.slice(0, half).reduce((best, workout) => workout.mood >= best.mood ? workout : best);
+
+    return {
+      id: `falling_mood:${peak.date}`,
+      type: 'falling_mood',
+      severity: later <= 2 ? 'warning' : 'info',
+      exerciseId: null,
+      title: `Workout mood dropped from ${round(earlier, 0.1)} to ${round(later, 0.1)} over ${this.options.moodWindowWeeks} weeks`,
+      action: `Deload for one week: take ${DELOAD_PERCENT}% off your working weights and drop a set from each exercise`,
+      evidence: window.map(workout => ({ date: workout.date, metric: 'mood', value: workout.mood }))
+    };
+  }
+
+  // 📉 No new e1RM best for stallWeeks, with at least two sessions since to back it up
+  private detectStall(exerciseId: string, name: string, sessions: ExerciseSession[]): Recommendation | null {
+    const estimates = sessions.map(({ workout, exercise }) => ({
+      date: workout.date,
+      value: this.oneRepMax.bestEstimate(workingSets(exercise.sets))
+    }));
+
+    const bestIndex = estimates.reduce((best, entry, i) => entry.value > estimates[best]!.value ? i : best, 0);
+    const best = estimates[bestIndex]!;
+    const since = estimates.slice(bestIndex);
+    const stalledWeeks = Math.floor(weeksBetween(best.date, since[since.length - 1]!.date));
+    if (best.value <= 0 || since.length < MIN_SESSIONS || stalledWeeks < this.options.stallWeeks) return null;
+
+    const recentRPE = sessions.slice(bestIndex + 1).flatMap(({ exercise }) => {
+      const rpe = topSet(exercise.sets)?.rpe;
+      return rpe === undefined ? [] : [rpe];
+    });
+    const topSetWeight = topSet(sessions[sessions.length - 1]!.exercise.sets)?.weight ?? 0;
+
+    const action = recentRPE.length > 0 && average(recentRPE) >= HIGH_EFFORT_RPE
+      ? `Deload ${DELOAD_PERCENT}% for one week (${deloadWeight(topSetWeight)}kg), then build back up`
+      : `Switch rep range: ${this.suggestRepRange(sessions.slice(bestIndex))} reps for the next 3-4 weeks`;
+
+    return {
+      id: `plateau:${exerciseId}:${best.date}`,
+      type: 'plateau',
+      severity: stalledWeeks >= this.options.stallWeeks * 2 ? 'warning' : 'info',
+      exerciseId,
+      title: `${name} has not beaten its ${best.value}kg e1RM for ${stalledWeeks} weeks`,
+      action,
+      evidence: since.map(entry => ({ date: entry.date, metric: 'e1rm', value: entry.value }))
+    };
+  }
+
+  // 🥵 Same top-set weight session after session, reported harder each time
+  private detectRisingRPE(exerciseId: string, name: string, sessions: ExerciseSession[]): Recommendation | null {
+    const topSets = sessions.map(({ workout, exercise }) => ({ date: workout.date, set: topSet(exercise.sets) }));
+    const load = topSets[topSets.length - 1]!.set?.weight;
+    if (!load) return null;
+
+    // Most recent run of sessions at this load that logged an RPE
+    const run: RecommendationEvidence[] = [];
+    for (let i = topSets.length - 1; i >= 0; i--) {
+      const { date, set } = topSets[i]!;
+      if (set?.weight !== load || set.rpe === undefined) break;
+      run.unshift({ date, metric: 'rpe', value: set.rpe, weight: load });
+    }
+
+    const first = run[0];
+    const latest = run[run.length - 1];
+    if (run.length < MIN_SESSIONS || !first || !latest || latest.value - first.value < this.options.rpeRise) return null;
+
+    return {
+      id: `rising_rpe:${exerciseId}:${load}:${first.date}`,
+      type: 'rising_rpe',
+      severity: latest.value >= 9.5 ? 'critical' : 'warning',
+      exerciseId,
+      title: `${name} at ${load}kg went from RPE ${first.value} to ${latest.value} in ${run.length} sessions`,
+      action: `Deload ${DELOAD_PERCENT}% for one week (${deloadWeight(load)}kg), then return to ${load}kg`,
+      evidence: run
+    };
+  }
+
+  // 🔁 Move away from the rep range the stalled sessions were done in
+  private suggestRepRange(sessions: ExerciseSession[]): string {
+    const reps = sessions
+      .map(({ exercise }) => topSet(exercise.sets)?.reps ?? 0)
+      .sort((a, b) => a - b);
+    const typical = reps[Math.floor(reps.length / 2)] ?? 0;
+
+    return typical > 5 && typical <= 10 ? '3-5' : '6-8';
+  }
+}
+
+function workingSets(sets: WorkoutSet[]): WorkoutSet[] {
+  return sets.filter(set => !set.isWarmup && set.reps > 0);
+}
+
+// Heaviest working set, the most reps breaking ties
+function topSet(sets: WorkoutSet[]): WorkoutSet | undefined {
+  return workingSets(sets).reduce<WorkoutSet | undefined>((top, set) =>
+    !top || set.weight > top.weight || (set.weight === top.weight && set.reps > top.reps) ? set : top, undefined);
+}
+
+function deloadWeight(weight: number): number {
+  return round(weight * (1 - DELOAD_PERCENT / 100), 2.5);
+}
+
+function weeksBetween(from: string, to: string): number {
+  return (Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / (7 * DAY_MS);
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number, step: number): number {
+  return Math.round(Math.round(value / step) * step * 10) / 10;
+}
@@ -0,0 +1,190 @@
+// 🗓️ Program Engine - Prescribes each session of a periodised program and advances training maxes
+
+import type {
+  Exercise,
+  ProgramDay,
+  ProgramDefinition,
+  ProgramSession,
+  ProgramState,
+  TrainingMaxChange,
+  WorkoutExercise,
+  WorkoutSession
+} from '@types/index.js';
+import { createPrescribedExercise } from './WorkoutTemplates.js';
+
+const LOAD_ROUNDING = 2.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ProgramEngine {
+  readonly program: ProgramDefinition;
+  private days: Array<{ week: string; day: ProgramDay }>;
+
+  constructor(program: ProgramDefinition) {
+    this.program = program;
+    this.days = program.weeks.flatMap(week => week.days.map(day => ({ week: week.name, day })));
+  }
+
+  get sessionsPerCycle(): number {
+    return this.days.length;
+  }
+
+  // 🚀 Start the program - training maxes default to a share of each exercise's estimated 1RM
+  createState(options: {
+    startDate: string;
+    exercises: Exercise[];
+    trainingDays?: number[];
+    exerciseIds?: Record<string, string | null>;
+    trainingMaxes?: Record<string, number>;
+  }): ProgramState {
+    const exerciseIds = { ...this.guessExercises(options.exercises), ...options.exerciseIds };
+
+    return {
+      programId: this.program.id,
+      startDate: options.startDate,
+      trainingDays: options.trainingDays ?? this.program.defaultTrainingDays,
+      exerciseIds,
+      trainingMaxes: Object.fromEntries(this.program.lifts.map(lift => {
+        const oneRepMax = options.exercises.find(exercise => exercise.id === exerciseIds[lift.id])
+          ?.personalBests.estimatedOneRepMax.value ?? 0;
+        return [lift.id, options.trainingMaxes?.[lift.id] ?? this.round(oneRepMax * lift.trainingMaxPercent / 100)];
+      })),
+      stages: Object.fromEntries(this.program.lifts.map(lift => [lift.id, 0])),
+      failures: {},
+      position: 0
+    };
+  }
+
+  // 🔎 First exercise named after each lift
+  guessExercises(exercises: Exercise[]): Record<string, string | null> {
+    return Object.fromEntries(this.program.lifts.map(lift => {
+      const pattern = new RegExp(lift.pattern, 'i');
+      return [lift.id, exercises.find(exercise => pattern.test(exercise.name))?.id ?? null];
+    }));
+  }
+
+  // 📋 Sets and loads of a session from the current training maxes
+  prescribe(state: ProgramState, position: number = state.position): ProgramSession {
+    const { week, day } = this.days[position % this.sessionsPerCycle]!;
+
+    return {
+      position,
+      cycle: Math.floor(position / this.sessionsPerCycle) + 1,
+      week,
+      day: day.name,
+      exercises: day.slots.map(slot => {
+        const stage = slot.stages[Math.min(state.stages[slot.lift] ?? 0, slot.stages.length - 1)] ?? [];
+        const trainingMax = state.trainingMaxes[slot.lift] ?? 0;
+
+        return {
+          lift: slot.lift,
+          exerciseId: state.exerciseIds[slot.lift] ?? null,
+          sets: stage.map(set => ({
+            weight: this.round(trainingMax * set.percent / 100),
+            reps: set.reps,
+            amrap: set.amrap === true
+          }))
+        };
+      })
+    };
+  }
+
+  // 🏗️ Pre-filled exercises for the form - lifts without an exercise are left out
+  buildExercises(session: ProgramSession, restTime: number): WorkoutExercise[] {
+    return session.exercises.flatMap(exercise => exercise.exerciseId === null ? [] : [
+      createPrescribedExercise(exercise.exerciseId, restTime,
+        exercise.sets.map(({ weight, reps, amrap }) => ({ weight, reps, isAmrap: amrap })))
+    ]);
+  }
+
+  // 📈 Judge a logged session against its prescription and move the program on. A lift succeeds
+  // when every prescribed set was matched in order by a working set of at least its weight and reps.
+  advance(state: ProgramState, workout: WorkoutSession): { state: ProgramState; changes: TrainingMaxChange[] } {
+    const next: ProgramState = {
+      ...state,
+      trainingMaxes: { ...state.trainingMaxes },
+      stages: { ...state.stages },
+      failures: { ...state.failures },
+      position: state.position + 1
+    };
+    const changes: TrainingMaxChange[] = [];
+    const progressing = this.program.progression.frequency === 'session';
+
+    for (const exercise of this.prescribe(state).exercises) {
+      if (exercise.exerciseId === null) continue;
+
+      const logged = workout.exercises
+        .find(workoutExercise => workoutExercise.exerciseId === exercise.exerciseId)
+        ?.sets.filter(set => !set.isWarmup) ?? [];
+      const succeeded = exercise.sets.every((set, index) =>
+        (logged[index]?.weight ?? 0) >= set.weight && (logged[index]?.reps ?? 0) >= set.reps);
+
+      if (!progressing) {
+        if (!succeeded) next.failures[exercise.lift] = true;
+      } else if (succeeded) {
+        this.progress(next, exercise.lift, changes);
+      } else {
+        this.fail(next, exercise.lift, changes);
+      }
+    }
+
+    // Cycle programs settle every lift once the last session of the cycle is done
+    if (!progressing && next.position % this.sessionsPerCycle === 0) {
+      for (const lift of this.program.lifts) {
+        if (next.failures[lift.id]) this.fail(next, lift.id, changes);
+        else this.progress(next, lift.id, changes);
+      }
+      next.failures = {};
+    }
+
+    return { state: next, changes };
+  }
+
+  // 📅 Upcoming sessions on the training days, from a date onwards
+  schedule(state: ProgramState, from: string, count: number): Array<{ date: string; session: ProgramSession }> {
+    if (state.trainingDays.length === 0) return [];
+
+    const upcoming: Array<{ date: string; session: ProgramSession }> = [];
+    let day = Date.parse((from > state.startDate ? from : state.startDate).slice(0, 10));
+
+    while (upcoming.length < count) {
+      if (state.trainingDays.includes(new Date(day).getUTCDay())) {
+        upcoming.push({
+          date: new Date(day).toISOString().slice(0, 10),
+          session: this.prescribe(state, state.position + upcoming.length)
+        });
+      }
+      day += DAY_MS;
+    }
+    return upcoming;
+  }
+
+  private progress(state: ProgramState, lift: string, changes: TrainingMaxChange[]): void {
+    const increment = this.program.lifts.find(entry => entry.id === lift)?.increment ?? 0;
+    const from = state.trainingMaxes[lift] ?? 0;
+    state.trainingMaxes[lift] = from + increment;
+    changes.push({ lift, from, to: from + increment, reason: 'progress' });
+  }
+
+  // Move on to the next set scheme at the same load, or cut the training max and start over
+  private fail(state: ProgramState, lift: string, changes: TrainingMaxChange[]): void {
+    const stageCount = Math.max(1, ...this.days.flatMap(({ day }) =>
+      day.slots.filter(slot => slot.lift === lift).map(slot => slot.stages.length)));
+    const from = state.trainingMaxes[lift] ?? 0;
+    const stage = state.stages[lift] ?? 0;
+
+    if (stage + 1 < stageCount) {
+      state.stages[lift] = stage + 1;
+      changes.push({ lift, from, to: from, reason: 'next_stage' });
+      return;
+    }
+
+    const to = this.round(from * (1 - this.program.progression.deloadPercent / 100));
+    state.stages[lift] = 0;
+    state.trainingMaxes[lift] = to;
+    changes.push({ lift, from, to, reason: 'deload' });
+  }
+
+  private round(weight: number): number {
+    return Math.round(weight / LOAD_ROUNDING) * LOAD_ROUNDING;
+  }
+}
@@ -0,0 +1,99 @@
+// 🎯 Progression Suggestions - The next session's load and reps for an exercise from its history
+
+import type {
+  EquipmentType,
+  Exercise,
+  ProgressionModel,
+  ProgressionSettings,
+  ProgressionSuggestion,
+  WorkoutSession,
+  WorkoutSet
+} from '@types/index.js';
+import { OneRepMaxEstimator, getRPEPercentage, RPE_CHART_MAX_REPS } from './OneRepMax.js';
+
+// Smallest load jump each kind of equipment allows - 0 means progress on reps only
+export const EQUIPMENT_INCREMENTS: Record<EquipmentType, number> = {
+  bodyweight: 0,
+  barbell: 2.5,
+  dumbbell: 2,
+  kettlebell: 4,
+  machine: 5,
+  cable: 2.5,
+  resistance_band: 0,
+  other: 2.5
+};
+
+export const PROGRESSION_MODELS: Record<ProgressionModel, string> = {
+  double: 'Double progression',
+  increment: 'Fixed increment',
+  rpe: 'RPE target'
+};
+
+// 🔮 Suggest the working sets of the next session from the most recent one. Null without history.
+export function suggestNextSession(
+  exercise: Exercise,
+  workouts: WorkoutSession[],
+  settings: ProgressionSettings,
+  estimator: OneRepMaxEstimator = new OneRepMaxEstimator()
+): ProgressionSuggestion | null {
+  const last = lastSession(exercise.id, workouts);
+  if (!last) return null;
+
+  const weight = Math.max(...last.sets.map(set => set.weight));
+  const topSets = last.sets.filter(set => set.weight === weight);
+  const lowestReps = Math.min(...topSets.map(set => set.reps));
+  const bestReps = Math.max(...topSets.map(set => set.reps));
+  const increment = EQUIPMENT_INCREMENTS[exercise.equipmentType] ?? 0;
+  const base = { model: settings.model, sets: topSets.length, basedOn: last.date };
+
+  if (increment === 0) {
+    return { ...base, weight, reps: lowestReps + 1, reason: 'No load steps for this equipment - one more rep per set' };
+  }
+
+  switch (settings.model) {
+    case 'increment': {
+      const completed = lowestReps === bestReps && !topSets.some(set => set.isFailure);
+      return completed
+        ? { ...base, weight: weight + increment, reps: bestReps, reason: `All sets completed - add ${increment}kg` }
+        : { ...base, weight, reps: bestReps, reason: 'Missed reps last time - repeat the load' };
+    }
+
+    case 'rpe': {
+      const reps = Math.min(bestReps, RPE_CHART_MAX_REPS);
+      const oneRepMax = estimator.bestEstimate(last.sets);
+      const percentage = getRPEPercentage(settings.targetRpe, reps);
+      if (percentage === null || oneRepMax === 0) {
+        return { ...base, weight, reps, reason: 'Outside the RPE chart - repeat the load' };
+      }
+      return {
+        ...base,
+        weight: Math.round(oneRepMax * percentage / 100 / increment) * increment,
+        reps,
+        reason: `${reps} reps at RPE ${settings.targetRpe} from an estimated 1RM of ${oneRepMax}kg`
+      };
+    }
+
+    // Double progression
+    default: {
+      const { min, max } = settings.repRange;
+      if (lowestReps >= max) {
+        return { ...base, weight: weight + increment, reps: min, reason: `Every set reached ${max} reps - add ${increment}kg and start again at ${min}` };
+      }
+      return { ...base, weight, reps: Math.min(max, Math.max(min, lowestReps + 1)), reason: `Build every set up to ${max} reps before adding load` };
+    }
+  }
+}
+
+// Working sets of the latest session that has any for the exercise
+function lastSession(exerciseId: string, workouts: WorkoutSession[]): { date: string; sets: WorkoutSet[] } | null {
+  const sorted = [...workouts].sort((a, b) => b.date.localeCompare(a.date) || b.startTime.localeCompare(a.startTime));
+
+  for (const workout of sorted) {
+    const sets = workout.exercises
+      .filter(exercise => exercise.exerciseId === exerciseId)
+      .flatMap(exercise => exercise.sets)
+      .filter(set => !set.isWarmup && set.reps > 0);
+    if (sets.length > 0) return { date: workout.date, sets };
+  }
+  return null;
+}
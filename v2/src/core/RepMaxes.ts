@@ -0,0 +1,37 @@
+// 🏅 Rep Maxes - Heaviest weight lifted for each rep count from 1 to 20
+
+import type { RepMax, WorkoutSession, WorkoutSet } from '@types/index.js';
+
+export const MAX_TRACKED_REPS = 20;
+
+export class RepMaxTracker {
+  private records = new Map<number, RepMax>();
+
+  // 📥 Feed sessions in date order. Returns the rep-maxes this session beat: a set is a PR
+  // when it is heavier than anything lifted before for at least as many reps.
+  add(workout: WorkoutSession, sets: WorkoutSet[]): RepMax[] {
+    const heaviest = new Map<number, number>();
+    for (const set of sets) {
+      if (set.isWarmup || set.weight <= 0 || set.reps < 1 || set.reps > MAX_TRACKED_REPS) continue;
+      heaviest.set(set.reps, Math.max(heaviest.get(set.reps) ?? 0, set.weight));
+    }
+
+    const previous = [...this.records.values()];
+    const prs: RepMax[] = [];
+
+    for (const [reps, weight] of heaviest) {
+      const record = { reps, weight, date: workout.date, workoutId: workout.id };
+      const bestBefore = Math.max(0, ...previous.filter(entry => entry.reps >= reps).map(entry => entry.weight));
+
+      if (previous.some(entry => entry.reps >= reps) && weight > bestBefore) prs.push(record);
+      if (weight > (this.records.get(reps)?.weight ?? 0)) this.records.set(reps, record);
+    }
+
+    return prs.sort((a, b) => a.reps - b.reps);
+  }
+
+  // 📋 The table so far, lowest rep count first
+  table(): RepMax[] {
+    return [...this.records.values()].sort((a, b) => a.reps - b.reps);
+  }
+}
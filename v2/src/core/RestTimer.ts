@@ -0,0 +1,67 @@
+// ⏱️ Rest Timer - Counts down from timestamps so throttled or backgrounded tabs stay accurate
+
+export interface RestTaken {
+  setId: string;
+  seconds: number;
+}
+
+export class RestTimer {
+  private setId: string | null = null;
+  private startedAt = 0;
+  private duration = 0;
+  private expiryAnnounced = false;
+
+  get isRunning(): boolean {
+    return this.setId !== null;
+  }
+
+  // ▶️ Start resting after a set - returns the rest taken after the previous set if it was still running
+  start(setId: string, durationSeconds: number, now: number = Date.now()): RestTaken | null {
+    const previous = this.stop(now);
+
+    this.setId = setId;
+    this.startedAt = now;
+    this.duration = durationSeconds;
+    this.expiryAnnounced = false;
+    return previous;
+  }
+
+  // ⏹️ Stop and report how long the rest actually lasted
+  stop(now: number = Date.now()): RestTaken | null {
+    if (this.setId === null) return null;
+
+    const taken = { setId: this.setId, seconds: this.elapsed(now) };
+    this.setId = null;
+    return taken;
+  }
+
+  // 🔁 Count down the full duration again from now
+  reset(now: number = Date.now()): void {
+    if (this.setId === null) return;
+    this.startedAt = now;
+    this.expiryAnnounced = false;
+  }
+
+  elapsed(now: number = Date.now()): number {
+    return this.setId === null ? 0 : Math.max(0, Math.round((now - this.startedAt) / 1000));
+  }
+
+  // Negative once the rest has run over
+  remaining(now: number = Date.now()): number {
+    return this.duration - this.elapsed(now);
+  }
+
+  // 🔔 True exactly once per rest, on the first check after it ran out
+  takeExpiry(now: number = Date.now()): boolean {
+    if (this.setId === null || this.expiryAnnounced || this.remaining(now) > 0) return false;
+    this.expiryAnnounced = true;
+    return true;
+  }
+}
+
+// 1:30 while counting down, +0:15 once over
+export function formatRestTime(seconds: number): string {
+  const absolute = Math.abs(seconds);
+  const time = `${Math.floor(absolute / 60)}:${String(absolute % 60).padStart(2, '0')}`;
+  return seconds < 0 ? `+${time}` : time;
+}
@@ -0,0 +1,113 @@
+// 🏋️ Strength Scores - Bodyweight-normalised totals (Wilks, DOTS, IPF GL) and bodyweight smoothing
+
+import type { BodyweightEntry, BodyweightTrendPoint, Exercise, CompetitionLift, Sex } from '@types/index.js';
+
+// Original Wilks polynomial, a-f by ascending power of bodyweight
+const WILKS: Record<Sex, { coefficients: number[]; min: number; max: number }> = {
+  male: {
+    coefficients: [-216.0475144, 16.2606339, -0.002388645, -0.00113732, 7.01863e-6, -1.291e-8],
+    min: 40,
+    max: 201.9
+  },
+  female: {
+    coefficients: [594.31747775582, -27.23842536447, 0.82112226871, -0.00930733913, 4.731582e-5, -9.054e-8],
+    min: 26.51,
+    max: 154.53
+  }
+};
+
+const DOTS: Record<Sex, { coefficients: number[]; min: number; max: number }> = {
+  male: {
+    coefficients: [-307.75076, 24.0900756, -0.1918759221, 0.0007391293, -0.000001093],
+    min: 40,
+    max: 210
+  },
+  female: {
+    coefficients: [-57.96288, 13.6175032, -0.1126655495, 0.0005158568, -0.0000010706],
+    min: 40,
+    max: 150
+  }
+};
+
+// IPF GoodLift points for classic (raw) three-lift totals
+const IPF_GL: Record<Sex, { a: number; b: number; c: number }> = {
+  male: { a: 1199.72839, b: 1025.18162, c: 0.00921 },
+  female: { a: 610.32796, b: 1045.59282, c: 0.03048 }
+};
+
+// Share of the gap to each new weigh-in the trend closes per day
+const BODYWEIGHT_SMOOTHING = 0.1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LIFT_NAME_PATTERNS: Record<CompetitionLift, RegExp> = {
+  squat: /squat/i,
+  bench: /bench/i,
+  deadlift: /deadlift/i
+};
+
+export function wilks(total: number, bodyweight: number, sex: Sex): number {
+  const { coefficients, min, max } = WILKS[sex];
+  return score(total, 500 / polynomial(coefficients, clamp(bodyweight, min, max)));
+}
+
+export function dots(total: number, bodyweight: number, sex: Sex): number {
+  const { coefficients, min, max } = DOTS[sex];
+  return score(total, 500 / polynomial(coefficients, clamp(bodyweight, min, max)));
+}
+
+export function ipfGL(total: number, bodyweight: number, sex: Sex): number {
+  const { a, b, c } = IPF_GL[sex];
+  return score(total, 100 / (a - b * Math.exp(-c * bodyweight)));
+}
+
+// 📉 Exponentially smoothed bodyweight - gaps between weigh-ins count as the days they span
+export function smoothBodyweight(entries: BodyweightEntry[]): BodyweightTrendPoint[] {
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  let trend = sorted[0]?.weight ?? 0;
+  let previousDay = sorted[0] ? dayTime(sorted[0].date) : 0;
+
+  return sorted.map(entry => {
+    const days = Math.max(1, (dayTime(entry.date) - previousDay) / DAY_MS);
+    trend += (1 - Math.pow(1 - BODYWEIGHT_SMOOTHING, days)) * (entry.weight - trend);
+    previousDay = dayTime(entry.date);
+
+    return { date: entry.date, weight: entry.weight, trend: Math.round(trend * 10) / 10 };
+  });
+}
+
+// ⚖️ Trend bodyweight on a date - the latest weigh-in before it, or the first one ever
+export function bodyweightOn(trend: BodyweightTrendPoint[], date: string): number | null {
+  let value = trend[0]?.trend ?? null;
+  for (const point of trend) {
+    if (point.date > date) break;
+    value = point.trend;
+  }
+  return value;
+}
+
+// 🔎 Competition lifts picked in settings, falling back to the first exercise named after each
+export function resolveCompetitionLifts(
+  exercises: Exercise[],
+  chosen: Record<CompetitionLift, string | null>
+): Record<CompetitionLift, string | null> {
+  const resolve = (lift: CompetitionLift) =>
+    chosen[lift] ?? exercises.find(exercise => LIFT_NAME_PATTERNS[lift].test(exercise.name))?.id ?? null;
+
+  return { squat: resolve('squat'), bench: resolve('bench'), deadlift: resolve('deadlift') };
+}
+
+function polynomial(coefficients: number[], x: number): number {
+  return coefficients.reduce((sum, coefficient, power) => sum + coefficient * Math.pow(x, power), 0);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function score(total: number, coefficient: number): number {
+  return total > 0 ? Math.round(total * coefficient * 100) / 100 : 0;
+}
+
+function dayTime(date: string): number {
+  return Date.parse(date.slice(0, 10));
+}
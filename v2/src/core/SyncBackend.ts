@@ -0,0 +1,108 @@
+// 🔌 Sync Backend Interface - Where cloud copies of the data live
+
+import type { Exercise, WorkoutSession } from '@types/index.js';
+
+export type SyncBackendType = 'github' | 'webdav' | 'local-folder';
+
+// The payload every backend stores
+export interface BackupData {
+  exercises: Exercise[];
+  workouts: WorkoutSession[];
+  lastSync: string;
+  version: string;
+  deviceId: string;
+  clock?: Record<string, number>; // Change-sets already contained in this snapshot (delta sync)
+}
+
+export interface SyncRevision {
+  id: string;
+  timestamp: string;
+  message: string;
+  deviceId?: string; // Device that made the upload, when the backend records it
+}
+
+export interface SyncUploadInfo {
+  message: string;
+  timestamp: string;
+  deviceId: string;
+}
+
+// Backends only move serialized payloads around - encryption and parsing happen in SyncManager
+export interface SyncBackend {
+  readonly type: SyncBackendType;
+  readonly label: string;
+
+  // Sharded backends store the snapshot as several files - their upload/download content is
+  // a JSON object mapping each file name to its (separately encoded) content
+  readonly sharded: boolean;
+
+  isConfigured(): boolean;
+
+  // Replace the current copy; throws when the upload fails
+  upload(content: string, info: SyncUploadInfo): Promise<void>;
+
+  // Current copy, or null when nothing has been uploaded yet
+  download(): Promise<string | null>;
+
+  // Earlier uploads, newest first
+  listRevisions(limit?: number): Promise<SyncRevision[]>;
+  getRevision(id: string): Promise<string | null>;
+
+  // Delta sync change-sets, kept in a folder next to the main copy. putChangeSet replaces an existing file.
+  listChangeSets(): Promise<string[]>;
+  putChangeSet(name: string, content: string): Promise<void>;
+  getChangeSet(name: string): Promise<string | null>;
+  deleteChangeSet(name: string): Promise<void>;
+}
+
+// ✅ Validate downloaded backup data
+export function isBackupData(data: any): data is BackupData {
+  return (
+    data &&
+    typeof data === 'object' &&
+    Array.isArray(data.exercises) &&
+    Array.isArray(data.workouts) &&
+    typeof data.lastSync === 'string' &&
+    typeof data.version === 'string'
+  );
+}
+
+// 🚦 Throw when the server is rate limiting us. The error carries how long the server
+// asked us to wait (ms) so the sync queue can back off.
+export function throwIfRateLimited(response: Response, label: string): void {
+  const retryAfter = getRetryDelay(response);
+  const limited = response.status === 429 ||
+    ((response.status === 403 || response.status === 503) && retryAfter !== null);
+
+  if (limited) {
+    throw Object.assign(new Error(`${label} rate limit reached`), { retryAfter });
+  }
+}
+
+export function getErrorRetryDelay(error: unknown): number | null {
+  const retryAfter = (error as { retryAfter?: unknown } | null)?.retryAfter;
+  return typeof retryAfter === 'number' ? retryAfter : null;
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'retryAfter' in error;
+}
+
+// Retry-After (seconds or HTTP date), or GitHub's x-ratelimit-* headers
+function getRetryDelay(response: Response): number | null {
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const reset = Number(response.headers.get('x-ratelimit-reset'));
+  if (response.headers.get('x-ratelimit-remaining') === '0' && reset > 0) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  return null;
+}
@@ -0,0 +1,180 @@
+// 🔐 Sync Encryption - Passphrase-based end-to-end encryption of sync payloads
+
+export interface EncryptedPayload {
+  encrypted: true;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+// Keys are stored per salt so revisions encrypted before a rotation stay readable on this device
+interface StoredKeys {
+  enabled: boolean;
+  currentSalt: string;
+  keys: Record<string, { iterations: number; key: string }>;
+}
+
+const STORAGE_KEY = 'sync-encryption';
+const DEFAULT_ITERATIONS = 310000;
+
+export class SyncCrypto {
+  private iterations: number;
+  private stored: StoredKeys | null = null;
+
+  constructor(iterations = DEFAULT_ITERATIONS) {
+    this.iterations = iterations;
+    this.loadKeys();
+  }
+
+  static isEncrypted(value: unknown): value is EncryptedPayload {
+    return typeof value === 'object' && value !== null && (value as EncryptedPayload).encrypted === true;
+  }
+
+  isEnabled(): boolean {
+    return this.stored?.enabled === true;
+  }
+
+  canDecrypt(payload: EncryptedPayload): boolean {
+    return this.stored?.keys[payload.kdf.salt] !== undefined;
+  }
+
+  // 🔑 Start encrypting with a new passphrase (also used to rotate keys)
+  async setPassphrase(passphrase: string): Promise<void> {
+    const salt = this.toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    const key = await this.deriveKey(passphrase, salt, this.iterations);
+    await this.storeKey(salt, this.iterations, key);
+  }
+
+  // 🔓 Adopt the passphrase another device encrypted the payload with
+  async unlock(passphrase: string, payload: EncryptedPayload): Promise<void> {
+    const { salt, iterations } = payload.kdf;
+    const key = await this.deriveKey(passphrase, salt, iterations);
+
+    try {
+      await this.decryptWith(key, payload);
+    } catch {
+      throw new Error('Wrong passphrase - the sync data could not be decrypted');
+    }
+
+    await this.storeKey(salt, iterations, key);
+  }
+
+  async verifyPassphrase(passphrase: string): Promise<boolean> {
+    const current = this.stored?.keys[this.stored.currentSalt];
+    if (!this.stored || !current) return false;
+
+    const key = await this.deriveKey(passphrase, this.stored.currentSalt, current.iterations);
+    const raw = this.toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+    return raw === current.key;
+  }
+
+  // Stop encrypting new uploads but keep the keys so older data stays readable
+  disable(): void {
+    if (!this.stored) return;
+    this.stored.enabled = false;
+    this.saveKeys();
+  }
+
+  forget(): void {
+    this.stored = null;
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  // 🔒 Encrypt with the current key
+  async encrypt(plaintext: string): Promise<EncryptedPayload> {
+    const current = this.stored?.keys[this.stored.currentSalt];
+    if (!this.stored || !current) throw new Error('Sync encryption is not set up');
+
+    const key = await this.importKey(current.key);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+    return {
+      encrypted: true,
+      version: 1,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: current.iterations, salt: this.stored.currentSalt },
+      cipher: { name: 'AES-GCM', iv: this.toBase64(iv) },
+      data: this.toBase64(new Uint8Array(data))
+    };
+  }
+
+  async decrypt(payload: EncryptedPayload): Promise<string> {
+    const stored = this.stored?.keys[payload.kdf.salt];
+    if (!stored) {
+      throw new Error('Sync data is encrypted - enter your passphrase to unlock it');
+    }
+
+    try {
+      return await this.decryptWith(await this.importKey(stored.key), payload);
+    } catch {
+      throw new Error('Sync data could not be decrypted - it may have been modified');
+    }
+  }
+
+  private async decryptWith(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.fromBase64(payload.cipher.iv) },
+      key,
+      this.fromBase64(payload.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  // 🧂 PBKDF2 → AES-256-GCM key
+  private async deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt: this.fromBase64(salt), iterations },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private importKey(raw: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', this.fromBase64(raw), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+
+  private async storeKey(salt: string, iterations: number, key: CryptoKey): Promise<void> {
+    const raw = this.toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+
+    this.stored = {
+      enabled: true,
+      currentSalt: salt,
+      keys: { ...this.stored?.keys, [salt]: { iterations, key: raw } }
+    };
+    this.saveKeys();
+  }
+
+  private loadKeys(): void {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      this.stored = saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('❌ Failed to load sync encryption keys:', error);
+    }
+  }
+
+  private saveKeys(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.stored));
+  }
+
+  private toBase64(bytes: Uint8Array): string {
+    // Chunked - spreading a large payload into fromCharCode overflows the stack
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+
+  // Return type left inferred - newer TypeScript versions make Uint8Array generic over its buffer
+  private fromBase64(value: string) {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+  }
+}
@@ -0,0 +1,381 @@
+// ☁️ Auto-Sync Manager - Seamless Cross-Device Sync through a pluggable backend
+
+import type { Exercise, WorkoutSession } from '@types/index.js';
+import { isBackupData, type BackupData, type SyncBackend, type SyncRevision } from './SyncBackend.js';
+import { SyncCrypto } from './SyncCrypto.js';
+import { DeltaSync, isChangeSet, type ChangeSet, type ChangeSetRef, type SyncChange, type VectorClock } from './DeltaSync.js';
+import { GitHubBackend, type GitHubConfig } from './GitHubBackend.js';
+import { WebDAVBackend, type WebDAVConfig } from './WebDAVBackend.js';
+import { LocalFolderBackend, type LocalFolderConfig } from './LocalFolderBackend.js';
+
+export type SyncConfig =
+  | ({ type: 'github' } & GitHubConfig)
+  | ({ type: 'webdav' } & WebDAVConfig)
+  | ({ type: 'local-folder' } & LocalFolderConfig);
+
+export class SyncManager {
+  private config: SyncConfig | null = null;
+  private backend: SyncBackend | null = null;
+  private crypto = new SyncCrypto();
+  private deviceId: string;
+  private syncInProgress = false;
+  private locked = false; // Cloud data is encrypted with a passphrase this device doesn't know
+
+  constructor() {
+    this.deviceId = this.generateDeviceId();
+    this.loadConfig();
+  }
+
+  // 🔧 Configuration
+  private loadConfig(): void {
+    try {
+      const savedConfig = localStorage.getItem('sync-config');
+      const legacyConfig = localStorage.getItem('github-sync-config');
+
+      if (savedConfig) {
+        this.config = JSON.parse(savedConfig);
+      } else if (legacyConfig) {
+        // Configs saved before backends were pluggable are always GitHub
+        this.config = { type: 'github', ...JSON.parse(legacyConfig) };
+      }
+
+      this.backend = this.config ? this.createBackend(this.config) : null;
+    } catch (error) {
+      console.error('❌ Failed to load sync config:', error);
+    }
+  }
+
+  setupSync(config: SyncConfig): void {
+    this.config = config;
+    this.backend = this.createBackend(config);
+
+    localStorage.setItem('sync-config', JSON.stringify(config));
+    localStorage.removeItem('github-sync-config');
+    console.log(`✅ ${this.backend.label} sync configured`);
+  }
+
+  clearConfig(): void {
+    if (this.config?.type === 'local-folder') {
+      LocalFolderBackend.forgetFolder().catch(error => console.error('❌ Failed to forget sync folder:', error));
+    }
+
+    this.crypto.forget();
+    this.config = null;
+    this.backend = null;
+    this.locked = false;
+    localStorage.removeItem('sync-config');
+    localStorage.removeItem('github-sync-config');
+    localStorage.removeItem('last-sync-time');
+  }
+
+  isConfigured(): boolean {
+    return this.backend !== null && this.backend.isConfigured();
+  }
+
+  private createBackend(config: SyncConfig): SyncBackend {
+    switch (config.type) {
+      case 'github': return new GitHubBackend(config);
+      case 'webdav': return new WebDAVBackend(config);
+      case 'local-folder': return new LocalFolderBackend(config);
+    }
+  }
+
+  // ☁️ Upload a full snapshot - false when sync isn't set up, throws when the upload fails
+  async autoBackup(exercises: Exercise[], workouts: WorkoutSession[], clock: VectorClock = {}): Promise<boolean> {
+    if (!this.backend || !this.isConfigured() || this.syncInProgress) {
+      return false;
+    }
+
+    try {
+      this.syncInProgress = true;
+      console.log(`🔄 Auto-backing up to ${this.backend.label}...`);
+
+      const backupData: BackupData = {
+        exercises,
+        workouts,
+        lastSync: new Date().toISOString(),
+        version: '2.0',
+        deviceId: this.deviceId,
+        clock
+      };
+
+      await this.backend.upload(await this.encodeSnapshot(backupData), {
+        message: `Auto-sync from ${this.deviceId} - ${backupData.lastSync}`,
+        timestamp: backupData.lastSync,
+        deviceId: this.deviceId
+      });
+
+      console.log('✅ Auto-backup completed');
+      this.updateLastSyncTime(backupData.lastSync);
+      return true;
+    } catch (error) {
+      console.error('❌ Auto-backup failed:', error);
+      throw error; // The sync queue retries with backoff
+    } finally {
+      this.syncInProgress = false;
+    }
+  }
+
+  // 📥 Download the current snapshot. Throws when the backend can't be reached,
+  // so callers never mistake an outage for an empty cloud.
+  async downloadSnapshot(): Promise<BackupData | null> {
+    if (!this.backend || !this.isConfigured()) {
+      console.log('ℹ️ Sync not configured - using local data only');
+      return null;
+    }
+
+    console.log(`📥 Downloading snapshot from ${this.backend.label}...`);
+
+    const content = await this.backend.download();
+    if (!content) {
+      console.log('ℹ️ No cloud data found - starting fresh');
+      return null;
+    }
+
+    const cloudData = await this.decodeSnapshot(content);
+    this.updateLastSyncTime(cloudData.lastSync);
+    return cloudData;
+  }
+
+  // 🧬 Delta sync change-sets
+  async listChangeSets(): Promise<ChangeSetRef[]> {
+    if (!this.backend || !this.isConfigured()) return [];
+
+    const names = await this.backend.listChangeSets();
+    return names
+      .map(name => DeltaSync.parseName(name))
+      .filter((ref): ref is ChangeSetRef => ref !== null);
+  }
+
+  async getChangeSets(refs: ChangeSetRef[]): Promise<ChangeSet[]> {
+    if (!this.backend || !this.isConfigured()) return [];
+
+    const changeSets: ChangeSet[] = [];
+    for (const ref of refs) {
+      const content = await this.backend.getChangeSet(ref.name);
+      if (!content) {
+        throw new Error(`Change-set ${ref.name} is no longer available`);
+      }
+
+      const data = await this.decodeContent(content);
+      if (!isChangeSet(data)) {
+        throw new Error('Invalid change-set structure');
+      }
+      changeSets.push(data);
+    }
+
+    return changeSets;
+  }
+
+  // 📤 Publish local changes as the next change-set of this device
+  async publishChangeSet(seq: number, clock: VectorClock, changes: SyncChange[]): Promise<ChangeSet> {
+    if (!this.backend || !this.isConfigured()) {
+      throw new Error('Sync not configured');
+    }
+
+    const changeSet: ChangeSet = {
+      deviceId: this.deviceId,
+      seq,
+      clock: { ...clock, [this.deviceId]: seq },
+      timestamp: new Date().toISOString(),
+      changes
+    };
+
+    console.log(`📤 Publishing ${changes.length} changes to ${this.backend.label}...`);
+    await this.backend.putChangeSet(DeltaSync.fileName(this.deviceId, seq), await this.encode(changeSet));
+
+    this.updateLastSyncTime(changeSet.timestamp);
+    return changeSet;
+  }
+
+  async deleteChangeSets(refs: ChangeSetRef[]): Promise<void> {
+    if (!this.backend || !this.isConfigured()) return;
+
+    for (const ref of refs) {
+      await this.backend.deleteChangeSet(ref.name);
+    }
+    if (refs.length > 0) {
+      console.log(`🧹 Compacted ${refs.length} change-sets into the snapshot`);
+    }
+  }
+
+  // 🔁 Rewrite the published change-sets with the current key (or in plain JSON once encryption
+  // is off). Other devices only learn the new passphrase, so they can't read the old key's files.
+  async reencodeChangeSets(): Promise<void> {
+    if (!this.backend || !this.isConfigured()) return;
+
+    for (const name of await this.backend.listChangeSets()) {
+      const content = await this.backend.getChangeSet(name);
+      if (!content) continue;
+
+      await this.backend.putChangeSet(name, await this.encode(await this.decodeContent(content)));
+    }
+  }
+
+  // 📜 Earlier uploads kept by the backend
+  async listRevisions(limit?: number): Promise<SyncRevision[]> {
+    if (!this.backend || !this.isConfigured()) return [];
+    return this.backend.listRevisions(limit);
+  }
+
+  async getRevision(id: string): Promise<BackupData | null> {
+    if (!this.backend || !this.isConfigured()) return null;
+
+    const content = await this.backend.getRevision(id);
+    return content ? this.decodeSnapshot(content) : null;
+  }
+
+  // 🔐 Encryption
+  // Set the passphrase for this device. When the cloud copy is already encrypted the passphrase
+  // must match it; otherwise encryption starts with the next upload.
+  async setPassphrase(passphrase: string): Promise<void> {
+    const content = this.backend && this.isConfigured() ? await this.backend.download() : null;
+    const payload = content ? this.parseSnapshotPayload(content) : null;
+
+    if (SyncCrypto.isEncrypted(payload)) {
+      await this.crypto.unlock(passphrase, payload);
+    } else {
+      await this.crypto.setPassphrase(passphrase);
+    }
+
+    this.locked = false;
+  }
+
+  // Replace the passphrase - the caller re-uploads the snapshot and re-encodes the change-sets
+  // so the cloud copy uses the new key
+  async rotatePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    if (!await this.crypto.verifyPassphrase(currentPassphrase)) {
+      throw new Error('Current passphrase is incorrect');
+    }
+
+    await this.crypto.setPassphrase(newPassphrase);
+  }
+
+  disableEncryption(): void {
+    this.crypto.disable();
+  }
+
+  // 🧩 Sharded backends get one file per year of workouts plus exercises and sync metadata files,
+  // each encoded (and encrypted) on its own
+  private async encodeSnapshot(data: BackupData): Promise<string> {
+    if (!this.backend?.sharded) return this.encode(data);
+
+    const { exercises, workouts, ...meta } = data;
+    const files: Record<string, string> = {
+      'sync.json': await this.encode(meta),
+      'exercises.json': await this.encode(exercises)
+    };
+
+    const years = new Map<string, WorkoutSession[]>();
+    for (const workout of workouts) {
+      const year = workout.date.slice(0, 4);
+      years.set(year, [...(years.get(year) ?? []), workout]);
+    }
+    for (const [year, yearWorkouts] of years) {
+      files[`workouts-${year}.json`] = await this.encode(yearWorkouts);
+    }
+
+    return JSON.stringify(files);
+  }
+
+  private async decodeSnapshot(content: string): Promise<BackupData> {
+    if (!this.backend?.sharded) return this.decode(content);
+
+    const files: Record<string, string> = JSON.parse(content);
+    const meta = files['sync.json'];
+    if (!meta) {
+      throw new Error('Invalid backup data structure');
+    }
+
+    const workouts: WorkoutSession[] = [];
+    for (const [name, shard] of Object.entries(files)) {
+      if (/^workouts-\d{4}\.json$/.test(name)) {
+        workouts.push(...await this.decodeContent(shard) as WorkoutSession[]);
+      }
+    }
+
+    const data = {
+      ...await this.decodeContent(meta) as object,
+      exercises: files['exercises.json'] ? await this.decodeContent(files['exercises.json']) : [],
+      workouts
+    };
+
+    if (!isBackupData(data)) {
+      throw new Error('Invalid backup data structure');
+    }
+    return data;
+  }
+
+  // The payload that tells whether the snapshot is encrypted
+  private parseSnapshotPayload(content: string): unknown {
+    if (!this.backend?.sharded) return JSON.parse(content);
+
+    const meta = JSON.parse(content)['sync.json'];
+    return meta ? JSON.parse(meta) : null;
+  }
+
+  // 📦 Serialize (and encrypt when enabled) a payload for the backend
+  private async encode(data: unknown): Promise<string> {
+    const json = JSON.stringify(data, null, 2);
+    if (!this.crypto.isEnabled()) return json;
+
+    return JSON.stringify(await this.crypto.encrypt(json), null, 2);
+  }
+
+  private async decode(content: string): Promise<BackupData> {
+    const data = await this.decodeContent(content);
+
+    // Validate backup data structure
+    if (!isBackupData(data)) {
+      throw new Error('Invalid backup data structure');
+    }
+
+    return data;
+  }
+
+  private async decodeContent(content: string): Promise<unknown> {
+    const data = JSON.parse(content);
+    if (!SyncCrypto.isEncrypted(data)) return data;
+
+    if (!this.crypto.canDecrypt(data)) {
+      this.locked = true;
+    }
+    return JSON.parse(await this.crypto.decrypt(data));
+  }
+
+  // 🔧 Utility methods
+  private generateDeviceId(): string {
+    let deviceId = localStorage.getItem('device-id');
+    if (!deviceId) {
+      deviceId = 'device-' + Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
+      localStorage.setItem('device-id', deviceId);
+    }
+    return deviceId;
+  }
+
+  private updateLastSyncTime(syncTime?: string): void {
+    const time = syncTime || new Date().toISOString();
+    localStorage.setItem('last-sync-time', time);
+  }
+
+  // 📊 Sync status
+  getSyncStatus(): {
+    configured: boolean;
+    backend: SyncConfig['type'] | null;
+    backendLabel: string | null;
+    encryption: 'off' | 'on' | 'locked';
+    lastSync: string | null;
+    deviceId: string;
+    inProgress: boolean;
+  } {
+    return {
+      configured: this.isConfigured(),
+      backend: this.config?.type ?? null,
+      backendLabel: this.backend?.label ?? null,
+      encryption: this.locked ? 'locked' : this.crypto.isEnabled() ? 'on' : 'off',
+      lastSync: localStorage.getItem('last-sync-time'),
+      deviceId: this.deviceId,
+      inProgress: this.syncInProgress
+    };
+  }
+}
@@ -0,0 +1,366 @@
+// 🔀 Three-Way Sync Merger - Field-level merge of local and cloud data
+
+import type {
+  Exercise,
+  WorkoutSession,
+  WorkoutExercise,
+  SyncConflict
+} from '@types/index.js';
+
+export interface SyncDataset {
+  exercises: Exercise[];
+  workouts: WorkoutSession[];
+}
+
+export interface MergeResult extends SyncDataset {
+  conflicts: SyncConflict[];
+}
+
+// What replacing one dataset with another would add, remove and change
+export interface EntityDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: Array<{ current: T; other: T }>;
+}
+
+export interface DatasetDiff {
+  exercises: EntityDiff<Exercise>;
+  workouts: EntityDiff<WorkoutSession>;
+}
+
+type EntityType = SyncConflict['entityType'];
+type Entity = Record<string, any>;
+
+// Fields that are recalculated after every merge and never reported as conflicts
+const DERIVED_FIELDS: Record<EntityType | 'workoutExercise', string[]> = {
+  exercise: ['totalWorkouts', 'lastWorkoutDate', 'personalBests'],
+  workout: ['totalVolume'],
+  workoutExercise: ['metrics', 'progression']
+};
+
+export class SyncMerger {
+  private conflicts: SyncConflict[] = [];
+
+  // 🔀 Merge cloud data into local data using the last common base snapshot
+  merge(
+    base: SyncDataset | null,
+    local: SyncDataset,
+    remote: SyncDataset,
+    localChanges: Set<string>
+  ): MergeResult {
+    this.conflicts = [];
+
+    const exercises = this.mergeCollection(
+      'exercise', base?.exercises ?? null, local.exercises, remote.exercises, localChanges
+    ) as Exercise[];
+    const workouts = this.mergeCollection(
+      'workout', base?.workouts ?? null, local.workouts, remote.workouts, localChanges
+    ) as WorkoutSession[];
+
+    return { exercises, workouts, conflicts: this.conflicts };
+  }
+
+  // 🔍 Compare two datasets by id, ignoring recalculated fields
+  diff(current: SyncDataset, other: SyncDataset): DatasetDiff {
+    return {
+      exercises: this.diffCollection('exercise', current.exercises, other.exercises) as EntityDiff<Exercise>,
+      workouts: this.diffCollection('workout', current.workouts, other.workouts) as EntityDiff<WorkoutSession>
+    };
+  }
+
+  // ✍️ Write a chosen conflict value back into an entity
+  applyResolution(entityType: EntityType, entity: Entity, path: string[], value: unknown): void {
+    const [field, elementId, ...rest] = path;
+    if (!field) return;
+
+    if (entityType === 'workout' && field === 'exercises' && elementId) {
+      const exercises = entity['exercises'] as WorkoutExercise[];
+      const index = exercises.findIndex(ex => ex.id === elementId);
+
+      if (rest.length > 0) {
+        if (index !== -1) (exercises[index] as Entity)[rest[0]] = value;
+      } else if (value === undefined) {
+        if (index !== -1) exercises.splice(index, 1);
+      } else if (index !== -1) {
+        exercises[index] = value as WorkoutExercise;
+      } else {
+        exercises.push(value as WorkoutExercise);
+      }
+
+      this.updateTotalVolume(entity as WorkoutSession);
+      return;
+    }
+
+    if (value === undefined) {
+      delete entity[field];
+    } else {
+      entity[field] = value;
+    }
+  }
+
+  // 📚 Merge one entity collection (exercises or workouts) by id
+  private mergeCollection(
+    entityType: EntityType,
+    base: Entity[] | null,
+    local: Entity[],
+    remote: Entity[],
+    localChanges: Set<string>
+  ): Entity[] {
+    const baseById = base ? new Map(base.map(entity => [entity['id'], entity])) : null;
+    const localById = new Map(local.map(entity => [entity['id'], entity]));
+    const remoteById = new Map(remote.map(entity => [entity['id'], entity]));
+    const ids = new Set([...localById.keys(), ...remoteById.keys()]);
+
+    const merged: Entity[] = [];
+    for (const id of ids) {
+      const entity = this.mergeEntity(
+        entityType,
+        id,
+        baseById?.get(id),
+        localById.get(id),
+        remoteById.get(id),
+        localChanges.has(id),
+        baseById !== null
+      );
+      if (entity) merged.push(entity);
+    }
+
+    return merged;
+  }
+
+  private diffCollection(entityType: EntityType, current: Entity[], other: Entity[]): EntityDiff<Entity> {
+    const currentById = new Map(current.map(entity => [entity['id'], entity]));
+    const otherIds = new Set(other.map(entity => entity['id']));
+    const diff: EntityDiff<Entity> = { added: [], removed: [], changed: [] };
+
+    for (const entity of other) {
+      const existing = currentById.get(entity['id']);
+      if (!existing) {
+        diff.added.push(entity);
+      } else if (!this.isEqual(this.withoutDerived(entityType, existing), this.withoutDerived(entityType, entity))) {
+        diff.changed.push({ current: existing, other: entity });
+      }
+    }
+
+    diff.removed = current.filter(entity => !otherIds.has(entity['id']));
+    return diff;
+  }
+
+  // 🧩 Merge a single entity - returns undefined when it should be deleted
+  private mergeEntity(
+    entityType: EntityType,
+    id: string,
+    base: Entity | undefined,
+    local: Entity | undefined,
+    remote: Entity | undefined,
+    localChanged: boolean,
+    hasBase: boolean
+  ): Entity | undefined {
+    // Untouched locally - the cloud version wins, including cloud deletions
+    if (!localChanged) {
+      if (remote) return remote;
+      return base ? undefined : local;
+    }
+
+    if (!remote) {
+      // Deleted in the cloud but edited here
+      if (local && base) {
+        this.addConflict(entityType, id, [], base, local, undefined);
+      }
+      return local;
+    }
+
+    if (!local) {
+      // Deleted here - fine unless the cloud edited it in the meantime
+      const remoteChanged = base !== undefined && !this.isEqual(
+        this.withoutDerived(entityType, remote),
+        this.withoutDerived(entityType, base)
+      );
+      if (remoteChanged) {
+        this.addConflict(entityType, id, [], base, undefined, remote);
+        return remote;
+      }
+      return undefined;
+    }
+
+    return this.mergeFields(entityType, id, [], hasBase ? base : undefined, local, remote, hasBase);
+  }
+
+  // 🔬 Field-by-field three-way merge; conflicting fields keep the local value
+  private mergeFields(
+    entityType: EntityType,
+    entityId: string,
+    path: string[],
+    base: Entity | undefined,
+    local: Entity,
+    remote: Entity,
+    hasBase: boolean
+  ): Entity {
+    const result: Entity = { ...local };
+    const derived = path.length > 0 ? DERIVED_FIELDS.workoutExercise : DERIVED_FIELDS[entityType];
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+    for (const key of keys) {
+      if (derived.includes(key)) continue;
+
+      if (entityType === 'workout' && path.length === 0 && key === 'exercises') {
+        result['exercises'] = this.mergeWorkoutExercises(
+          entityId, base?.['exercises'], local['exercises'] ?? [], remote['exercises'] ?? [], hasBase
+        );
+        continue;
+      }
+
+      const resolved = this.resolveValue(
+        entityType, entityId, [...path, key], base?.[key], local[key], remote[key], hasBase
+      );
+      if (resolved === undefined) {
+        delete result[key];
+      } else {
+        result[key] = resolved;
+      }
+    }
+
+    if (entityType === 'workout' && path.length === 0) {
+      this.updateTotalVolume(result as WorkoutSession);
+    }
+
+    return result;
+  }
+
+  // 🏋️ Merge the exercise entries of a workout by their id
+  private mergeWorkoutExercises(
+    workoutId: string,
+    base: WorkoutExercise[] | undefined,
+    local: WorkoutExercise[],
+    remote: WorkoutExercise[],
+    hasBase: boolean
+  ): WorkoutExercise[] {
+    const baseById = new Map((base ?? []).map(ex => [ex.id, ex]));
+    const remoteById = new Map(remote.map(ex => [ex.id, ex]));
+    const localIds = new Set(local.map(ex => ex.id));
+    const merged: WorkoutExercise[] = [];
+
+    // Keep the local ordering, then append entries only the cloud knows about
+    const ordered = [...local, ...remote.filter(ex => !localIds.has(ex.id))];
+
+    for (const entry of ordered) {
+      const path = ['exercises', entry.id];
+      const b = hasBase ? baseById.get(entry.id) : undefined;
+      const l = localIds.has(entry.id) ? local.find(ex => ex.id === entry.id) : undefined;
+      const r = remoteById.get(entry.id);
+
+      if (l && r) {
+        // Sets and their metrics move together - a sets conflict covers the whole entry
+        const setsConflict = !this.isEqual(l.sets, r.sets) &&
+          (!b || (!this.isEqual(l.sets, b.sets) && !this.isEqual(r.sets, b.sets)));
+        if (setsConflict) {
+          this.addConflict('workout', workoutId, path, b, l, r);
+          merged.push(l);
+          continue;
+        }
+
+        const result = this.mergeFields('workout', workoutId, path, b, l, r, hasBase) as WorkoutExercise;
+        if (!this.isEqual(result.sets, l.sets)) {
+          result.metrics = r.metrics;
+        }
+        merged.push(result);
+        continue;
+      }
+
+      const present = (l ?? r)!;
+      if (!b) {
+        // Added on one side only
+        merged.push(present);
+        continue;
+      }
+
+      // Removed on one side - keep it if the other side edited it
+      const edited = !this.isEqual(
+        this.withoutDerived('workoutExercise', present),
+        this.withoutDerived('workoutExercise', b)
+      );
+      if (edited) {
+        this.addConflict('workout', workoutId, path, b, l, r);
+        merged.push(present);
+      }
+    }
+
+    return merged;
+  }
+
+  // ⚖️ Resolve one field value from its base, local and remote versions
+  private resolveValue(
+    entityType: EntityType,
+    entityId: string,
+    path: string[],
+    base: unknown,
+    local: unknown,
+    remote: unknown,
+    hasBase: boolean
+  ): unknown {
+    if (this.isEqual(local, remote)) return local;
+
+    if (hasBase) {
+      if (this.isEqual(local, base)) return remote;
+      if (this.isEqual(remote, base)) return local;
+    }
+
+    this.addConflict(entityType, entityId, path, base, local, remote);
+    return local;
+  }
+
+  private addConflict(
+    entityType: EntityType,
+    entityId: string,
+    path: string[],
+    base: unknown,
+    local: unknown,
+    remote: unknown
+  ): void {
+    this.conflicts.push({
+      id: [entityType, entityId, ...path].join(':'),
+      entityType,
+      entityId,
+      path,
+      base,
+      local,
+      remote,
+      detectedAt: new Date().toISOString()
+    });
+  }
+
+  private updateTotalVolume(workout: WorkoutSession): void {
+    workout.totalVolume = workout.exercises
+      .reduce((sum, ex) => sum + (ex.metrics?.totalVolume || 0), 0);
+  }
+
+  private withoutDerived(type: keyof typeof DERIVED_FIELDS, entity: Entity): Entity {
+    const copy = { ...entity };
+    DERIVED_FIELDS[type].forEach(field => delete copy[field]);
+
+    if (type === 'workout' && Array.isArray(copy['exercises'])) {
+      copy['exercises'] = copy['exercises'].map((ex: Entity) => this.withoutDerived('workoutExercise', ex));
+    }
+
+    return copy;
+  }
+
+  // 🟰 Structural equality (independent of key order)
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, i) => this.isEqual(item, b[i]));
+    }
+
+    const aRecord = a as Entity;
+    const bRecord = b as Entity;
+    const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+    for (const key of keys) {
+      if (!this.isEqual(aRecord[key], bRecord[key])) return false;
+    }
+    return true;
+  }
+}
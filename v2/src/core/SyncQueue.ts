@@ -0,0 +1,161 @@
+// ⏱️ Sync Queue - Debounced, persistent scheduling of cloud uploads
+// A burst of saves (a workout plus the exercise stats it updates) becomes one upload.
+
+import { getErrorRetryDelay } from './SyncBackend.js';
+
+// Survives reloads so changes made offline or before a crash still get uploaded
+interface QueueState {
+  since: string; // First change not yet uploaded
+  attempts: number; // Failed uploads in a row
+  retryAt: string | null;
+}
+
+const STORAGE_KEY = 'sync-queue';
+const DEBOUNCE_MS = 3000;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export class SyncQueue {
+  private flush: () => Promise<boolean>;
+  private debounceMs: number;
+  private state: QueueState | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private changesDuringFlush = false;
+
+  // flush resolves false when it couldn't run yet (e.g. another sync is busy)
+  constructor(flush: () => Promise<boolean>, debounceMs = DEBOUNCE_MS) {
+    this.flush = flush;
+    this.debounceMs = debounceMs;
+    this.loadState();
+  }
+
+  // 🚀 Pick up changes left from an earlier session and flush whenever we come back online
+  start(): void {
+    window.addEventListener('online', () => {
+      if (this.state) this.schedule(0);
+    });
+
+    if (this.state) {
+      this.schedule(this.backoffRemaining() ?? this.debounceMs);
+    }
+  }
+
+  // ➕ Note a change - uploads wait until saves go quiet for the debounce period
+  enqueue(): void {
+    if (!this.state) {
+      this.state = { since: new Date().toISOString(), attempts: 0, retryAt: null };
+      this.saveState();
+    }
+
+    if (this.running) {
+      this.changesDuringFlush = true;
+      return;
+    }
+
+    // Waiting out a rate limit - the retry picks this change up too
+    if (this.backoffRemaining() !== null) return;
+
+    this.schedule(this.debounceMs);
+  }
+
+  hasPending(): boolean {
+    return this.state !== null;
+  }
+
+  getRetryAt(): string | null {
+    return this.state?.retryAt ?? null;
+  }
+
+  // ⚡ Upload now instead of waiting for the debounce timer
+  async flushNow(): Promise<void> {
+    this.clearTimer();
+    await this.run();
+  }
+
+  // The data was uploaded by some other path - nothing left to do
+  clear(): void {
+    this.clearTimer();
+    this.state = null;
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  private schedule(delay: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (!this.state || this.running) return;
+
+    // Offline - the online listener flushes once the connection is back
+    if (!navigator.onLine) return;
+
+    this.running = true;
+    this.changesDuringFlush = false;
+
+    try {
+      const done = await this.flush();
+
+      if (!done) {
+        this.schedule(this.debounceMs);
+      } else if (this.changesDuringFlush) {
+        // Saved while uploading - those changes need another round
+        this.state = { since: new Date().toISOString(), attempts: 0, retryAt: null };
+        this.saveState();
+        this.schedule(this.debounceMs);
+      } else {
+        this.clear();
+      }
+    } catch (error) {
+      this.retryLater(error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // 📈 Exponential backoff, never sooner than the server asked for
+  private retryLater(error: unknown): void {
+    if (!this.state) return;
+
+    const attempts = this.state.attempts + 1;
+    const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempts - 1));
+    const delay = Math.max(backoff, getErrorRetryDelay(error) ?? 0);
+
+    this.state = { ...this.state, attempts, retryAt: new Date(Date.now() + delay).toISOString() };
+    this.saveState();
+
+    console.log(`⏳ Sync failed (attempt ${attempts}) - retrying in ${Math.round(delay / 1000)}s`);
+    this.schedule(delay);
+  }
+
+  private backoffRemaining(): number | null {
+    if (!this.state?.retryAt) return null;
+
+    const remaining = new Date(this.state.retryAt).getTime() - Date.now();
+    return remaining > 0 ? remaining : null;
+  }
+
+  private loadState(): void {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      this.state = saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('❌ Failed to load sync queue:', error);
+    }
+  }
+
+  private saveState(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+  }
+}
@@ -0,0 +1,177 @@
+// 🗄️ WebDAV Sync Backend - Backups on Nextcloud, ownCloud or any WebDAV server
+
+import { throwIfRateLimited, type SyncBackend, type SyncRevision, type SyncUploadInfo } from './SyncBackend.js';
+
+export interface WebDAVConfig {
+  url: string; // Folder URL, e.g. https://cloud.example.com/remote.php/dav/files/me/StrengthLog
+  username: string;
+  password: string;
+  filename: string;
+}
+
+const REVISIONS_FOLDER = 'revisions';
+const CHANGES_FOLDER = 'changes';
+const MAX_REVISIONS = 50;
+
+export class WebDAVBackend implements SyncBackend {
+  readonly type = 'webdav';
+  readonly label = 'WebDAV';
+  readonly sharded = false;
+  private config: WebDAVConfig;
+
+  constructor(config: WebDAVConfig) {
+    this.config = { ...config, url: config.url.replace(/\/+$/, '') };
+  }
+
+  isConfigured(): boolean {
+    return this.config.url !== '' && this.config.username !== '';
+  }
+
+  // 📤 Upload the backup and keep a timestamped copy as a revision
+  async upload(content: string, info: SyncUploadInfo): Promise<void> {
+    await this.put(this.fileUrl(this.config.filename), content);
+
+    await this.ensureFolder(REVISIONS_FOLDER);
+    await this.put(this.fileUrl(`${REVISIONS_FOLDER}/${this.revisionName(info)}`), content);
+    await this.pruneRevisions();
+  }
+
+  // 📥 Download the current backup
+  async download(): Promise<string | null> {
+    return this.get(this.fileUrl(this.config.filename));
+  }
+
+  // 📜 Revision copies, newest first
+  async listRevisions(limit = 30): Promise<SyncRevision[]> {
+    const names = await this.listNames(REVISIONS_FOLDER);
+
+    return names.slice(0, limit).map(name => {
+      const device = name.split('_')[1]?.replace(/\.json$/, '');
+      const revision: SyncRevision = {
+        id: name,
+        timestamp: this.revisionTimestamp(name),
+        message: `Backup from ${device ?? 'unknown device'}`
+      };
+      if (device) revision.deviceId = device;
+      return revision;
+    });
+  }
+
+  async getRevision(id: string): Promise<string | null> {
+    return this.get(this.fileUrl(`${REVISIONS_FOLDER}/${id}`));
+  }
+
+  // 🧬 Delta sync change-sets
+  async listChangeSets(): Promise<string[]> {
+    return this.listNames(CHANGES_FOLDER);
+  }
+
+  async putChangeSet(name: string, content: string): Promise<void> {
+    await this.ensureFolder(CHANGES_FOLDER);
+    await this.put(this.fileUrl(`${CHANGES_FOLDER}/${name}`), content);
+  }
+
+  async getChangeSet(name: string): Promise<string | null> {
+    return this.get(this.fileUrl(`${CHANGES_FOLDER}/${name}`));
+  }
+
+  async deleteChangeSet(name: string): Promise<void> {
+    const response = await this.request(this.fileUrl(`${CHANGES_FOLDER}/${name}`), { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`WebDAV delete failed: ${response.status}`);
+    }
+  }
+
+  private async get(url: string): Promise<string | null> {
+    const response = await this.request(url, { method: 'GET' });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`WebDAV download failed: ${response.status}`);
+    }
+
+    return await response.text();
+  }
+
+  private async put(url: string, content: string): Promise<void> {
+    const response = await this.request(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: content
+    });
+
+    if (!response.ok) {
+      throw new Error(`WebDAV upload failed: ${response.status}`);
+    }
+  }
+
+  private async ensureFolder(name: string): Promise<void> {
+    const response = await this.request(this.fileUrl(name), { method: 'MKCOL' });
+
+    // 405 means the folder already exists
+    if (!response.ok && response.status !== 405) {
+      throw new Error(`WebDAV could not create folder: ${response.status}`);
+    }
+  }
+
+  // 📂 JSON files in a folder, newest first (names start with a timestamp or sequence number)
+  private async listNames(folder: string): Promise<string[]> {
+    const response = await this.request(this.fileUrl(`${folder}/`), {
+      method: 'PROPFIND',
+      headers: { 'Depth': '1', 'Content-Type': 'application/xml' },
+      body: '<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/></d:prop></d:propfind>'
+    });
+
+    if (response.status === 404) return [];
+    if (!response.ok) {
+      throw new Error(`WebDAV listing failed: ${response.status}`);
+    }
+
+    const xml = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    const hrefs = Array.from(xml.getElementsByTagNameNS('DAV:', 'href'))
+      .map(node => decodeURIComponent(node.textContent ?? ''));
+
+    return hrefs
+      .map(href => href.split('/').filter(Boolean).pop() ?? '')
+      .filter(name => name.endsWith('.json'))
+      .sort()
+      .reverse();
+  }
+
+  // 🧹 Keep only the most recent revisions
+  private async pruneRevisions(): Promise<void> {
+    const names = await this.listNames(REVISIONS_FOLDER);
+
+    for (const name of names.slice(MAX_REVISIONS)) {
+      await this.request(this.fileUrl(`${REVISIONS_FOLDER}/${name}`), { method: 'DELETE' });
+    }
+  }
+
+  // Sortable file name: 2024-01-01T10-00-00-000Z_device-abc.json
+  private revisionName(info: SyncUploadInfo): string {
+    return `${info.timestamp.replace(/[:.]/g, '-')}_${info.deviceId}.json`;
+  }
+
+  private revisionTimestamp(name: string): string {
+    const stamp = name.split('_')[0] ?? '';
+    return stamp.replace(/^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, '$1:$2:$3.$4Z');
+  }
+
+  private fileUrl(path: string): string {
+    const encoded = path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+    return `${this.config.url}/${encoded}`;
+  }
+
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': `Basic ${btoa(unescape(encodeURIComponent(`${this.config.username}:${this.config.password}`)))}`,
+        ...init.headers
+      }
+    });
+
+    throwIfRateLimited(response, 'WebDAV');
+    return response;
+  }
+}
@@ -0,0 +1,87 @@
+// 📋 Workout Templates - Routines turned into pre-filled sessions, and finished sessions into routines
+
+import type { TemplateExercise, WorkoutExercise, WorkoutSession, WorkoutSet, WorkoutTemplate } from '@types/index.js';
+
+// %1RM loads round to the nearest pair of 1.25kg plates
+const LOAD_ROUNDING = 2.5;
+
+// 🏗️ One set per target set, loaded from the target weight or the exercise's estimated 1RM
+export function buildTemplateExercises(
+  template: WorkoutTemplate,
+  oneRepMaxes: Record<string, number>
+): WorkoutExercise[] {
+  return template.exercises.map(target => {
+    const weight = targetWeight(target, oneRepMaxes[target.exerciseId] ?? 0);
+    return createPrescribedExercise(target.exerciseId, target.restTime,
+      Array.from({ length: target.sets }, () => ({ weight, reps: target.reps })));
+  });
+}
+
+// 🔁 The routine's most recent session with fresh ids - null if it was never done
+export function repeatLastSession(template: WorkoutTemplate, workouts: WorkoutSession[]): WorkoutExercise[] | null {
+  const last = workouts
+    .filter(workout => workout.templateId === template.id)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.startTime.localeCompare(a.startTime))[0];
+  if (!last) return null;
+
+  return last.exercises.map(exercise => createPrescribedExercise(exercise.exerciseId, exercise.restTime,
+    exercise.sets.map(({ weight, reps, isWarmup }) => ({ weight, reps, isWarmup }))));
+}
+
+// 💾 A routine from a workout - its working sets and heaviest of them become the targets
+export function templateFromWorkout(workout: WorkoutSession, name: string): WorkoutTemplate {
+  return {
+    id: generateId(),
+    name,
+    exercises: workout.exercises.flatMap((exercise): TemplateExercise[] => {
+      const working = exercise.sets.filter(set => !set.isWarmup);
+      const sets = working.length > 0 ? working : exercise.sets;
+      if (sets.length === 0) return [];
+
+      const top = sets.reduce((best, set) => set.weight > best.weight ? set : best);
+      return [{
+        exerciseId: exercise.exerciseId,
+        sets: sets.length,
+        reps: top.reps,
+        load: top.weight > 0 ? top.weight : null,
+        loadType: 'weight',
+        restTime: exercise.restTime
+      }];
+    }),
+    dateCreated: new Date().toISOString()
+  };
+}
+
+function targetWeight(target: TemplateExercise, oneRepMax: number): number {
+  if (target.load === null) return 0;
+  if (target.loadType === 'weight') return target.load;
+  return Math.round(oneRepMax * target.load / 100 / LOAD_ROUNDING) * LOAD_ROUNDING;
+}
+
+// 🏗️ A new workout exercise with the given sets to do - also used for program sessions
+export function createPrescribedExercise(
+  exerciseId: string,
+  restTime: number,
+  sets: Array<{ weight: number; reps: number; isWarmup?: boolean; isAmrap?: boolean }>
+): WorkoutExercise {
+  return {
+    id: generateId(),
+    exerciseId,
+    sets: sets.map(({ weight, reps, isWarmup = false, isAmrap }): WorkoutSet => ({
+      id: generateId(),
+      weight,
+      reps,
+      isWarmup,
+      isFailure: false,
+      ...(isAmrap ? { isAmrap } : {})
+    })),
+    notes: '',
+    restTime,
+    metrics: { totalVolume: 0, maxWeight: 0, maxReps: 0, estimatedOneRepMax: 0, volumePerMinute: 0, intensityScore: 0 },
+    progression: { weightChange: 0, volumeChange: 0, strengthChange: 0, isPersonalBest: false, streak: 0, lastImprovement: '' }
+  };
+}
+
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
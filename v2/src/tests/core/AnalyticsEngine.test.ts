@@ -1,8 +1,8 @@
 // 🧪 AnalyticsEngine Tests - Advanced progression analytics
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { AnalyticsEngine } from '@core/AnalyticsEngine.js';
-import type { Exercise, WorkoutSession } from '@types/index.js';
+import { AnalyticsEngine, DEFAULT_VOLUME_LANDMARKS } from '@core/AnalyticsEngine.js';
+import type { Exercise, WorkoutSession, WorkoutSet } from '@types/index.js';
 
 describe('AnalyticsEngine', () => {
   let analyticsEngine: AnalyticsEngine;
@@ -240,6 +240,206 @@ describe('AnalyticsEngine', () => {
     });
   });
 
+  describe('Trend Forecasting', () => {
+    // Singles, so the estimated 1RM is the weight lifted
+    const single = (date: string, weight: number) => createMockWorkout({
+      id: `single-${date}`,
+      date,
+      exercises: [{
+        id: `we-${date}`,
+        exerciseId: 'exercise-1',
+        sets: [createMockWorkoutSet({ weight, reps: 1 })],
+        notes: '',
+        restTime: 180,
+        metrics: { totalVolume: weight, maxWeight: weight, maxReps: 1, estimatedOneRepMax: weight, volumePerMinute: 0, intensityScore: 100 },
+        progression: { weightChange: 0, volumeChange: 0, strengthChange: 0, isPersonalBest: false, streak: 0, lastImprovement: '' }
+      }]
+    });
+
+    it('should measure progress per week rather than per session', () => {
+      const engine = new AnalyticsEngine(mockExercises, [
+        single('2024-01-01', 100),
+        single('2024-01-08', 101),
+        single('2024-01-29', 104) // Three weeks later
+      ]);
+
+      const trend = engine.generateProgressionChart('exercise-1', 'all').trendline;
+
+      expect(trend.slope).toBe(1);
+      expect(trend.correlation).toBe(1);
+      expect(trend.startDate).toBe('2024-01-01');
+      expect(trend.prediction).toBe(106); // Average gap of two weeks
+      expect(trend.slopeInterval).toEqual({ lower: 1, upper: 1 });
+    });
+
+    it('should forecast when a target will be reached', () => {
+      const engine = new AnalyticsEngine(mockExercises, [
+        single('2024-01-01', 100),
+        single('2024-01-08', 101),
+        single('2024-01-29', 104)
+      ]);
+
+      const forecast = engine.forecast('exercise-1', 110);
+
+      expect(forecast?.currentValue).toBe(104);
+      expect(forecast?.weeksAway).toBe(6);
+      expect(forecast?.expectedDate).toBe('2024-03-11');
+      expect(engine.forecast('exercise-1', 100)?.weeksAway).toBe(0);
+      expect(engine.forecast('exercise-2', 100)).toBeNull();
+    });
+
+    it('should not forecast a target a falling trend moves away from', () => {
+      const engine = new AnalyticsEngine(mockExercises, [
+        single('2024-01-01', 110),
+        single('2024-01-15', 100)
+      ]);
+
+      const forecast = engine.forecast('exercise-1', 120);
+
+      expect(forecast?.weeksAway).toBeNull();
+      expect(forecast?.expectedDate).toBeNull();
+    });
+
+    it('should project a confidence band that widens with distance', () => {
+      const engine = new AnalyticsEngine(mockExercises, [
+        single('2024-01-01', 100),
+        single('2024-01-08', 103),
+        single('2024-01-15', 102),
+        single('2024-01-22', 105)
+      ]);
+
+      const projection = engine.projectTrend('exercise-1', 4);
+
+      expect(projection).toHaveLength(5);
+      expect(projection[0]!.date).toBe('2024-01-22');
+      expect(projection[4]!.date).toBe('2024-02-19');
+
+      const width = (point: { lower: number; upper: number }) => point.upper - point.lower;
+      expect(projection[4]!.lower).toBeLessThan(projection[4]!.value);
+      expect(projection[4]!.upper).toBeGreaterThan(projection[4]!.value);
+      expect(width(projection[4]!)).toBeGreaterThan(width(projection[0]!));
+    });
+  });
+
+  describe('Muscle Group Volume', () => {
+    const bench = createMockExercise({ id: 'bench', muscleGroups: ['chest', 'triceps'] });
+    const session = (date: string, sets: WorkoutSet[]) => createMockWorkout({
+      id: `session-${date}`,
+      date,
+      exercises: [createMockWorkoutExercise({ id: `we-${date}`, exerciseId: 'bench', sets, restTime: 180 })]
+    });
+
+    it('should count working sets and tonnage per ISO week', () => {
+      const engine = new AnalyticsEngine([bench], [
+        session('2024-01-01', [
+          createMockWorkoutSet({ weight: 40, reps: 10, isWarmup: true }),
+          createMockWorkoutSet({ weight: 100, reps: 5 }),
+          createMockWorkoutSet({ weight: 100, reps: 5 })
+        ]),
+        session('2024-01-07', [createMockWorkoutSet({ weight: 100, reps: 5 })]), // Sunday - same week
+        session('2024-01-08', [createMockWorkoutSet({ weight: 80, reps: 8 })])
+      ]);
+
+      const weeks = engine.getWeeklyMuscleVolume();
+
+      expect(weeks.map(week => week.week)).toEqual(['2024-W01', '2024-W02']);
+      expect(weeks[0]!.muscleGroups).toEqual([
+        { muscleGroup: 'chest', hardSets: 3, tonnage: 1500 },
+        { muscleGroup: 'triceps', hardSets: 1.5, tonnage: 750 }
+      ]);
+    });
+
+    it('should assign dates around new year to the right ISO week', () => {
+      const engine = new AnalyticsEngine([bench], [
+        session('2024-12-30', [createMockWorkoutSet({ weight: 100, reps: 5 })]),
+        session('2021-01-03', [createMockWorkoutSet({ weight: 100, reps: 5 })])
+      ]);
+
+      expect(engine.getWeeklyMuscleVolume().map(week => week.week)).toEqual(['2020-W53', '2025-W01']);
+    });
+
+    it('should compare a week with the MEV/MRV landmarks', () => {
+      const engine = new AnalyticsEngine([bench], [
+        session('2024-01-02', Array.from({ length: 12 }, () => createMockWorkoutSet({ weight: 100, reps: 5 })))
+      ]);
+
+      const statuses = engine.getMuscleVolumeStatus({
+        ...DEFAULT_VOLUME_LANDMARKS,
+        chest: { mev: 8, mrv: 10 },
+        triceps: { mev: 4, mrv: 12 },
+        back: { mev: 10, mrv: 25 }
+      }, '2024-01-04');
+
+      expect(statuses).toHaveLength(Object.keys(DEFAULT_VOLUME_LANDMARKS).length);
+      expect(statuses
+        .filter(entry => ['chest', 'triceps', 'back'].includes(entry.muscleGroup))
+        .map(entry => [entry.muscleGroup, entry.hardSets, entry.status])).toEqual([
+        ['chest', 12, 'above_mrv'],
+        ['back', 0, 'below_mev'],
+        ['triceps', 6, 'productive']
+      ]);
+    });
+  });
+
+  describe('Training Load', () => {
+    const session = (date: string, duration: number, rpes: Array<number | undefined>) => createMockWorkout({
+      id: `load-${date}`,
+      date,
+      duration,
+      exercises: [createMockWorkoutExercise({
+        id: `we-${date}`,
+        exerciseId: 'exercise-1',
+        sets: rpes.map(rpe => createMockWorkoutSet(rpe === undefined ? {} : { rpe })),
+        restTime: 120
+      })]
+    });
+    const weekly = ['2024-01-01', '2024-01-08', '2024-01-15', '2024-01-22'].map(date => session(date, 60, [8, 8]));
+
+    it('should derive session RPE from working sets', () => {
+      const warmup = session('2024-01-02', 45, [9]);
+      warmup.exercises[0]!.sets.push(createMockWorkoutSet({ rpe: 4, isWarmup: true }));
+
+      const engine = new AnalyticsEngine(mockExercises, [warmup, session('2024-01-03', 0, [undefined])]);
+
+      expect(engine.getSessionLoads()).toEqual([
+        { workoutId: 'load-2024-01-02', date: '2024-01-02', sessionRPE: 9, duration: 45, load: 405 },
+        { workoutId: 'load-2024-01-03', date: '2024-01-03', sessionRPE: 7, duration: 60, load: 420 } // Defaults
+      ]);
+    });
+
+    it('should compute ACWR, monotony and strain', () => {
+      const engine = new AnalyticsEngine(mockExercises, weekly);
+
+      expect(engine.getTrainingLoad('2024-01-28')).toEqual({
+        date: '2024-01-28',
+        acuteLoad: 480,
+        chronicLoad: 480,
+        acwr: 1,
+        monotony: 0.41,
+        strain: 196,
+        status: 'optimal'
+      });
+    });
+
+    it('should flag a load spike and short histories', () => {
+      const engine = new AnalyticsEngine(mockExercises, [...weekly, session('2024-01-27', 120, [9])]);
+
+      expect(engine.getTrainingLoad('2024-01-28').acwr).toBe(2.08);
+      expect(engine.getTrainingLoad('2024-01-28').status).toBe('danger');
+      expect(engine.getTrainingLoad('2024-01-20').status).toBe('insufficient_data');
+    });
+
+    it('should let fatigue decay faster than fitness', () => {
+      const engine = new AnalyticsEngine(mockExercises, [session('2024-01-01', 10, [10])]);
+
+      const points = engine.getFitnessFatigue(8, '2024-01-08');
+
+      expect(points).toHaveLength(8);
+      expect(points[0]).toEqual({ date: '2024-01-01', load: 100, fitness: 100, fatigue: 100, performance: -100 });
+      expect(points[7]).toEqual({ date: '2024-01-08', load: 0, fitness: 85, fatigue: 37, performance: 11 });
+    });
+  });
+
   describe('Milestone Detection', () => {
     it('should identify personal records', () => {
       const chart = analyticsEngine.generateProgressionChart('exercise-1', 'all');
@@ -291,6 +491,37 @@ describe('AnalyticsEngine', () => {
       expect(volumeMilestone).toBeDefined();
       expect(volumeMilestone?.value).toBe(600);
     });
+
+    it('should emit a streak milestone after consecutive sessions with gains', () => {
+      const workouts = [50, 52.5, 55, 57.5].map((weight, i) => createMockWorkout({
+        id: `streak-${i}`,
+        date: `2024-01-0${i + 1}`,
+        exercises: [createMockWorkoutExercise({
+          id: `we-streak-${i}`,
+          exerciseId: 'exercise-1',
+          sets: [createMockWorkoutSet({ weight, reps: 5 })]
+        })]
+      }));
+
+      const engine = new AnalyticsEngine(mockExercises, workouts);
+      const streaks = engine.generateProgressionChart('exercise-1', 'all').milestones.filter(m => m.type === 'streak');
+
+      expect(streaks).toHaveLength(1);
+      expect(streaks[0]).toMatchObject({ date: '2024-01-04', value: 3 });
+    });
+
+    it('should count consecutive training weeks', () => {
+      const dates = ['2024-01-01', '2024-01-10', '2024-01-17', '2024-01-19', '2024-01-22', '2024-02-05'];
+      const engine = new AnalyticsEngine(mockExercises, dates.map((date, i) => createMockWorkout({ id: `week-${i}`, date })));
+
+      // Four weeks in a row up to 22 Jan, then a missed week
+      expect(engine.getConsistencyStreak('2024-01-24')).toBe(4);
+      expect(engine.getConsistencyStreak('2024-01-28')).toBe(4); // Current week not over yet
+      expect(engine.getConsistencyStreak('2024-02-05')).toBe(1);
+      expect(engine.getConsistencyMilestones()).toEqual([
+        { date: '2024-01-22', type: 'streak', value: 4, description: '4-week training streak' }
+      ]);
+    });
   });
 
   describe('Exercise Insights', () => {
@@ -372,6 +603,76 @@ describe('AnalyticsEngine', () => {
       expect(chart1.dataPoints).toEqual(chart2.dataPoints);
       expect(chart1.trendline).toEqual(chart2.trendline);
     });
+
+    const session = (id: string, date: string, exerciseId: string, weight: number) => createMockWorkout({
+      id,
+      date,
+      exercises: [{
+        id: `we-${id}-${exerciseId}`,
+        exerciseId,
+        sets: [createMockWorkoutSet({ weight, reps: 5 })],
+        metrics: { totalVolume: weight * 5, maxWeight: weight, maxReps: 5, estimatedOneRepMax: 0, volumePerMinute: 0, intensityScore: 0 },
+        notes: '', restTime: 180,
+        progression: { weightChange: 0, volumeChange: 0, strengthChange: 0, isPersonalBest: false, streak: 0, lastImprovement: '' }
+      }]
+    });
+
+    it('should reuse a chart until a workout for that exercise changes', () => {
+      const engine = new AnalyticsEngine(mockExercises, [
+        session('w1', '2024-01-01', 'exercise-1', 100),
+        session('w2', '2024-01-03', 'exercise-2', 60)
+      ]);
+      const chart = engine.generateProgressionChart('exercise-1', 'all');
+      const other = engine.generateProgressionChart('exercise-2', 'all');
+
+      expect(engine.generateProgressionChart('exercise-1', 'all')).toBe(chart);
+
+      engine.upsertWorkout(session('w3', '2024-01-05', 'exercise-1', 105));
+      expect(engine.generateProgressionChart('exercise-1', 'all')).not.toBe(chart);
+      expect(engine.generateProgressionChart('exercise-2', 'all')).toBe(other);
+    });
+
+    it('should match a rebuilt engine after adds, edits and deletes', () => {
+      const workouts = [
+        session('w1', '2024-01-01', 'exercise-1', 100),
+        session('w2', '2024-01-08', 'exercise-1', 105),
+        session('w3', '2024-01-15', 'exercise-1', 110)
+      ];
+      const engine = new AnalyticsEngine(mockExercises, workouts);
+      engine.generateProgressionChart('exercise-1', 'all');
+
+      const edited = session('w2', '2024-01-08', 'exercise-1', 120);
+      const added = session('w4', '2024-01-04', 'exercise-1', 102);
+      engine.upsertWorkout(edited);
+      engine.upsertWorkout(added);
+      engine.removeWorkout('w3');
+
+      const rebuilt = new AnalyticsEngine(mockExercises, [workouts[0]!, edited, added]);
+      expect(engine.generateProgressionChart('exercise-1', 'all')).toEqual(rebuilt.generateProgressionChart('exercise-1', 'all'));
+      expect(engine.getRepMaxTable('exercise-1')).toEqual(rebuilt.getRepMaxTable('exercise-1'));
+    });
+
+    it('should update analytics on five years of history in under 50ms', () => {
+      const start = Date.parse('2019-01-07');
+      const workouts = Array.from({ length: 5 * 52 * 3 }, (_, i) => {
+        const date = new Date(start + Math.floor(i / 3) * 7 * 24 * 60 * 60 * 1000 + (i % 3) * 2 * 24 * 60 * 60 * 1000);
+        const workout = session(`workout-${i}`, date.toISOString().slice(0, 10), 'exercise-1', 60 + i / 10);
+        workout.exercises.push(...session(`workout-${i}`, workout.date, 'exercise-2', 40 + i / 20).exercises);
+        return workout;
+      });
+      const engine = new AnalyticsEngine(mockExercises, workouts);
+      engine.generateProgressionChart('exercise-1', 'all');
+      engine.generateProgressionChart('exercise-2', 'all');
+
+      const startTime = performance.now();
+      engine.upsertWorkout(session('workout-new', '2024-01-05', 'exercise-1', 150));
+      const chart = engine.generateProgressionChart('exercise-1', 'all');
+      engine.generateProgressionChart('exercise-2', 'all');
+      const endTime = performance.now();
+
+      expect(endTime - startTime).toBeLessThan(50);
+      expect(chart.dataPoints).toHaveLength(workouts.length + 1);
+    });
   });
 
   describe('Edge Cases', () => {
@@ -149,6 +149,196 @@ describe('DataManager', () => {
       expect(updatedExercise?.personalBests.maxWeight.value).toBe(50);
       expect(updatedExercise?.personalBests.maxVolume.value).toBe(500);
     });
+
+    it('should recompute personal bests when a workout is edited', async () => {
+      const typo = structuredClone(mockWorkout);
+      typo.exercises[0].metrics = { ...typo.exercises[0].metrics, maxWeight: 500, totalVolume: 5000 };
+      await dataManager.saveWorkout(typo);
+
+      let exercise = await dataManager.getExercise(mockExercise.id);
+      expect(exercise?.personalBests.maxWeight.value).toBe(500);
+
+      // Fix the typo and save the same workout again
+      await dataManager.saveWorkout(mockWorkout);
+
+      exercise = await dataManager.getExercise(mockExercise.id);
+      expect(exercise?.totalWorkouts).toBe(1);
+      expect(exercise?.personalBests.maxWeight.value).toBe(50);
+      expect(exercise?.personalBests.maxVolume.value).toBe(500);
+    });
+
+    it('should track rep PRs and improvement streaks', async () => {
+      await dataManager.saveWorkout(mockWorkout);
+      const nextSession = createMockWorkout({
+        id: 'test-workout-next',
+        date: '2024-01-08',
+        exercises: [{
+          ...structuredClone(mockWorkout.exercises[0]),
+          id: 'test-we-next',
+          sets: [createMockWorkoutSet({ weight: 40, reps: 12 })],
+          metrics: { totalVolume: 480, maxWeight: 40, maxReps: 12, estimatedOneRepMax: 56, volumePerMinute: 8, intensityScore: 10 }
+        }]
+      });
+      await dataManager.saveWorkout(nextSession);
+
+      const exercise = await dataManager.getExercise(mockExercise.id);
+      expect(exercise?.personalBests.maxReps).toEqual({ value: 12, date: '2024-01-08', weight: 40 });
+
+      // Neither e1RM nor volume went up, so no streak yet
+      let saved = await dataManager.getWorkout(nextSession.id);
+      expect(saved?.exercises[0]?.progression.streak).toBe(0);
+
+      nextSession.exercises[0]!.metrics = { ...nextSession.exercises[0]!.metrics, totalVolume: 600 };
+      await dataManager.saveWorkout(nextSession);
+
+      saved = await dataManager.getWorkout(nextSession.id);
+      expect(saved?.exercises[0]?.progression.streak).toBe(1);
+
+      await dataManager.deleteWorkout(nextSession.id); // The database outlives the test
+    });
+
+    it('should rebuild exercise statistics after deleting a workout', async () => {
+      await dataManager.saveWorkout(mockWorkout);
+      const badEntry = createMockWorkout({
+        id: 'test-workout-bad',
+        date: '2024-01-05',
+        exercises: [{
+          ...structuredClone(mockWorkout.exercises[0]),
+          id: 'test-we-bad',
+          metrics: { totalVolume: 5000, maxWeight: 500, maxReps: 10, estimatedOneRepMax: 650, volumePerMinute: 83.3, intensityScore: 10 }
+        }]
+      });
+      await dataManager.saveWorkout(badEntry);
+
+      let exercise = await dataManager.getExercise(mockExercise.id);
+      expect(exercise?.totalWorkouts).toBe(2);
+      expect(exercise?.personalBests.maxWeight.value).toBe(500);
+
+      await dataManager.deleteWorkout(badEntry.id);
+
+      exercise = await dataManager.getExercise(mockExercise.id);
+      expect(await dataManager.getWorkout(badEntry.id)).toBeUndefined();
+      expect(exercise?.totalWorkouts).toBe(1);
+      expect(exercise?.lastWorkoutDate).toBe(mockWorkout.date);
+      expect(exercise?.personalBests.maxWeight.value).toBe(50);
+      expect(exercise?.personalBests.estimatedOneRepMax.value).toBe(65);
+    });
+  });
+
+  describe('Trash Operations', () => {
+    beforeEach(async () => {
+      await dataManager.emptyTrash();
+      await dataManager.saveExercise(mockExercise);
+    });
+
+    it('should move deleted workouts to the trash and restore them', async () => {
+      await dataManager.saveWorkout(mockWorkout);
+      await dataManager.deleteWorkout(mockWorkout.id);
+
+      const trash = await dataManager.getTrash();
+      expect(trash.map(item => item.id)).toContain(mockWorkout.id);
+      expect(await dataManager.getAllWorkouts()).not.toContainEqual(expect.objectContaining({ id: mockWorkout.id }));
+
+      await dataManager.restoreFromTrash(mockWorkout.id);
+
+      expect(await dataManager.getWorkout(mockWorkout.id)).toBeDefined();
+      expect(await dataManager.getTrash()).toHaveLength(0);
+      const exercise = await dataManager.getExercise(mockExercise.id);
+      expect(exercise?.personalBests.maxWeight.value).toBe(50);
+    });
+
+    it('should purge items older than the retention period', async () => {
+      await dataManager.saveWorkout(mockWorkout);
+      await dataManager.deleteWorkout(mockWorkout.id);
+
+      expect(await dataManager.purgeExpiredTrash(30)).toBe(0);
+      expect(await dataManager.purgeExpiredTrash(-1)).toBe(1);
+      expect(await dataManager.getTrash()).toHaveLength(0);
+    });
+  });
+
+  describe('Bodyweight Log', () => {
+    it('should keep one weigh-in per day in date order', async () => {
+      await dataManager.logBodyweight('2024-01-08', 81.5);
+      const first = await dataManager.logBodyweight('2024-01-01', 82);
+      const replaced = await dataManager.logBodyweight('2024-01-01', 82.4);
+
+      const log = await dataManager.getBodyweightLog();
+      expect(replaced.id).toBe(first.id);
+      expect(log.map(entry => [entry.date, entry.weight])).toEqual([['2024-01-01', 82.4], ['2024-01-08', 81.5]]);
+
+      for (const entry of log) {
+        await dataManager.deleteBodyweight(entry.id);
+      }
+      expect(await dataManager.getBodyweightLog()).toEqual([]);
+    });
+
+    it('should reject non-positive bodyweights', async () => {
+      await expect(dataManager.logBodyweight('2024-01-01', 0)).rejects.toThrow('Bodyweight must be a positive number');
+    });
+  });
+
+  describe('Workout Templates', () => {
+    it('should save routines in name order and include them in backups', async () => {
+      const target = { exerciseId: 'exercise-1', sets: 3, reps: 5, load: 100, loadType: 'weight' as const, restTime: 180 };
+      await dataManager.saveTemplate({ id: 't2', name: 'Upper', exercises: [target], dateCreated: '2024-01-01' });
+      await dataManager.saveTemplate({ id: 't1', name: 'Lower', exercises: [target], dateCreated: '2024-01-01' });
+
+      expect((await dataManager.getTemplates()).map(template => template.name)).toEqual(['Lower', 'Upper']);
+      expect((await dataManager.createBackup()).data.templates).toHaveLength(2);
+
+      await dataManager.deleteTemplate('t1');
+      await dataManager.deleteTemplate('t2');
+      expect(await dataManager.getTemplates()).toEqual([]);
+    });
+
+    it('should reject routines without a name or exercises', async () => {
+      await expect(dataManager.saveTemplate({ id: 't1', name: ' ', exercises: [], dateCreated: '' }))
+        .rejects.toThrow('Template name is required');
+      await expect(dataManager.saveTemplate({ id: 't1', name: 'Empty', exercises: [], dateCreated: '' }))
+        .rejects.toThrow('Template needs at least one exercise');
+    });
+  });
+
+  describe('Workout Drafts', () => {
+    it('should keep the latest edit of the session in progress until cleared', async () => {
+      expect(await dataManager.getDraft()).toBeNull();
+
+      await dataManager.saveDraft(createMockWorkout({ id: 'draft-1', notes: 'Warming up' }));
+      await dataManager.saveDraft(createMockWorkout({ id: 'draft-1', notes: 'Top set done' }));
+
+      const draft = await dataManager.getDraft();
+      expect(draft?.workout.notes).toBe('Top set done');
+      expect(draft?.updatedAt).toBeDefined();
+      expect(await dataManager.getWorkout('draft-1')).toBeUndefined();
+
+      await dataManager.clearDraft();
+      expect(await dataManager.getDraft()).toBeNull();
+    });
+  });
+
+  describe('Program State', () => {
+    it('should keep the active program until it is ended', async () => {
+      expect(await dataManager.getProgramState()).toBeNull();
+
+      const state = {
+        programId: 'gzclp',
+        startDate: '2024-01-01',
+        trainingDays: [1, 3, 5],
+        exerciseIds: { 'squat-t1': 'squat' },
+        trainingMaxes: { 'squat-t1': 100 },
+        stages: { 'squat-t1': 0 },
+        failures: {},
+        position: 0
+      };
+      await dataManager.saveProgramState(state);
+      await dataManager.saveProgramState({ ...state, position: 1, trainingMaxes: { 'squat-t1': 105 } });
+
+      expect(await dataManager.getProgramState()).toEqual({ ...state, position: 1, trainingMaxes: { 'squat-t1': 105 } });
+
+      await dataManager.clearProgramState();
+      expect(await dataManager.getProgramState()).toBeNull();
+    });
   });
 
   describe('Settings Operations', () => {
@@ -160,6 +350,8 @@ describe('DataManager', () => {
         restTimerDefault: 120,
         autoSave: false,
         analyticsEnabled: true,
+        trashRetentionDays: 14,
+        oneRepMaxFormula: 'brzycki' as const,
         chartDefaults: {
           timeframe: 'quarter' as const,
           showTrendline: false,
@@ -0,0 +1,86 @@
+// 🧪 DeltaSync Tests - Change-sets and vector clocks
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DeltaSync, type ChangeSet, type ChangeSetRef } from '@core/DeltaSync.js';
+
+describe('DeltaSync', () => {
+  let deltaSync: DeltaSync;
+
+  const refs = (deviceId: string, ...seqs: number[]): ChangeSetRef[] =>
+    seqs.map(seq => DeltaSync.parseName(DeltaSync.fileName(deviceId, seq))!);
+
+  const changeSet = (deviceId: string, seq: number, clock: Record<string, number>, changes: ChangeSet['changes']): ChangeSet => ({
+    deviceId,
+    seq,
+    clock: { ...clock, [deviceId]: seq },
+    timestamp: '2024-01-01T10:00:00.000Z',
+    changes
+  });
+
+  beforeEach(() => {
+    deltaSync = new DeltaSync();
+  });
+
+  it('should round-trip change-set file names', () => {
+    expect(DeltaSync.fileName('device-abc', 42)).toBe('device-abc_00000042.json');
+    expect(DeltaSync.parseName('device-abc_00000042.json')).toMatchObject({ deviceId: 'device-abc', seq: 42 });
+    expect(DeltaSync.parseName('strength-log-sync.json')).toBeNull();
+  });
+
+  it('should only pick up change-sets newer than the clock', () => {
+    const listing = [...refs('phone', 1, 2, 3), ...refs('laptop', 1, 2)];
+
+    const result = deltaSync.pending(listing, { phone: 2, laptop: 2 });
+
+    expect(result.complete).toBe(true);
+    expect(result.refs.map(ref => ref.name)).toEqual(['phone_00000003.json']);
+  });
+
+  it('should report a gap when change-sets were compacted away', () => {
+    // Laptop 2-4 were folded into the snapshot; only its newest change-set is left
+    const listing = [...refs('phone', 1), ...refs('laptop', 5)];
+
+    const result = deltaSync.pending(listing, { laptop: 1 });
+
+    expect(result.complete).toBe(false);
+    expect(result.refs.map(ref => ref.name)).toEqual(['phone_00000001.json']);
+  });
+
+  it('should replay change-sets in causal order', () => {
+    const workout = createMockWorkout({ id: 'workout-1', notes: 'Original' });
+
+    // The laptop edited the workout after seeing the phone create it
+    const created = changeSet('phone', 1, {}, [
+      { entityType: 'workout', entityId: 'workout-1', operation: 'save', entity: workout }
+    ]);
+    const edited = changeSet('laptop', 1, { phone: 1 }, [
+      { entityType: 'workout', entityId: 'workout-1', operation: 'save', entity: { ...workout, notes: 'Edited' } }
+    ]);
+    const deletedExercise = changeSet('laptop', 2, { phone: 1, laptop: 1 }, [
+      { entityType: 'exercise', entityId: 'exercise-1', operation: 'delete' }
+    ]);
+
+    const result = deltaSync.apply(
+      { exercises: [createMockExercise({ id: 'exercise-1' })], workouts: [] },
+      [deletedExercise, edited, created]
+    );
+
+    expect(result.workouts).toHaveLength(1);
+    expect(result.workouts[0].notes).toBe('Edited');
+    expect(result.exercises).toHaveLength(0);
+    expect(deltaSync.advance({ phone: 1 }, [edited, deletedExercise])).toEqual({ phone: 1, laptop: 2 });
+  });
+
+  it('should compact covered change-sets but keep the newest of each device', () => {
+    const listing = [...refs('phone', 1, 2, 3), ...refs('laptop', 1, 2)];
+
+    const compactable = deltaSync.compactable(listing, { phone: 3, laptop: 1 });
+
+    expect(compactable.map(ref => ref.name).sort()).toEqual([
+      'laptop_00000001.json',
+      'phone_00000001.json',
+      'phone_00000002.json'
+    ]);
+    expect(deltaSync.nextSeq(listing, { phone: 1 }, 'phone')).toBe(4);
+  });
+});
@@ -0,0 +1,118 @@
+// 🧪 GitHubBackend Tests - Branch, folder and sharded layout
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'node:crypto';
+import { GitHubBackend } from '@core/GitHubBackend.js';
+import type { SyncUploadInfo } from '@core/SyncBackend.js';
+
+describe('GitHubBackend', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let requests: Array<{ method: string; url: string; body: any }>;
+
+  const api = 'https://api.github.com/repos/lifter/strengthlog';
+  const info: SyncUploadInfo = {
+    message: 'Auto-sync from device-phone - 2024-01-02T10:00:00.000Z',
+    timestamp: '2024-01-02T10:00:00.000Z',
+    deviceId: 'device-phone'
+  };
+
+  const blobSha = (content: string) => createHash('sha1').update(`blob ${Buffer.byteLength(content)}\0${content}`).digest('hex');
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  // Minimal GitHub API with an existing data branch holding a sharded backup
+  const respond = async (url: string, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+    requests.push({ method, url, body: init.body ? JSON.parse(init.body as string) : undefined });
+
+    if (url === `${api}/git/ref/heads/data`) return json({ object: { sha: 'head-sha' } });
+    if (url === `${api}/contents/sync?ref=data`) {
+      return json([
+        { type: 'file', name: 'exercises.json', sha: blobSha('[]') },
+        { type: 'file', name: 'sync.json', sha: 'old-sync' },
+        { type: 'file', name: 'workouts-2022.json', sha: 'old-2022' },
+        { type: 'dir', name: 'changes', sha: 'changes-tree' }
+      ]);
+    }
+    if (url === `${api}/git/commits/head-sha`) return json({ tree: { sha: 'tree-sha' } });
+    if (url === `${api}/git/trees`) return json({ sha: 'new-tree' }, 201);
+    if (url === `${api}/git/commits`) return json({ sha: 'new-commit' }, 201);
+    if (url === `${api}/git/refs/heads/data`) return json({});
+    if (method === 'PUT') return json({ content: {} }, 201);
+    return json({ message: 'Not Found' }, 404);
+  };
+
+  beforeEach(() => {
+    requests = [];
+    fetchMock = vi.fn(respond);
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should commit only changed shards to the configured branch and folder', async () => {
+    const backend = new GitHubBackend({
+      owner: 'lifter',
+      repo: 'strengthlog',
+      token: 'ghp_token',
+      filename: 'strength-log-sync.json',
+      branch: 'data',
+      path: '/sync/',
+      layout: 'sharded'
+    });
+
+    await backend.upload(JSON.stringify({
+      'sync.json': '{"lastSync":"2024-01-02T10:00:00.000Z"}',
+      'exercises.json': '[]',
+      'workouts-2024.json': '[]'
+    }), info);
+
+    const tree = requests.find(request => request.url === `${api}/git/trees`)!.body;
+    expect(tree.base_tree).toBe('tree-sha');
+    expect(tree.tree.map((entry: any) => [entry.path, entry.sha === null ? 'deleted' : 'written'])).toEqual([
+      ['sync/sync.json', 'written'],
+      ['sync/workouts-2024.json', 'written'],
+      ['sync/workouts-2022.json', 'deleted']
+    ]);
+
+    const update = requests.find(request => request.method === 'PATCH')!;
+    expect(update.url).toBe(`${api}/git/refs/heads/data`);
+    expect(update.body).toEqual({ sha: 'new-commit' });
+  });
+
+  it('should read and write the single file on the configured branch', async () => {
+    const backend = new GitHubBackend({
+      owner: 'lifter',
+      repo: 'strengthlog',
+      token: 'ghp_token',
+      filename: 'strength-log-sync.json',
+      branch: 'data',
+      path: 'sync'
+    });
+
+    await backend.upload('{}', info);
+
+    const put = requests.find(request => request.method === 'PUT')!;
+    expect(put.url).toBe(`${api}/contents/sync/strength-log-sync.json`);
+    expect(put.body.branch).toBe('data');
+    expect(await backend.download()).toBeNull();
+    expect(requests[requests.length - 1].url).toBe(`${api}/contents/sync/strength-log-sync.json?ref=data`);
+  });
+
+  it('should encode each segment of the file path', async () => {
+    const backend = new GitHubBackend({
+      owner: 'lifter',
+      repo: 'strengthlog',
+      token: 'ghp_token',
+      filename: 'log #1.json',
+      branch: 'data',
+      path: 'Training Data/2024'
+    });
+
+    await backend.upload('{}', info);
+
+    const put = requests.find(request => request.method === 'PUT')!;
+    expect(put.url).toBe(`${api}/contents/Training%20Data/2024/log%20%231.json`);
+  });
+});
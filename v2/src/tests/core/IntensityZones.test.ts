@@ -0,0 +1,83 @@
+// 🧪 IntensityZones Tests - Zones, Prilepin compliance and INOL
+
+import { describe, it, expect } from 'vitest';
+import { analyseSets, getIntensityZone } from '@core/IntensityZones.js';
+import { AnalyticsEngine } from '@core/AnalyticsEngine.js';
+
+const sets = (...entries: Array<[number, number]>) =>
+  entries.map(([weight, reps]) => createMockWorkoutSet({ weight, reps }));
+
+describe('Intensity zones', () => {
+  it('should bucket percentages into zones', () => {
+    expect([59.9, 60, 69.9, 70, 85, 90, 104].map(getIntensityZone))
+      .toEqual(['below_60', '60_70', '60_70', '70_80', '80_90', '90_plus', '90_plus']);
+  });
+
+  it('should sum zone volume, INOL and Prilepin compliance', () => {
+    const session = sets([65, 5], [75, 5], [75, 5], [75, 5], [85, 3], [95, 1]);
+    session.push(createMockWorkoutSet({ weight: 40, reps: 5, isWarmup: true }));
+
+    const result = analyseSets(session, 100);
+
+    expect(result.zones).toEqual({
+      below_60: { sets: 0, reps: 0 },
+      '60_70': { sets: 1, reps: 5 },
+      '70_80': { sets: 3, reps: 15 },
+      '80_90': { sets: 1, reps: 3 },
+      '90_plus': { sets: 1, reps: 1 }
+    });
+    // 5/35 + 3 × 5/25 + 3/15 + 1/5
+    expect(result.inol).toBe(1.14);
+    expect(result.prilepin.map(check => [check.zone, check.status])).toEqual([
+      ['60_70', 'under'],
+      ['70_80', 'within'],
+      ['80_90', 'under'],
+      ['90_plus', 'under']
+    ]);
+    expect(result.prilepin[1]).toMatchObject({ reps: 15, optimalReps: 18, repRange: [12, 24], setsInRange: 3, sets: 3 });
+  });
+
+  it('should cap sets at or above the e1RM for INOL', () => {
+    expect(analyseSets(sets([100, 1]), 100).inol).toBe(1);
+  });
+});
+
+describe('AnalyticsEngine intensity', () => {
+  const session = (id: string, date: string, work: Array<[number, number]>) => createMockWorkout({
+    id,
+    date,
+    exercises: [createMockWorkoutExercise({
+      id: `we-${id}`,
+      exerciseId: 'squat',
+      sets: sets(...work),
+      restTime: 180
+    })]
+  });
+
+  const engine = new AnalyticsEngine([createMockExercise({ id: 'squat' })], [
+    session('w1', '2024-01-01', [[100, 1]]),
+    session('w2', '2024-03-01', [[80, 5], [80, 5], [80, 5]]),
+    session('w3', '2024-03-02', [[70, 5], [70, 5]]),
+    session('w4', '2024-04-15', [[80, 5]])
+  ]);
+
+  it('should measure sets against the best e1RM of the last 12 weeks', () => {
+    const sessions = engine.getIntensitySessions('squat');
+
+    expect(sessions.map(entry => entry.referenceOneRepMax)).toEqual([100, 100, 100, 93.3]);
+    expect(sessions[1]!.zones['80_90']).toEqual({ sets: 3, reps: 15 });
+    expect(sessions[1]!.inol).toBe(0.75);
+    expect(sessions[3]!.zones['80_90'].reps).toBe(5); // 80 / 93.3 once the single drops out
+  });
+
+  it('should add up sessions per ISO week', () => {
+    const weeks = engine.getWeeklyIntensity('squat');
+
+    expect(weeks.map(week => [week.week, week.sessions, week.inol])).toEqual([
+      ['2024-W01', 1, 1],
+      ['2024-W09', 2, 1.08],
+      ['2024-W16', 1, 0.35]
+    ]);
+    expect(weeks[1]!.zones['70_80']).toEqual({ sets: 2, reps: 10 });
+  });
+});
@@ -0,0 +1,58 @@
+// 🧪 OneRepMax Tests - Formulas and the RPE chart
+
+import { describe, it, expect } from 'vitest';
+import { OneRepMaxEstimator, getRPEPercentage } from '@core/OneRepMax.js';
+
+describe('OneRepMaxEstimator', () => {
+  it('should estimate with the selected formula', () => {
+    expect(new OneRepMaxEstimator('epley').estimate(100, 5)).toBeCloseTo(116.7, 1);
+    expect(new OneRepMaxEstimator('brzycki').estimate(100, 5)).toBeCloseTo(112.5, 1);
+    expect(new OneRepMaxEstimator('lombardi').estimate(100, 5)).toBeCloseTo(117.5, 1);
+    expect(new OneRepMaxEstimator('mayhew').estimate(100, 5)).toBeCloseTo(119.0, 1);
+    expect(new OneRepMaxEstimator('wathan').estimate(100, 5)).toBeCloseTo(116.6, 1);
+  });
+
+  it('should treat a single as the 1RM and ignore empty sets', () => {
+    const estimator = new OneRepMaxEstimator('epley');
+
+    expect(estimator.estimate(140, 1)).toBe(140);
+    expect(estimator.estimate(0, 5)).toBe(0);
+    expect(estimator.estimate(100, 0)).toBe(0);
+  });
+
+  it('should prefer the RPE chart when it covers the set', () => {
+    const estimator = new OneRepMaxEstimator('epley');
+
+    // 5 reps at RPE 8 = 2 reps in reserve = 81.1%
+    expect(estimator.estimate(100, 5, 8)).toBeCloseTo(123.3, 1);
+
+    // RPE 5 is below the chart - falls back to the formula
+    expect(estimator.estimate(100, 5, 5)).toBeCloseTo(116.7, 1);
+  });
+
+  it('should pick the best set rounded to one decimal', () => {
+    const estimator = new OneRepMaxEstimator('brzycki');
+
+    expect(estimator.bestEstimate([
+      { weight: 100, reps: 5 },
+      { weight: 110, reps: 3 },
+      { weight: 60, reps: 0 }
+    ])).toBe(116.5);
+  });
+});
+
+describe('getRPEPercentage', () => {
+  it('should cover RPE 6-10 in half steps for 1-12 reps', () => {
+    expect(getRPEPercentage(10, 1)).toBe(100);
+    expect(getRPEPercentage(9.5, 1)).toBe(97.8);
+    expect(getRPEPercentage(9, 3)).toBe(89.2);
+    expect(getRPEPercentage(10, 12)).toBe(68.0);
+    expect(getRPEPercentage(6, 12)).toBe(57.3);
+  });
+
+  it('should return null outside the chart', () => {
+    expect(getRPEPercentage(5.5, 5)).toBeNull();
+    expect(getRPEPercentage(8, 13)).toBeNull();
+    expect(getRPEPercentage(8.25, 5)).toBeNull();
+  });
+});
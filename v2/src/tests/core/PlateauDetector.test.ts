@@ -0,0 +1,133 @@
+// 🧪 PlateauDetector Tests - Stalls, rising RPE and falling mood
+
+import { describe, it, expect } from 'vitest';
+import { PlateauDetector } from '@core/PlateauDetector.js';
+import { OneRepMaxEstimator } from '@core/OneRepMax.js';
+import { AnalyticsEngine } from '@core/AnalyticsEngine.js';
+
+type Top = { weight: number; reps: number; rpe?: number };
+
+const session = (date: string, top: Top, mood = 3) => {
+  const workout = createMockWorkout({
+    id: `w-${date}`,
+    date,
+    mood,
+    exercises: [createMockWorkoutExercise({
+      id: `we-${date}`,
+      exerciseId: 'bench',
+      sets: [createMockWorkoutSet(top)],
+      restTime: 180
+    })]
+  });
+  return { workout, exercise: workout.exercises[0]! };
+};
+
+const detector = new PlateauDetector(new OneRepMaxEstimator('epley'));
+
+describe('PlateauDetector', () => {
+  it('should flag a stalled e1RM and suggest another rep range', () => {
+    const sessions = [
+      session('2024-03-01', { weight: 90, reps: 5 }),
+      session('2024-03-08', { weight: 95, reps: 5 }),
+      session('2024-03-15', { weight: 95, reps: 4 }),
+      session('2024-03-22', { weight: 92.5, reps: 5 }),
+      session('2024-03-29', { weight: 95, reps: 5 })
+    ];
+
+    const [plateau] = detector.detectExercise('bench', 'Bench Press', sessions, '2024-03-30');
+
+    expect(plateau).toMatchObject({
+      id: 'plateau:bench:2024-03-08',
+      type: 'plateau',
+      severity: 'info',
+      exerciseId: 'bench',
+      title: 'Bench Press has not beaten its 110.8kg e1RM for 3 weeks',
+      action: 'Switch rep range: 6-8 reps for the next 3-4 weeks'
+    });
+    expect(plateau?.evidence.map(point => point.date)).toEqual(['2024-03-08', '2024-03-15', '2024-03-22', '2024-03-29']);
+  });
+
+  it('should suggest a deload when a stalled lift is already near failure', () => {
+    const sessions = [
+      session('2024-03-01', { weight: 100, reps: 3, rpe: 8 }),
+      session('2024-03-08', { weight: 100, reps: 3, rpe: 9 }),
+      session('2024-03-15', { weight: 100, reps: 2, rpe: 9.5 }),
+      session('2024-03-22', { weight: 100, reps: 3, rpe: 9.5 })
+    ];
+
+    const recommendations = detector.detectExercise('bench', 'Bench Press', sessions, '2024-03-22');
+
+    // 100x3 at RPE 8 is the best estimate, everything after felt harder
+    expect(recommendations.find(r => r.type === 'plateau')?.action)
+      .toBe('Deload 10% for one week (90kg), then build back up');
+  });
+
+  it('should flag rising RPE at the same load', () => {
+    const sessions = [
+      session('2024-03-01', { weight: 100, reps: 5, rpe: 7 }),
+      session('2024-03-04', { weight: 100, reps: 5, rpe: 8 }),
+      session('2024-03-08', { weight: 100, reps: 5, rpe: 8.5 })
+    ];
+
+    const [rising] = detector.detectExercise('bench', 'Bench Press', sessions, '2024-03-08');
+
+    expect(rising).toMatchObject({
+      id: 'rising_rpe:bench:100:2024-03-01',
+      type: 'rising_rpe',
+      severity: 'warning',
+      action: 'Deload 10% for one week (90kg), then return to 100kg'
+    });
+    expect(rising?.evidence.map(point => point.value)).toEqual([7, 8, 8.5]);
+  });
+
+  it('should leave progressing and abandoned lifts alone', () => {
+    const progressing = [
+      session('2024-03-01', { weight: 100, reps: 5, rpe: 8 }),
+      session('2024-03-08', { weight: 102.5, reps: 5, rpe: 8 }),
+      session('2024-03-15', { weight: 105, reps: 5, rpe: 8 })
+    ];
+    const stalled = [
+      session('2024-01-01', { weight: 100, reps: 5 }),
+      session('2024-01-15', { weight: 95, reps: 5 }),
+      session('2024-01-29', { weight: 95, reps: 5 })
+    ];
+
+    expect(detector.detectExercise('bench', 'Bench Press', progressing, '2024-03-15')).toEqual([]);
+    expect(detector.detectExercise('bench', 'Bench Press', stalled, '2024-06-01')).toEqual([]);
+  });
+
+  it('should flag a falling mood across workouts', () => {
+    const workouts = [
+      session('2024-03-01', { weight: 100, reps: 5 }, 5),
+      session('2024-03-06', { weight: 100, reps: 5 }, 4),
+      session('2024-03-11', { weight: 100, reps: 5 }, 2),
+      session('2024-03-16', { weight: 100, reps: 5 }, 2)
+    ].map(({ workout }) => workout);
+
+    expect(detector.detectMood(workouts, '2024-03-16')).toMatchObject({
+      id: 'falling_mood:2024-03-01',
+      type: 'falling_mood',
+      severity: 'warning',
+      exerciseId: null,
+      title: 'Workout mood dropped from 4.5 to 2 over 4 weeks'
+    });
+    expect(detector.detectMood(workouts.slice(0, 3), '2024-03-16')).toBeNull(); // Too few workouts
+  });
+});
+
+describe('AnalyticsEngine recommendations', () => {
+  it('should hide dismissed recommendations and snoozed ones until the snooze ends', () => {
+    const workouts = [
+      session('2024-03-01', { weight: 100, reps: 5, rpe: 7 }),
+      session('2024-03-04', { weight: 100, reps: 5, rpe: 8 }),
+      session('2024-03-08', { weight: 100, reps: 5, rpe: 8.5 })
+    ].map(({ workout }) => workout);
+    const engine = new AnalyticsEngine([createMockExercise({ id: 'bench', name: 'Bench Press' })], workouts);
+    const id = 'rising_rpe:bench:100:2024-03-01';
+
+    expect(engine.getRecommendations({}, '2024-03-08').map(r => r.id)).toEqual([id]);
+    expect(engine.getRecommendations({ [id]: null }, '2024-03-08')).toEqual([]);
+    expect(engine.getRecommendations({ [id]: '2024-03-15' }, '2024-03-08')).toEqual([]);
+    expect(engine.getRecommendations({ [id]: '2024-03-15' }, '2024-03-15').map(r => r.id)).toEqual([id]);
+  });
+});
@@ -0,0 +1,123 @@
+// 🧪 ProgramEngine Tests - Prescribing program sessions, progression rules and the calendar
+
+import { describe, it, expect } from 'vitest';
+import { ProgramEngine } from '@core/ProgramEngine.js';
+import { GZCLP, WENDLER_531 } from '@core/BuiltInPrograms.js';
+import type { ProgramState } from '@types/index.js';
+
+const lift = (id: string, name: string, oneRepMax: number) => createMockExercise({
+  id,
+  name,
+  personalBests: {
+    maxWeight: { value: 0, date: '', reps: 0 },
+    maxReps: { value: 0, date: '', weight: 0 },
+    maxVolume: { value: 0, date: '' },
+    estimatedOneRepMax: { value: oneRepMax, date: '' }
+  }
+});
+
+const exercises = [
+  lift('sq', 'Back Squat', 200),
+  lift('bp', 'Bench Press', 120),
+  lift('dl', 'Deadlift', 220),
+  lift('ohp', 'Overhead Press', 70)
+];
+
+// Log the prescribed session, short of reps on the given exercises
+const logSession = (engine: ProgramEngine, state: ProgramState, missed: string[] = []) => {
+  const workoutExercises = engine.buildExercises(engine.prescribe(state), 120);
+  workoutExercises
+    .filter(exercise => missed.includes(exercise.exerciseId))
+    .forEach(exercise => { exercise.sets[exercise.sets.length - 1]!.reps = 0; });
+  return createMockWorkout({ exercises: workoutExercises });
+};
+
+describe('ProgramEngine', () => {
+  it('should prescribe 5/3/1 waves off a 90% training max with an AMRAP top set', () => {
+    const engine = new ProgramEngine(WENDLER_531);
+    const state = engine.createState({ startDate: '2024-01-01', exercises });
+
+    expect(state.exerciseIds).toEqual({ press: 'ohp', deadlift: 'dl', bench: 'bp', squat: 'sq' });
+    expect(state.trainingMaxes['squat']).toBe(180);
+
+    const week1 = engine.prescribe(state, 3);
+    expect(week1.day).toBe('Squat');
+    // 65/75/85% of 180, to the nearest 2.5kg
+    expect(week1.exercises[0]!.sets).toEqual([
+      { weight: 117.5, reps: 5, amrap: false },
+      { weight: 135, reps: 5, amrap: false },
+      { weight: 152.5, reps: 5, amrap: true }
+    ]);
+
+    const week3 = engine.prescribe(state, 11);
+    expect(week3.week).toBe('Week 3 (5/3/1)');
+    expect(week3.exercises[0]!.sets.map(set => [set.weight, set.reps])).toEqual([[135, 5], [152.5, 3], [170, 1]]);
+    expect(engine.prescribe(state, 16).cycle).toBe(2);
+
+    const built = engine.buildExercises(week1, 180);
+    expect(built[0]!.exerciseId).toBe('sq');
+    expect(built[0]!.sets.map(set => set.isAmrap === true)).toEqual([false, false, true]);
+  });
+
+  it('should settle a 5/3/1 cycle once its last session is logged', () => {
+    const engine = new ProgramEngine(WENDLER_531);
+    let state = engine.createState({ startDate: '2024-01-01', exercises });
+    const before = { ...state.trainingMaxes };
+
+    for (let session = 0; session < 16; session++) {
+      const { state: next, changes } = engine.advance(state, logSession(engine, state, session === 6 ? ['bp'] : []));
+      if (session < 15) expect(changes).toEqual([]);
+      state = next;
+    }
+
+    expect(state.position).toBe(16);
+    expect(state.trainingMaxes['squat']).toBe(before['squat']! + 5);
+    expect(state.trainingMaxes['press']).toBe(before['press']! + 2.5);
+    // Bench missed its AMRAP minimum - 10% off 107.5
+    expect(state.trainingMaxes['bench']).toBe(97.5);
+    expect(state.failures).toEqual({});
+  });
+
+  it('should move GZCLP lifts through their set schemes before deloading', () => {
+    const engine = new ProgramEngine(GZCLP);
+    let state = engine.createState({
+      startDate: '2024-01-01',
+      exercises,
+      exerciseIds: { 'bench-t2': null },
+      trainingMaxes: { 'squat-t1': 100 }
+    });
+
+    // Day A1 - squat T1 only, bench T2 has no exercise
+    expect(engine.buildExercises(engine.prescribe(state), 120).map(exercise => exercise.exerciseId)).toEqual(['sq']);
+
+    let result = engine.advance(state, logSession(engine, state));
+    expect(result.changes).toEqual([{ lift: 'squat-t1', from: 100, to: 105, reason: 'progress' }]);
+    state = { ...result.state, position: 0 };
+
+    result = engine.advance(state, logSession(engine, state, ['sq']));
+    expect(result.changes[0]!.reason).toBe('next_stage');
+    state = { ...result.state, position: 0 };
+    expect(engine.prescribe(state).exercises[0]!.sets).toHaveLength(6);
+    expect(engine.prescribe(state).exercises[0]!.sets.every(set => set.weight === 105 && set.reps === 2)).toBe(true);
+
+    state = { ...engine.advance(state, logSession(engine, state, ['sq'])).state, position: 0 };
+    expect(engine.prescribe(state).exercises[0]!.sets).toHaveLength(10);
+
+    result = engine.advance(state, logSession(engine, state, ['sq']));
+    expect(result.changes).toEqual([{ lift: 'squat-t1', from: 105, to: 90, reason: 'deload' }]);
+    expect(result.state.stages['squat-t1']).toBe(0);
+  });
+
+  it('should lay out upcoming sessions on the training days', () => {
+    const engine = new ProgramEngine(GZCLP);
+    const state = { ...engine.createState({ startDate: '2024-01-01', exercises }), position: 5 };
+
+    // Mon/Wed/Fri from the start date, even when asked from before it
+    const upcoming = engine.schedule(state, '2023-12-25', 4);
+    expect(upcoming.map(entry => entry.date)).toEqual(['2024-01-01', '2024-01-03', '2024-01-05', '2024-01-08']);
+    expect(upcoming.map(entry => entry.session.day)).toEqual(['B1', 'A2', 'B2', 'A1']);
+
+    expect(engine.schedule(state, '2024-01-06', 1)[0]!.date).toBe('2024-01-08');
+    expect(engine.schedule({ ...state, trainingDays: [] }, '2024-01-01', 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+// 🧪 ProgressionSuggestions Tests - Double progression, fixed increments and RPE targets
+
+import { describe, it, expect } from 'vitest';
+import { suggestNextSession } from '@core/ProgressionSuggestions.js';
+import type { ProgressionSettings } from '@types/index.js';
+
+const settings = (overrides: Partial<ProgressionSettings> = {}): ProgressionSettings => ({
+  model: 'double',
+  repRange: { min: 8, max: 12 },
+  targetRpe: 8,
+  ...overrides
+});
+
+const session = (date: string, sets: Array<{ weight: number; reps: number; isWarmup?: boolean; isFailure?: boolean; rpe?: number }>) =>
+  createMockWorkout({
+    id: `w-${date}`,
+    date,
+    exercises: [createMockWorkoutExercise({
+      id: `we-${date}`,
+      exerciseId: 'row',
+      sets: sets.map((set, index) => createMockWorkoutSet({ id: `${date}-${index}`, ...set }))
+    })]
+  });
+
+const barbellRow = createMockExercise({ id: 'row', name: 'Barbell Row', equipmentType: 'barbell' });
+
+describe('ProgressionSuggestions', () => {
+  it('should add reps within the range, then load, from the latest session', () => {
+    const history = [
+      session('2024-01-01', [{ weight: 60, reps: 12 }, { weight: 60, reps: 12 }]),
+      session('2024-01-08', [{ weight: 40, reps: 10, isWarmup: true }, { weight: 60, reps: 10 }, { weight: 60, reps: 9 }, { weight: 60, reps: 8 }])
+    ];
+
+    const building = suggestNextSession(barbellRow, history, settings())!;
+    expect([building.sets, building.weight, building.reps]).toEqual([3, 60, 9]);
+    expect(building.basedOn).toBe('2024-01-08');
+
+    const topped = suggestNextSession(barbellRow, history.slice(0, 1), settings())!;
+    expect([topped.sets, topped.weight, topped.reps]).toEqual([2, 62.5, 8]);
+
+    expect(suggestNextSession(barbellRow, [], settings())).toBeNull();
+  });
+
+  it('should add a fixed increment only after every set was completed', () => {
+    const completed = [session('2024-01-01', [{ weight: 100, reps: 5 }, { weight: 100, reps: 5 }, { weight: 100, reps: 5 }])];
+    const missed = [session('2024-01-01', [{ weight: 100, reps: 5 }, { weight: 100, reps: 5 }, { weight: 100, reps: 3, isFailure: true }])];
+
+    expect(suggestNextSession(barbellRow, completed, settings({ model: 'increment' }))).toMatchObject({ sets: 3, weight: 102.5, reps: 5 });
+    expect(suggestNextSession(barbellRow, missed, settings({ model: 'increment' }))).toMatchObject({ sets: 3, weight: 100, reps: 5 });
+  });
+
+  it('should load the next session for a target RPE from the estimated 1RM', () => {
+    // 100kg × 5 @ RPE 10 is 86.3% of 1RM (115.9kg) - 5 reps at RPE 8 is 81.1% of it
+    const history = [session('2024-01-01', [{ weight: 100, reps: 5, rpe: 10 }])];
+
+    const suggestion = suggestNextSession(barbellRow, history, settings({ model: 'rpe', targetRpe: 8 }))!;
+    expect([suggestion.weight, suggestion.reps]).toEqual([95, 5]);
+  });
+
+  it('should step by the equipment increment, or add reps when the load cannot move', () => {
+    const history = [session('2024-01-01', [{ weight: 20, reps: 12 }])];
+
+    const dumbbell = createMockExercise({ id: 'row', equipmentType: 'dumbbell' });
+    expect(suggestNextSession(dumbbell, history, settings())).toMatchObject({ weight: 22, reps: 8 });
+
+    const bodyweight = createMockExercise({ id: 'row', equipmentType: 'bodyweight' });
+    expect(suggestNextSession(bodyweight, history, settings())).toMatchObject({ weight: 20, reps: 13 });
+  });
+});
@@ -0,0 +1,71 @@
+// 🧪 RepMaxes Tests - Rep-max table and rep PRs
+
+import { describe, it, expect } from 'vitest';
+import { RepMaxTracker } from '@core/RepMaxes.js';
+import { AnalyticsEngine } from '@core/AnalyticsEngine.js';
+
+const session = (id: string, date: string, sets: Array<[number, number]>) => createMockWorkout({
+  id,
+  date,
+  exercises: [createMockWorkoutExercise({
+    id: `we-${id}`,
+    exerciseId: 'squat',
+    sets: sets.map(([weight, reps]) => createMockWorkoutSet({ weight, reps })),
+    restTime: 180
+  })]
+});
+
+describe('RepMaxTracker', () => {
+  it('should keep the heaviest weight per rep count', () => {
+    const tracker = new RepMaxTracker();
+    const first = session('w1', '2024-01-01', [[100, 5], [105, 5], [120, 1]]);
+    const second = session('w2', '2024-01-08', [[110, 5], [40, 25]]);
+
+    tracker.add(first, first.exercises[0]!.sets);
+    tracker.add(second, second.exercises[0]!.sets);
+
+    expect(tracker.table()).toEqual([
+      { reps: 1, weight: 120, date: '2024-01-01', workoutId: 'w1' },
+      { reps: 5, weight: 110, date: '2024-01-08', workoutId: 'w2' }
+    ]);
+  });
+
+  it('should only count sets heavier than anything done for as many reps as PRs', () => {
+    const tracker = new RepMaxTracker();
+    const first = session('w1', '2024-01-01', [[100, 5]]);
+    const second = session('w2', '2024-01-08', [[95, 3], [105, 3], [90, 8]]);
+
+    expect(tracker.add(first, first.exercises[0]!.sets)).toEqual([]); // Nothing to beat yet
+
+    // 105x3 beats the 100 done for 5 reps, 8 reps were never done before
+    expect(tracker.add(second, second.exercises[0]!.sets)).toEqual([
+      { reps: 3, weight: 105, date: '2024-01-08', workoutId: 'w2' }
+    ]);
+  });
+
+  it('should ignore warmups and bodyweight sets', () => {
+    const tracker = new RepMaxTracker();
+    const workout = session('w1', '2024-01-01', [[0, 12]]);
+    workout.exercises[0]!.sets.push(createMockWorkoutSet({ weight: 60, reps: 5, isWarmup: true }));
+
+    tracker.add(workout, workout.exercises[0]!.sets);
+
+    expect(tracker.table()).toEqual([]);
+  });
+});
+
+describe('AnalyticsEngine rep maxes', () => {
+  it('should raise pr_rep_max milestones and expose the table', () => {
+    const engine = new AnalyticsEngine([createMockExercise({ id: 'squat' })], [
+      session('w1', '2024-01-01', [[100, 5], [110, 3]]),
+      session('w2', '2024-01-08', [[115, 3]])
+    ]);
+
+    const milestones = engine.generateProgressionChart('squat', 'all').milestones.filter(m => m.type === 'pr_rep_max');
+
+    expect(milestones).toEqual([
+      { date: '2024-01-08', type: 'pr_rep_max', value: 115, reps: 3, description: 'New 3RM: 115kg' }
+    ]);
+    expect(engine.getRepMaxTable('squat').map(entry => [entry.reps, entry.weight])).toEqual([[3, 115], [5, 100]]);
+  });
+});
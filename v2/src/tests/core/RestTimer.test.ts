@@ -0,0 +1,45 @@
+// 🧪 RestTimer Tests - Timestamp countdown, expiry and the rest actually taken
+
+import { describe, it, expect } from 'vitest';
+import { RestTimer, formatRestTime } from '@core/RestTimer.js';
+
+describe('RestTimer', () => {
+  it('should count down from timestamps and run over', () => {
+    const timer = new RestTimer();
+    timer.start('set-1', 90, 0);
+
+    expect(timer.isRunning).toBe(true);
+    expect(timer.remaining(30_000)).toBe(60);
+    // A throttled background tab catches up on the next check
+    expect(timer.remaining(105_400)).toBe(-15);
+  });
+
+  it('should report expiry once per rest', () => {
+    const timer = new RestTimer();
+    timer.start('set-1', 60, 0);
+
+    expect(timer.takeExpiry(59_000)).toBe(false);
+    expect(timer.takeExpiry(60_000)).toBe(true);
+    expect(timer.takeExpiry(61_000)).toBe(false);
+
+    timer.reset(61_000);
+    expect(timer.remaining(61_000)).toBe(60);
+    expect(timer.takeExpiry(121_000)).toBe(true);
+  });
+
+  it('should return the rest taken when stopped or restarted', () => {
+    const timer = new RestTimer();
+    expect(timer.stop(0)).toBeNull();
+
+    timer.start('set-1', 90, 0);
+    expect(timer.start('set-2', 90, 75_000)).toEqual({ setId: 'set-1', seconds: 75 });
+    expect(timer.stop(195_000)).toEqual({ setId: 'set-2', seconds: 120 });
+    expect(timer.isRunning).toBe(false);
+  });
+
+  it('should format countdown and overtime', () => {
+    expect(formatRestTime(90)).toBe('1:30');
+    expect(formatRestTime(5)).toBe('0:05');
+    expect(formatRestTime(-15)).toBe('+0:15');
+  });
+});
@@ -0,0 +1,82 @@
+// 🧪 StrengthScores Tests - Wilks, DOTS, IPF GL and bodyweight smoothing
+
+import { describe, it, expect } from 'vitest';
+import { wilks, dots, ipfGL, smoothBodyweight, bodyweightOn, resolveCompetitionLifts } from '@core/StrengthScores.js';
+import { AnalyticsEngine } from '@core/AnalyticsEngine.js';
+
+describe('Strength scores', () => {
+  it('should score a total against bodyweight', () => {
+    expect(wilks(700, 100, 'male')).toBeCloseTo(426.0, 1);
+    expect(dots(700, 100, 'male')).toBeCloseTo(430.9, 1);
+    expect(ipfGL(700, 100, 'male')).toBeCloseTo(88.4, 1);
+
+    expect(wilks(400, 60, 'female')).toBeCloseTo(445.95, 1);
+    expect(dots(400, 60, 'female')).toBeCloseTo(443.4, 1);
+    expect(ipfGL(400, 60, 'female')).toBeCloseTo(90.4, 1);
+  });
+
+  it('should clamp bodyweights outside the formula range and ignore empty totals', () => {
+    expect(wilks(500, 250, 'male')).toBe(wilks(500, 201.9, 'male'));
+    expect(dots(0, 80, 'female')).toBe(0);
+  });
+});
+
+describe('Bodyweight trend', () => {
+  it('should smooth weigh-ins by the days between them', () => {
+    const trend = smoothBodyweight([
+      { id: 'b3', date: '2024-01-08', weight: 80 },
+      { id: 'b1', date: '2024-01-01', weight: 82 },
+      { id: 'b2', date: '2024-01-02', weight: 81 }
+    ]);
+
+    // 82 → 81.9 after a day → six days later 47% of the way to 80
+    expect(trend.map(point => point.trend)).toEqual([82, 81.9, 81]);
+    expect(bodyweightOn(trend, '2023-12-01')).toBe(82);
+    expect(bodyweightOn(trend, '2024-01-05')).toBe(81.9);
+    expect(bodyweightOn([], '2024-01-05')).toBeNull();
+  });
+
+  it('should guess the competition lifts from exercise names', () => {
+    const exercises = [
+      createMockExercise({ id: 'bb-squat', name: 'Back Squat' }),
+      createMockExercise({ id: 'bench', name: 'Bench Press' }),
+      createMockExercise({ id: 'row', name: 'Barbell Row' })
+    ];
+
+    expect(resolveCompetitionLifts(exercises, { squat: null, bench: 'row', deadlift: null }))
+      .toEqual({ squat: 'bb-squat', bench: 'row', deadlift: null });
+  });
+});
+
+describe('AnalyticsEngine strength scores', () => {
+  const lift = (id: string, date: string, exerciseId: string, weight: number, reps: number) => createMockWorkout({
+    id,
+    date,
+    exercises: [createMockWorkoutExercise({
+      id: `we-${id}`,
+      exerciseId,
+      sets: [createMockWorkoutSet({ weight, reps })],
+      restTime: 180
+    })]
+  });
+
+  it('should score the running best of each lift once all three are done', () => {
+    const engine = new AnalyticsEngine([], [
+      lift('w1', '2024-01-01', 'squat', 200, 1),
+      lift('w2', '2024-01-02', 'bench', 140, 1),
+      lift('w3', '2024-01-03', 'deadlift', 250, 1),
+      lift('w4', '2024-01-08', 'bench', 130, 3)
+    ]);
+    const lifts = { squat: 'squat', bench: 'bench', deadlift: 'deadlift' };
+    const bodyweight = smoothBodyweight([{ id: 'b1', date: '2024-01-01', weight: 100 }]);
+
+    const actual = engine.getStrengthScores(lifts, bodyweight, 'male', 'actual');
+    expect(actual.map(point => [point.date, point.total])).toEqual([['2024-01-03', 590], ['2024-01-08', 590]]);
+    expect(actual[0]!.dots).toBe(dots(590, 100, 'male'));
+
+    // 130x3 only beats the 140 single as an estimated 1RM
+    const estimated = engine.getStrengthScores(lifts, bodyweight, 'male', 'e1rm');
+    expect(estimated.map(point => point.lifts.bench)).toEqual([140, 143]);
+    expect(engine.getStrengthScores(lifts, [], 'male')).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+// 🧪 SyncCrypto Tests - End-to-end encryption of sync payloads
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncCrypto } from '@core/SyncCrypto.js';
+
+describe('SyncCrypto', () => {
+  let syncCrypto: SyncCrypto;
+  const plaintext = JSON.stringify({ notes: 'Bodyweight 82.4kg' });
+
+  beforeEach(async () => {
+    // Few iterations keep the tests fast
+    syncCrypto = new SyncCrypto(1000);
+    await syncCrypto.setPassphrase('correct horse battery staple');
+  });
+
+  it('should encrypt payloads so the plaintext is not visible', async () => {
+    const payload = await syncCrypto.encrypt(plaintext);
+
+    expect(SyncCrypto.isEncrypted(payload)).toBe(true);
+    expect(JSON.stringify(payload)).not.toContain('Bodyweight');
+    expect(await syncCrypto.decrypt(payload)).toBe(plaintext);
+  });
+
+  it('should unlock payloads from another device with the right passphrase', async () => {
+    const payload = await syncCrypto.encrypt(plaintext);
+    const otherDevice = new SyncCrypto(1000);
+
+    await expect(otherDevice.decrypt(payload)).rejects.toThrow('enter your passphrase');
+    await expect(otherDevice.unlock('wrong passphrase', payload)).rejects.toThrow('Wrong passphrase');
+
+    await otherDevice.unlock('correct horse battery staple', payload);
+    expect(await otherDevice.decrypt(payload)).toBe(plaintext);
+  });
+
+  it('should rotate keys while keeping older payloads readable', async () => {
+    const before = await syncCrypto.encrypt(plaintext);
+
+    expect(await syncCrypto.verifyPassphrase('not it')).toBe(false);
+    expect(await syncCrypto.verifyPassphrase('correct horse battery staple')).toBe(true);
+
+    await syncCrypto.setPassphrase('new passphrase');
+    const after = await syncCrypto.encrypt(plaintext);
+
+    expect(after.kdf.salt).not.toBe(before.kdf.salt);
+    expect(await syncCrypto.decrypt(before)).toBe(plaintext);
+    expect(await syncCrypto.verifyPassphrase('new passphrase')).toBe(true);
+  });
+
+  it('should reject tampered payloads', async () => {
+    const payload = await syncCrypto.encrypt(plaintext);
+    const tampered = { ...payload, data: payload.data.replace(/^./, c => (c === 'A' ? 'B' : 'A')) };
+
+    await expect(syncCrypto.decrypt(tampered)).rejects.toThrow('could not be decrypted');
+  });
+});
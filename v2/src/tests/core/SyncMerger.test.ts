@@ -0,0 +1,152 @@
+// 🧪 SyncMerger Tests - Three-way merge of local and cloud data
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncMerger, type SyncDataset } from '@core/SyncMerger.js';
+import type { WorkoutSession } from '@types/index.js';
+
+describe('SyncMerger', () => {
+  let merger: SyncMerger;
+  let base: SyncDataset;
+
+  const workoutExercise = (id: string, weight: number, reps = 5) => ({
+    id,
+    exerciseId: 'exercise-1',
+    sets: [createMockWorkoutSet({ id: `${id}-set`, weight, reps })],
+    notes: '',
+    restTime: 90,
+    metrics: {
+      totalVolume: weight * reps,
+      maxWeight: weight,
+      maxReps: reps,
+      estimatedOneRepMax: weight * (1 + reps / 30),
+      volumePerMinute: 0,
+      intensityScore: 0
+    },
+    progression: {
+      weightChange: 0,
+      volumeChange: 0,
+      strengthChange: 0,
+      isPersonalBest: false,
+      streak: 0,
+      lastImprovement: ''
+    }
+  });
+
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  beforeEach(() => {
+    merger = new SyncMerger();
+    base = {
+      exercises: [createMockExercise({ id: 'exercise-1', name: 'Bench Press' })],
+      workouts: [
+        createMockWorkout({ id: 'workout-1', exercises: [workoutExercise('we-1', 100)], totalVolume: 500 })
+      ]
+    };
+  });
+
+  it('should keep a workout logged offline when the cloud changed first', () => {
+    const local = clone(base);
+    local.workouts.push(createMockWorkout({ id: 'phone-workout', date: '2024-01-03' }));
+
+    const remote = clone(base);
+    remote.workouts.push(createMockWorkout({ id: 'laptop-workout', date: '2024-01-02' }));
+
+    const result = merger.merge(base, local, remote, new Set(['phone-workout']));
+
+    expect(result.workouts.map(w => w.id).sort()).toEqual(['laptop-workout', 'phone-workout', 'workout-1']);
+    expect(result.conflicts).toHaveLength(0);
+  });
+
+  it('should merge edits to different fields of the same workout', () => {
+    const local = clone(base);
+    local.workouts[0].notes = 'Felt strong';
+
+    const remote = clone(base);
+    remote.workouts[0].mood = 5;
+
+    const result = merger.merge(base, local, remote, new Set(['workout-1']));
+    const workout = result.workouts[0];
+
+    expect(workout.notes).toBe('Felt strong');
+    expect(workout.mood).toBe(5);
+    expect(result.conflicts).toHaveLength(0);
+  });
+
+  it('should apply cloud deletions of entities that were not changed locally', () => {
+    const local = clone(base);
+    const remote = { ...clone(base), workouts: [] };
+
+    const result = merger.merge(base, local, remote, new Set());
+
+    expect(result.workouts).toHaveLength(0);
+  });
+
+  it('should report a conflict when both devices edit the same field', () => {
+    const local = clone(base);
+    local.workouts[0].notes = 'Phone notes';
+
+    const remote = clone(base);
+    remote.workouts[0].notes = 'Laptop notes';
+
+    const result = merger.merge(base, local, remote, new Set(['workout-1']));
+
+    expect(result.workouts[0].notes).toBe('Phone notes');
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      entityType: 'workout',
+      entityId: 'workout-1',
+      path: ['notes'],
+      local: 'Phone notes',
+      remote: 'Laptop notes'
+    });
+  });
+
+  it('should treat conflicting sets as one conflict and keep totals consistent', () => {
+    const local = clone(base);
+    local.workouts[0].exercises = [workoutExercise('we-1', 105)];
+
+    const remote = clone(base);
+    remote.workouts[0].exercises = [workoutExercise('we-1', 110)];
+
+    const result = merger.merge(base, local, remote, new Set(['workout-1']));
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].path).toEqual(['exercises', 'we-1']);
+    expect(result.workouts[0].totalVolume).toBe(525);
+
+    const resolved = clone(result.workouts[0]) as WorkoutSession;
+    merger.applyResolution('workout', resolved, result.conflicts[0].path, result.conflicts[0].remote);
+
+    expect(resolved.exercises[0].sets[0].weight).toBe(110);
+    expect(resolved.totalVolume).toBe(550);
+  });
+
+  it('should report a conflict when a locally edited workout was deleted in the cloud', () => {
+    const local = clone(base);
+    local.workouts[0].notes = 'Edited offline';
+
+    const remote = { ...clone(base), workouts: [] };
+
+    const result = merger.merge(base, local, remote, new Set(['workout-1']));
+
+    expect(result.workouts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ path: [], remote: undefined });
+  });
+
+  it('should diff a revision against local data ignoring recalculated fields', () => {
+    const revision = clone(base);
+    revision.workouts.push(createMockWorkout({ id: 'deleted-since' }));
+    revision.exercises[0].totalWorkouts = 42;
+
+    const current = clone(base);
+    current.workouts[0].notes = 'Edited since';
+    current.workouts.push(createMockWorkout({ id: 'added-since' }));
+
+    const diff = merger.diff(current, revision);
+
+    expect(diff.workouts.added.map(w => w.id)).toEqual(['deleted-since']);
+    expect(diff.workouts.removed.map(w => w.id)).toEqual(['added-since']);
+    expect(diff.workouts.changed.map(change => change.other.id)).toEqual(['workout-1']);
+    expect(diff.exercises.changed).toHaveLength(0);
+  });
+});
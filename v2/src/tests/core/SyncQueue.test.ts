@@ -0,0 +1,63 @@
+// 🧪 SyncQueue Tests - Debounced uploads with backoff
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SyncQueue } from '@core/SyncQueue.js';
+
+describe('SyncQueue', () => {
+  let flush: ReturnType<typeof vi.fn>;
+  let queue: SyncQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    flush = vi.fn().mockResolvedValue(true);
+    queue = new SyncQueue(flush, 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should coalesce a burst of saves into one upload', async () => {
+    for (let i = 0; i < 6; i++) {
+      queue.enqueue();
+      await vi.advanceTimersByTimeAsync(200);
+    }
+
+    expect(flush).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(queue.hasPending()).toBe(false);
+  });
+
+  it('should persist pending changes so they survive a reload', () => {
+    queue.enqueue();
+
+    expect(localStorage.setItem).toHaveBeenCalledWith('sync-queue', expect.stringContaining('"attempts":0'));
+  });
+
+  it('should back off exponentially and honour the server retry delay', async () => {
+    flush
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockRejectedValueOnce(Object.assign(new Error('GitHub rate limit reached'), { retryAfter: 10 * 60 * 1000 }))
+      .mockResolvedValue(true);
+
+    queue.enqueue();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(flush).toHaveBeenCalledTimes(1);
+
+    // First retry after the base backoff
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(flush).toHaveBeenCalledTimes(2);
+
+    // Saves while backing off don't trigger an early retry
+    queue.enqueue();
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(flush).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(flush).toHaveBeenCalledTimes(3);
+    expect(queue.hasPending()).toBe(false);
+  });
+});
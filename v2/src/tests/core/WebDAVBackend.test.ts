@@ -0,0 +1,108 @@
+// 🧪 WebDAVBackend Tests - Sync through a WebDAV server
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebDAVBackend } from '@core/WebDAVBackend.js';
+import type { SyncUploadInfo } from '@core/SyncBackend.js';
+
+describe('WebDAVBackend', () => {
+  let backend: WebDAVBackend;
+  let files: Map<string, string>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const content = '{"exercises":[],"workouts":[]}';
+  const info: SyncUploadInfo = {
+    message: 'Auto-sync',
+    timestamp: '2024-01-02T10:00:00.000Z',
+    deviceId: 'device-phone'
+  };
+
+  // Minimal in-memory WebDAV server
+  const respond = async (url: string, init: RequestInit) => {
+    const path = url.replace('https://dav.example.com/sync/', '');
+
+    switch (init.method) {
+      case 'PUT':
+        files.set(path, init.body as string);
+        return new Response(null, { status: 201 });
+      case 'GET':
+        return files.has(path)
+          ? new Response(files.get(path))
+          : new Response(null, { status: 404 });
+      case 'MKCOL':
+        return new Response(null, { status: 405 });
+      case 'PROPFIND': {
+        const hrefs = [...files.keys()]
+          .filter(name => name.startsWith(path))
+          .map(name => `<d:response><d:href>/sync/${name}</d:href></d:response>`)
+          .join('');
+        return new Response(`<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">${hrefs}</d:multistatus>`, { status: 207 });
+      }
+      default:
+        return new Response(null, { status: 204 });
+    }
+  };
+
+  beforeEach(() => {
+    files = new Map();
+    fetchMock = vi.fn(respond);
+    vi.stubGlobal('fetch', fetchMock);
+
+    backend = new WebDAVBackend({
+      url: 'https://dav.example.com/sync/',
+      username: 'lifter',
+      password: 'app-password',
+      filename: 'strength-log-sync.json'
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return null when nothing has been uploaded', async () => {
+    expect(await backend.download()).toBeNull();
+  });
+
+  it('should upload and download backups with basic auth', async () => {
+    await backend.upload(content, info);
+
+    expect(await backend.download()).toBe(content);
+
+    const headers = fetchMock.mock.calls[0][1].headers as Record<string, string>;
+    expect(headers['Authorization']).toBe(`Basic ${btoa('lifter:app-password')}`);
+  });
+
+  it('should keep each upload as a revision', async () => {
+    await backend.upload('first', info);
+    await backend.upload('second', { ...info, timestamp: '2024-01-03T10:00:00.000Z' });
+
+    const revisions = await backend.listRevisions();
+
+    expect(revisions).toHaveLength(2);
+    expect(revisions[0].timestamp).toBe('2024-01-03T10:00:00.000Z');
+    expect(await backend.getRevision(revisions[1].id)).toBe('first');
+  });
+
+  it('should store, list and delete change-sets', async () => {
+    await backend.putChangeSet('device-phone_00000001.json', 'first');
+    await backend.putChangeSet('device-phone_00000002.json', 'second');
+
+    expect((await backend.listChangeSets()).sort()).toEqual([
+      'device-phone_00000001.json',
+      'device-phone_00000002.json'
+    ]);
+    expect(await backend.getChangeSet('device-phone_00000002.json')).toBe('second');
+
+    await backend.deleteChangeSet('device-phone_00000001.json');
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      'https://dav.example.com/sync/changes/device-phone_00000001.json',
+      expect.objectContaining({ method: 'DELETE' })
+    );
+  });
+
+  it('should throw when the server rejects an upload', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 401 }));
+
+    await expect(backend.upload(content, info)).rejects.toThrow('WebDAV upload failed: 401');
+  });
+});
@@ -0,0 +1,65 @@
+// 🧪 WorkoutTemplates Tests - Pre-filling sessions from routines and saving workouts as routines
+
+import { describe, it, expect } from 'vitest';
+import { buildTemplateExercises, repeatLastSession, templateFromWorkout } from '@core/WorkoutTemplates.js';
+import type { WorkoutTemplate } from '@types/index.js';
+
+const template: WorkoutTemplate = {
+  id: 'push',
+  name: 'Push Day',
+  exercises: [
+    { exerciseId: 'bench', sets: 3, reps: 5, load: 80, loadType: 'percent', restTime: 180 },
+    { exerciseId: 'dips', sets: 2, reps: 10, load: 20, loadType: 'weight', restTime: 90 },
+    { exerciseId: 'pushups', sets: 1, reps: 20, load: null, loadType: 'weight', restTime: 60 }
+  ],
+  dateCreated: '2024-01-01T00:00:00.000Z'
+};
+
+const exercise = (exerciseId: string, sets: Array<[number, number, boolean?]>) => createMockWorkoutExercise({
+  id: `we-${exerciseId}`,
+  exerciseId,
+  sets: sets.map(([weight, reps, isWarmup], index) =>
+    createMockWorkoutSet({ id: `${exerciseId}-${index}`, weight, reps, isWarmup: isWarmup ?? false })),
+  restTime: 150
+});
+
+describe('WorkoutTemplates', () => {
+  it('should pre-fill target sets, resolving %1RM loads to the nearest 2.5kg', () => {
+    const exercises = buildTemplateExercises(template, { bench: 121 });
+
+    expect(exercises.map(e => e.exerciseId)).toEqual(['bench', 'dips', 'pushups']);
+    // 80% of 121 = 96.8
+    expect(exercises[0]!.sets.map(set => [set.weight, set.reps])).toEqual([[97.5, 5], [97.5, 5], [97.5, 5]]);
+    expect(exercises[0]!.restTime).toBe(180);
+    expect(exercises[1]!.sets.map(set => set.weight)).toEqual([20, 20]);
+    expect(exercises[2]!.sets[0]!.weight).toBe(0);
+
+    // Without an estimate there is nothing to take a percentage of
+    expect(buildTemplateExercises(template, {})[0]!.sets[0]!.weight).toBe(0);
+  });
+
+  it('should repeat the sets of the most recent session of the routine', () => {
+    const workouts = [
+      createMockWorkout({ id: 'w1', date: '2024-01-01', templateId: 'push', exercises: [exercise('bench', [[90, 5]])] }),
+      createMockWorkout({ id: 'w2', date: '2024-01-08', templateId: 'push', exercises: [exercise('bench', [[60, 5, true], [95, 5]])] }),
+      createMockWorkout({ id: 'w3', date: '2024-01-10', exercises: [exercise('bench', [[100, 5]])] })
+    ];
+
+    const repeated = repeatLastSession(template, workouts)!;
+    expect(repeated[0]!.sets.map(set => [set.weight, set.reps, set.isWarmup])).toEqual([[60, 5, true], [95, 5, false]]);
+    expect(repeated[0]!.sets[0]!.id).not.toBe('bench-0');
+    expect(repeatLastSession({ ...template, id: 'pull' }, workouts)).toBeNull();
+  });
+
+  it('should turn a workout\'s working sets into targets', () => {
+    const workout = createMockWorkout({
+      exercises: [exercise('bench', [[60, 8, true], [100, 5], [100, 5], [95, 6]]), exercise('plank', [])]
+    });
+
+    const saved = templateFromWorkout(workout, 'Bench Day');
+    expect(saved.name).toBe('Bench Day');
+    expect(saved.exercises).toEqual([
+      { exerciseId: 'bench', sets: 3, reps: 5, load: 100, loadType: 'weight', restTime: 150 }
+    ]);
+  });
+});
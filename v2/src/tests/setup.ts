@@ -2,6 +2,12 @@
 
 import { vi } from 'vitest';
 import 'fake-indexeddb/auto';
+import type { WorkoutExercise } from '../types/index.js';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var createMockWorkoutExercise: (overrides?: Partial<WorkoutExercise>) => WorkoutExercise;
+}
 
 // Mock localStorage
 const localStorageMock = {
@@ -89,6 +95,17 @@ global.createMockWorkoutSet = (overrides = {}) => ({
   ...overrides
 });
 
+global.createMockWorkoutExercise = (overrides = {}): WorkoutExercise => ({
+  id: 'test-workout-exercise-1',
+  exerciseId: 'test-exercise-1',
+  sets: [],
+  notes: '',
+  restTime: 90,
+  metrics: { totalVolume: 0, maxWeight: 0, maxReps: 0, estimatedOneRepMax: 0, volumePerMinute: 0, intensityScore: 0 },
+  progression: { weightChange: 0, volumeChange: 0, strengthChange: 0, isPersonalBest: false, streak: 0, lastImprovement: '' },
+  ...overrides
+});
+
 // Cleanup after each test
 afterEach(() => {
   vi.clearAllMocks();
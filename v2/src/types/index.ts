@@ -27,8 +27,109 @@ export interface WorkoutSession {
   duration: number; // minutes
   totalVolume: number;
   dateCreated: string;
+  templateId?: string; // routine the session was started from
+  program?: { programId: string; position: number }; // program session it was prescribed as
 }
 
+// 📋 Named routine a session can be started from
+export interface WorkoutTemplate {
+  id: string;
+  name: string;
+  exercises: TemplateExercise[]; // in the order they are done
+  dateCreated: string;
+}
+
+export interface TemplateExercise {
+  exerciseId: string;
+  sets: number;
+  reps: number;
+  load: number | null; // kg, or % of the estimated 1RM when loadType is 'percent'
+  loadType: 'weight' | 'percent';
+  restTime: number; // seconds
+}
+
+// 🗓️ Multi-week programs - one cycle of weeks repeats, loads are % of each lift's training max
+export interface ProgramDefinition {
+  id: string;
+  name: string;
+  description: string;
+  lifts: ProgramLift[];
+  weeks: ProgramWeek[];
+  progression: ProgramProgression;
+  defaultTrainingDays: number[]; // 0 = Sunday
+}
+
+export interface ProgramLift {
+  id: string;
+  name: string;
+  pattern: string; // matched against exercise names to guess the exercise
+  increment: number; // kg added to the training max on progress
+  trainingMaxPercent: number; // starting training max as % of the estimated 1RM
+}
+
+export interface ProgramWeek {
+  name: string;
+  days: ProgramDay[];
+}
+
+export interface ProgramDay {
+  name: string;
+  slots: ProgramSlot[];
+}
+
+export interface ProgramSlot {
+  lift: string;
+  stages: PrescribedSet[][]; // set schemes in order - a failure moves on to the next one
+}
+
+export interface PrescribedSet {
+  percent: number; // of the training max
+  reps: number;
+  amrap?: boolean;
+}
+
+export interface ProgramProgression {
+  frequency: 'session' | 'cycle'; // progress after every session of a lift, or after each full cycle
+  deloadPercent: number; // training max cut once a lift fails with no set scheme left to move on to
+}
+
+export interface ProgramState {
+  programId: string;
+  startDate: string;
+  trainingDays: number[]; // 0 = Sunday
+  exerciseIds: Record<string, string | null>; // program lift → exercise
+  trainingMaxes: Record<string, number>; // kg
+  stages: Record<string, number>; // current set scheme per lift
+  failures: Record<string, boolean>; // lifts that missed reps this cycle
+  position: number; // sessions completed since the start
+}
+
+export interface ProgramSession {
+  position: number;
+  cycle: number;
+  week: string;
+  day: string;
+  exercises: Array<{ lift: string; exerciseId: string | null; sets: Array<{ weight: number; reps: number; amrap: boolean }> }>;
+}
+
+export interface TrainingMaxChange {
+  lift: string;
+  from: number;
+  to: number;
+  reason: 'progress' | 'next_stage' | 'deload';
+}
+
+// 📝 Unfinished session, saved on every edit so a reload or killed tab can resume it
+export interface WorkoutDraft {
+  workout: WorkoutSession;
+  updatedAt: string;
+}
+
+// 🗑️ Trash (soft delete)
+export type TrashItem =
+  | { id: string; entityType: 'exercise'; entity: Exercise; deletedAt: string }
+  | { id: string; entityType: 'workout'; entity: WorkoutSession; deletedAt: string };
+
 export interface WorkoutExercise {
   id: string;
   exerciseId: string;
@@ -51,6 +152,7 @@ export interface WorkoutSet {
   restTime?: number; // seconds
   isWarmup: boolean;
   isFailure: boolean;
+  isAmrap?: boolean; // as many reps as possible - the prescribed reps are the minimum
   notes?: string;
 }
 
@@ -78,6 +180,15 @@ export interface PersonalBests {
   maxReps: { value: number; date: string; weight: number };
   maxVolume: { value: number; date: string };
   estimatedOneRepMax: { value: number; date: string };
+  repMaxes?: RepMax[]; // 1RM-20RM - missing until the exercise's history is next rebuilt
+}
+
+// 🏅 Heaviest weight lifted for exactly this many reps
+export interface RepMax {
+  reps: number;
+  weight: number;
+  date: string;
+  workoutId: string;
 }
 
 // 📊 Analytics & Chart Data
@@ -95,23 +206,192 @@ export interface ProgressionPoint {
   maxWeight: number;
   estimatedOneRepMax: number;
   reps: number;
+  maxReps: number; // most reps in one working set
   workoutId: string;
 }
 
 export interface TrendData {
-  slope: number; // improvement rate
+  slope: number; // improvement per week
   correlation: number; // consistency
-  prediction: number; // next expected value
+  prediction: number; // expected value at the next session
+  intercept: number; // trend value on startDate
+  startDate: string;
+  standardError: number; // typical distance of a session from the trend
+  slopeInterval: { lower: number; upper: number }; // 95% confidence interval of the weekly rate
+}
+
+// 💪 Training volume of one muscle group in one ISO week
+export interface MuscleGroupVolume {
+  muscleGroup: MuscleGroup;
+  hardSets: number; // working sets - secondary muscles count partially
+  tonnage: number; // kg lifted in working sets, weighted the same way
+}
+
+export interface WeeklyMuscleVolume {
+  week: string; // ISO week, e.g. 2024-W03
+  muscleGroups: MuscleGroupVolume[];
+}
+
+// Weekly hard-set landmarks
+export interface VolumeLandmark {
+  mev: number; // minimum effective volume
+  mrv: number; // maximum recoverable volume
+}
+
+export interface MuscleVolumeStatus extends MuscleGroupVolume, VolumeLandmark {
+  status: 'below_mev' | 'productive' | 'above_mrv';
+}
+
+// 🔋 Session RPE load (sRPE × minutes) and the rolling windows built on it
+export interface SessionLoad {
+  workoutId: string;
+  date: string;
+  sessionRPE: number;
+  duration: number; // minutes
+  load: number; // arbitrary units
+}
+
+export interface TrainingLoadSummary {
+  date: string;
+  acuteLoad: number; // last 7 days
+  chronicLoad: number; // weekly average of the last 28 days
+  acwr: number | null; // acute:chronic workload ratio
+  monotony: number | null; // mean daily load / its standard deviation over 7 days
+  strain: number | null; // acute load × monotony
+  status: 'insufficient_data' | 'low' | 'optimal' | 'high' | 'danger';
+}
+
+// Banister impulse-response model
+export interface FitnessFatigueParams {
+  fitnessDecay: number; // days
+  fatigueDecay: number;
+  fitnessGain: number;
+  fatigueGain: number;
+}
+
+export interface FitnessFatiguePoint {
+  date: string;
+  load: number;
+  fitness: number;
+  fatigue: number;
+  performance: number; // fitness gain × fitness - fatigue gain × fatigue
+}
+
+// 🔮 Trend extrapolated past the latest session
+export interface TrendProjectionPoint {
+  date: string;
+  value: number;
+  lower: number; // 95% confidence band of the trend line
+  upper: number;
+}
+
+export interface TrendForecast {
+  exerciseId: string;
+  target: number;
+  currentValue: number; // trend value at the latest session
+  weeksAway: number | null; // null when the trend isn't heading towards the target
+  expectedDate: string | null;
+  earliestDate: string | null; // at the upper end of the weekly rate interval
+  latestDate: string | null; // null when the lower end never gets there
 }
 
 export interface Milestone {
   date: string;
-  type: 'pr_weight' | 'pr_reps' | 'pr_volume' | 'streak';
+  type: 'pr_weight' | 'pr_reps' | 'pr_rep_max' | 'pr_volume' | 'pr_e1rm' | 'streak';
   value: number;
   description: string;
+  reps?: number; // rep count of a rep-max PR
+}
+
+// 🎚️ Intensity zones as % of the e1RM the lifter had on the day
+export type IntensityZone = 'below_60' | '60_70' | '70_80' | '80_90' | '90_plus';
+
+export interface IntensityZoneVolume {
+  sets: number;
+  reps: number;
+}
+
+// Prilepin's chart row for a zone, checked against what was done
+export interface PrilepinCheck {
+  zone: IntensityZone;
+  reps: number;
+  optimalReps: number;
+  repRange: [number, number]; // total reps in the zone
+  repsPerSet: [number, number];
+  setsInRange: number; // sets whose rep count fits repsPerSet
+  sets: number;
+  status: 'under' | 'within' | 'over';
+}
+
+export interface IntensitySession {
+  exerciseId: string;
+  workoutId: string;
+  date: string;
+  referenceOneRepMax: number; // best e1RM of the lookback window up to this session
+  zones: Record<IntensityZone, IntensityZoneVolume>;
+  inol: number; // Σ reps / (100 - %1RM)
+  prilepin: PrilepinCheck[]; // zones trained this session that Prilepin's chart covers
+}
+
+export interface IntensityWeek {
+  exerciseId: string;
+  week: string; // ISO week, e.g. 2024-W03
+  sessions: number;
+  zones: Record<IntensityZone, IntensityZoneVolume>;
+  inol: number;
+}
+
+// 💡 Plateau and deload recommendations
+export type RecommendationType = 'plateau' | 'rising_rpe' | 'falling_mood';
+export type RecommendationSeverity = 'info' | 'warning' | 'critical';
+
+export interface RecommendationEvidence {
+  date: string;
+  metric: 'e1rm' | 'rpe' | 'mood';
+  value: number;
+  weight?: number; // load the RPE was reported at
+}
+
+export interface Recommendation {
+  id: string; // changes when the situation does, so a dismissal only hides this occurrence
+  type: RecommendationType;
+  severity: RecommendationSeverity;
+  exerciseId: string | null; // null for whole-program signals like mood
+  title: string;
+  action: string; // what to do about it, e.g. "Deload 10% for one week"
+  evidence: RecommendationEvidence[];
+}
+
+// ⚖️ Bodyweight & relative strength
+export type Sex = 'male' | 'female';
+export type CompetitionLift = 'squat' | 'bench' | 'deadlift';
+
+export interface BodyweightEntry {
+  id: string;
+  date: string;
+  weight: number; // kg
+  notes?: string;
+}
+
+export interface BodyweightTrendPoint {
+  date: string;
+  weight: number;
+  trend: number; // exponentially smoothed, so day-to-day water swings don't move the scores
+}
+
+export interface StrengthScorePoint {
+  date: string;
+  bodyweight: number; // trend value on the day
+  lifts: Record<CompetitionLift, number>; // best e1RM or heaviest weight lifted so far
+  total: number;
+  wilks: number;
+  dots: number;
+  ipfGL: number;
 }
 
 // 🎯 User Preferences & Settings
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'lombardi' | 'mayhew' | 'wathan';
+
 export interface UserSettings {
   weightUnit: 'kg' | 'lbs';
   dateFormat: 'iso' | 'us' | 'eu';
@@ -119,6 +399,14 @@ export interface UserSettings {
   restTimerDefault: number;
   autoSave: boolean;
   analyticsEnabled: boolean;
+  trashRetentionDays: number; // deleted items are purged after this many days
+  oneRepMaxFormula: OneRepMaxFormula; // used when a set has no RPE the chart covers
+  volumeLandmarks: Record<MuscleGroup, VolumeLandmark>; // weekly hard sets per muscle group
+  hiddenRecommendations: Record<string, string | null>; // recommendation id → snoozed until, null when dismissed
+  sex: Sex | null; // picks the Wilks, DOTS and IPF GL coefficients
+  competitionLifts: Record<CompetitionLift, string | null>; // exercise ids, guessed from names when null
+  strengthScoreBasis: 'e1rm' | 'actual'; // estimated 1RMs or the heaviest weights actually lifted
+  progression: ProgressionSettings; // how the next session of an exercise is suggested
 
   // 📈 Chart preferences
   chartDefaults: {
@@ -136,6 +424,24 @@ export interface UserSettings {
   };
 }
 
+// 🎯 Next-session suggestions
+export type ProgressionModel = 'double' | 'increment' | 'rpe';
+
+export interface ProgressionSettings {
+  model: ProgressionModel;
+  repRange: { min: number; max: number }; // double progression adds reps up to max, then load
+  targetRpe: number; // effort the RPE-target model loads the next session for
+}
+
+export interface ProgressionSuggestion {
+  model: ProgressionModel;
+  sets: number;
+  weight: number;
+  reps: number;
+  basedOn: string; // date of the session the suggestion builds on
+  reason: string;
+}
+
 // 📱 App State Management
 export interface AppState {
   currentWorkout: WorkoutSession | null;
@@ -208,6 +514,17 @@ export interface SyncStatus {
   conflictCount: number;
 }
 
+export interface SyncConflict {
+  id: string;
+  entityType: 'exercise' | 'workout';
+  entityId: string;
+  path: string[]; // field path - empty when one side deleted the entity
+  base?: unknown;
+  local?: unknown;
+  remote?: unknown;
+  detectedAt: string;
+}
+
 export interface BackupData {
   version: string;
   timestamp: string;
@@ -216,5 +533,7 @@ export interface BackupData {
     exercises: Exercise[];
     workouts: WorkoutSession[];
     settings: UserSettings;
+    bodyweight?: BodyweightEntry[]; // missing in backups from before the bodyweight log
+    templates?: WorkoutTemplate[]; // missing in backups from before routines
   };
-}
\ No newline at end of file
+}